@@ -0,0 +1,224 @@
+/**
+ * Generate the wire format JSON Schemas from src/types.ts
+ *
+ * Writes schema/*.schema.json for backends, and src/schema.generated.ts for
+ * the SDK's own runtime validation, so both follow the same types. Doc
+ * comments become descriptions, and `@minimum`, `@maximum`, `@pattern` and
+ * `@format` tags become the matching keywords.
+ *
+ *   node scripts/generate-schema.mjs          write the files
+ *   node scripts/generate-schema.mjs --check  fail if they are out of date
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import ts from 'typescript';
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const typesFile = path.join(root, 'src/types.ts');
+const versionFile = path.join(root, 'src/schema.ts');
+
+/** Root types to publish, and the file each is written to */
+const ROOTS = {
+  TelemetryBatch: 'schema/telemetry-batch.schema.json',
+  TelemetryRecord: 'schema/telemetry-record.schema.json',
+  ToolInvocation: 'schema/tool-invocation.schema.json',
+};
+const GENERATED_TS = 'src/schema.generated.ts';
+
+const KEYWORD_TAGS = {
+  minimum: Number,
+  maximum: Number,
+  pattern: String,
+  format: String,
+};
+
+const program = ts.createProgram([typesFile, versionFile], {
+  strict: true,
+  target: ts.ScriptTarget.ES2022,
+  module: ts.ModuleKind.NodeNext,
+  moduleResolution: ts.ModuleResolutionKind.NodeNext,
+  noEmit: true,
+});
+const checker = program.getTypeChecker();
+
+function exportsOf(file) {
+  const source = program.getSourceFile(file);
+  return new Map(checker.getExportsOfModule(checker.getSymbolAtLocation(source)).map(symbol => [symbol.name, symbol]));
+}
+
+function schemaVersion() {
+  const symbol = exportsOf(versionFile).get('SCHEMA_VERSION');
+  const type = symbol && checker.getTypeOfSymbol(symbol);
+  if (!type?.isStringLiteral()) {
+    throw new Error('src/schema.ts must export SCHEMA_VERSION as a string literal');
+  }
+  return type.value;
+}
+
+/**
+ * Converts types to schemas, collecting named types from src/types.ts in $defs
+ */
+class SchemaBuilder {
+  defs = new Map();
+
+  build(name) {
+    const symbol = exportsOf(typesFile).get(name);
+    if (!symbol) throw new Error(`src/types.ts does not export ${name}`);
+
+    this.defs.clear();
+    const schema = this.named(symbol, checker.getDeclaredTypeOfSymbol(symbol), false);
+    const defs = Object.fromEntries([...this.defs].filter(([key]) => key !== name).sort(([a], [b]) => a.localeCompare(b)));
+    return {
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      $comment: `Generated from src/types.ts for schemaVersion ${schemaVersion()}. Do not edit.`,
+      title: name,
+      ...schema,
+      ...(Object.keys(defs).length > 0 && { $defs: defs }),
+    };
+  }
+
+  named(symbol, type, asRef = true) {
+    const name = symbol.name;
+    if (!this.defs.has(name)) {
+      this.defs.set(name, null);
+      const description = describe(symbol);
+      const body = type.isUnion() ? this.union(type) : this.object(type);
+      this.defs.set(name, { ...(description && { description }), ...body });
+    }
+    return asRef ? { $ref: `#/$defs/${name}` } : this.defs.get(name);
+  }
+
+  type(type) {
+    const flags = type.flags;
+    if (flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)) return {};
+    if (flags & ts.TypeFlags.Boolean) return { type: 'boolean' };
+    if (flags & ts.TypeFlags.String) return { type: 'string' };
+    if (flags & ts.TypeFlags.Number) return { type: 'number' };
+    if (type.isStringLiteral() || type.isNumberLiteral()) return { const: type.value };
+    if (flags & ts.TypeFlags.BooleanLiteral) return { const: type.intrinsicName === 'true' };
+
+    const named = this.declaredSymbol(type);
+    if (named) return this.named(named, type);
+    if (type.isUnion()) return this.union(type);
+    if (checker.isArrayType(type)) {
+      return { type: 'array', items: this.type(checker.getTypeArguments(type)[0]) };
+    }
+    if (flags & ts.TypeFlags.Object || type.isIntersection()) return this.object(type);
+    throw new Error(`Cannot express ${checker.typeToString(type)} in JSON Schema`);
+  }
+
+  /**
+   * The interface or type alias a type was declared as in src/types.ts, if any
+   */
+  declaredSymbol(type) {
+    const symbol = type.aliasSymbol ?? (type.symbol?.flags & ts.SymbolFlags.Interface ? type.symbol : undefined);
+    const declaration = symbol?.declarations?.[0];
+    return declaration && path.resolve(declaration.getSourceFile().fileName) === typesFile ? symbol : undefined;
+  }
+
+  union(type) {
+    const members = type.types.filter(member => !(member.flags & (ts.TypeFlags.Undefined | ts.TypeFlags.Null)));
+    // `boolean` is `true | false` once other members are mixed in
+    const literals = members.filter(member => member.flags & ts.TypeFlags.BooleanLiteral);
+    const rest = members.filter(member => !(member.flags & ts.TypeFlags.BooleanLiteral));
+    const schemas = [...(literals.length === 2 ? [{ type: 'boolean' }] : literals.map(member => this.type(member))), ...rest.map(member => this.type(member))];
+
+    if (schemas.length === 1) return schemas[0];
+    if (schemas.every(schema => 'const' in schema)) {
+      return { enum: schemas.map(schema => schema.const) };
+    }
+    if (schemas.every(schema => Object.keys(schema).length === 1 && typeof schema.type === 'string')) {
+      return { type: schemas.map(schema => schema.type) };
+    }
+    return { anyOf: schemas };
+  }
+
+  object(type) {
+    const properties = {};
+    const required = [];
+    for (const property of checker.getPropertiesOfType(type)) {
+      const declaration = property.valueDeclaration ?? property.declarations?.[0];
+      const propertyType = declaration
+        ? checker.getTypeOfSymbolAtLocation(property, declaration)
+        : checker.getTypeOfSymbol(property);
+      const description = describe(property);
+      properties[property.name] = {
+        ...(description && { description }),
+        ...this.type(propertyType),
+        ...keywordTags(property),
+      };
+      if (!(property.flags & ts.SymbolFlags.Optional)) required.push(property.name);
+    }
+
+    const index = checker.getIndexInfoOfType(type, ts.IndexKind.String);
+    const additional = index && this.type(index.type);
+    return {
+      type: 'object',
+      ...(Object.keys(properties).length > 0 && { properties }),
+      ...(required.length > 0 && { required }),
+      ...(additional && Object.keys(additional).length > 0 && { additionalProperties: additional }),
+    };
+  }
+}
+
+function describe(symbol) {
+  const text = ts.displayPartsToString(symbol.getDocumentationComment(checker)).trim();
+  return text ? text.replace(/\s*\n\s*/g, ' ') : undefined;
+}
+
+function keywordTags(symbol) {
+  const keywords = {};
+  for (const tag of symbol.getJsDocTags(checker)) {
+    const parse = KEYWORD_TAGS[tag.name];
+    if (parse) keywords[tag.name] = parse(ts.displayPartsToString(tag.text).trim());
+  }
+  return keywords;
+}
+
+function render() {
+  const builder = new SchemaBuilder();
+  const files = new Map();
+  const schemas = {};
+  for (const [name, file] of Object.entries(ROOTS)) {
+    schemas[name] = builder.build(name);
+    files.set(file, JSON.stringify(schemas[name], null, 2) + '\n');
+  }
+
+  const constants = Object.entries(schemas).map(([name, schema]) => {
+    const constant = name.replace(/([a-z])([A-Z])/g, '$1_$2').toUpperCase() + '_SCHEMA';
+    return `export const ${constant}: JsonSchema = ${JSON.stringify(schema, null, 2)};\n`;
+  });
+  files.set(GENERATED_TS, [
+    '/**',
+    ' * Wire format JSON Schemas, generated from types.ts by',
+    ' * scripts/generate-schema.mjs. Do not edit; run `npm run schema`.',
+    ' */',
+    '',
+    "import type { JsonSchema } from './schema.js';",
+    '',
+    constants.join('\n'),
+  ].join('\n'));
+  return files;
+}
+
+const check = process.argv.includes('--check');
+const stale = [];
+for (const [file, content] of render()) {
+  const target = path.join(root, file);
+  const current = fs.existsSync(target) ? fs.readFileSync(target, 'utf8') : null;
+  if (current === content) continue;
+  if (check) {
+    stale.push(file);
+  } else {
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, content);
+    console.log(`Wrote ${file}`);
+  }
+}
+
+if (stale.length > 0) {
+  console.error(`Out of date with src/types.ts: ${stale.join(', ')}\nRun "npm run schema" and commit the result.`);
+  process.exit(1);
+}
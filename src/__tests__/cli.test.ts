@@ -0,0 +1,165 @@
+/**
+ * Tests for the emcy command line
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { main } from '../cli.js';
+import type { ToolInvocation } from '../types.js';
+import { createInvocation } from './fixtures.js';
+
+describe('emcy CLI', () => {
+  let directory: string;
+  let file: string;
+  let stdout: string[];
+  let stderr: string[];
+  let controller: AbortController;
+
+  const run = (...argv: string[]) => main(argv, {
+    stdout: line => stdout.push(line),
+    stderr: line => stderr.push(line),
+    signal: controller.signal,
+  });
+
+  const writeInvocations = (invocations: ToolInvocation[]) => {
+    fs.writeFileSync(file, invocations.map(invocation => JSON.stringify(invocation)).join('\n') + '\n');
+  };
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'emcy-cli-'));
+    file = path.join(directory, 'invocations.jsonl');
+    stdout = [];
+    stderr = [];
+    controller = new AbortController();
+  });
+
+  afterEach(() => {
+    controller.abort();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should print usage and fail without a command', async () => {
+    expect(await run()).toBe(1);
+    expect(stdout[0]).toMatch(/^Usage: emcy <command>/);
+  });
+
+  it('should reject unknown commands and options', async () => {
+    expect(await run('deploy')).toBe(1);
+    expect(stderr[0]).toContain('[emcy] Unknown command: deploy');
+
+    expect(await run('stats', '--verbose', '--file', file)).toBe(1);
+    expect(stderr[1]).toContain("Unknown option '--verbose'");
+  });
+
+  describe('tail', () => {
+    it('should print the last invocations matching the filters', async () => {
+      writeInvocations([
+        createInvocation({ invocationId: 'inv-1' }),
+        createInvocation({ invocationId: 'inv-2', toolName: 'broken', success: false, error: { message: 'boom' } }),
+        createInvocation({ invocationId: 'inv-3', timestamp: '2024-01-01T00:00:01.000Z' }),
+      ]);
+
+      expect(await run('tail', '--file', file, '-n', '2')).toBe(0);
+      expect(stdout).toEqual([
+        '[emcy] 2024-01-01T00:00:00.000Z broken 100ms error: boom',
+        '[emcy] 2024-01-01T00:00:01.000Z testTool 100ms ok',
+      ]);
+
+      stdout = [];
+      await run('tail', '--file', file, '--errors', '--json');
+      expect(stdout.map(line => JSON.parse(line).invocationId)).toEqual(['inv-2']);
+    });
+
+    it('should skip lines that are not invocations', async () => {
+      fs.writeFileSync(file, `${JSON.stringify(createInvocation())}\n{"toolName": "cut off\n`);
+
+      await run('tail', '--file', file);
+
+      expect(stdout).toHaveLength(1);
+    });
+
+    it('should fail when the file does not exist', async () => {
+      expect(await run('tail', '--file', path.join(directory, 'missing.jsonl'))).toBe(1);
+      expect(stderr[0]).toContain('missing.jsonl does not exist');
+    });
+
+    it('should print invocations appended while following', async () => {
+      writeInvocations([createInvocation()]);
+
+      const following = run('tail', '--file', file, '--follow');
+      await new Promise(resolve => setTimeout(resolve, 50));
+      fs.appendFileSync(file, JSON.stringify(createInvocation({ toolName: 'later' })) + '\n');
+      await new Promise(resolve => setTimeout(resolve, 700));
+      controller.abort();
+
+      expect(await following).toBe(0);
+      expect(stdout).toEqual([
+        '[emcy] 2024-01-01T00:00:00.000Z testTool 100ms ok',
+        '[emcy] 2024-01-01T00:00:00.000Z later 100ms ok',
+      ]);
+    });
+  });
+
+  describe('stats', () => {
+    it('should summarise root invocations per tool', async () => {
+      writeInvocations([
+        createInvocation({ toolName: 'search', duration: 10 }),
+        createInvocation({ toolName: 'search', duration: 20, success: false }),
+        createInvocation({ toolName: 'fetch', duration: 5, parentInvocationId: 'inv-1' }),
+        createInvocation({ toolName: 'export', duration: 300 }),
+      ]);
+
+      expect(await run('stats', '--file', file, '--json')).toBe(0);
+      const summary = JSON.parse(stdout[0]);
+
+      expect(summary.map((tool: { toolName: string }) => tool.toolName)).toEqual(['search', 'export']);
+      expect(summary[0]).toMatchObject({ count: 2, errors: 1, errorRate: 0.5, latency: { min: 10, max: 20 } });
+    });
+
+    it('should print a table', async () => {
+      writeInvocations([createInvocation({ toolName: 'search', duration: 10 })]);
+
+      await run('stats', '--file', file);
+
+      expect(stdout[0].split(/\s+/)).toEqual(['tool', 'calls', 'errors', 'error', '%', 'p50', 'p95', 'p99', 'max']);
+      expect(stdout[1].split(/\s+/)).toEqual(['search', '1', '0', '0.0', '10ms', '10ms', '10ms', '10ms']);
+    });
+
+    it('should only count invocations within --since', async () => {
+      writeInvocations([
+        createInvocation({ toolName: 'old' }),
+        createInvocation({ toolName: 'recent', timestamp: new Date().toISOString() }),
+      ]);
+
+      await run('stats', '--file', file, '--since', '15m', '--json');
+
+      expect(JSON.parse(stdout[0]).map((tool: { toolName: string }) => tool.toolName)).toEqual(['recent']);
+    });
+
+    it('should reject a malformed duration', async () => {
+      expect(await run('stats', '--file', file, '--since', 'yesterday')).toBe(1);
+      expect(stderr[0]).toContain('--since must be a duration');
+    });
+  });
+
+  describe('dev-server', () => {
+    it('should serve until stopped', async () => {
+      const serving = run('dev-server', '--port', '0', '--file', file);
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      const url = /listening on (\S+)/.exec(stdout[0])?.[1];
+      expect(url).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/api\/v1\/telemetry$/);
+
+      controller.abort();
+      expect(await serving).toBe(0);
+      expect(stdout.at(-1)).toBe('[emcy] Received 0 invocations');
+    });
+
+    it('should validate numeric options', async () => {
+      expect(await run('dev-server', '--fail-rate', '2')).toBe(1);
+      expect(stderr[0]).toContain('--fail-rate must be a number between 0 and 1, got "2"');
+    });
+  });
+});
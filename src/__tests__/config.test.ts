@@ -0,0 +1,143 @@
+/**
+ * Tests for configuration resolution and validation
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { EmcyConfigError, resolveConfig, validateConfig } from '../config.js';
+
+describe('resolveConfig', () => {
+  let directory: string;
+  let configFile: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'emcy-config-'));
+    configFile = path.join(directory, 'emcy.config.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should read EMCY_* environment variables', () => {
+    const config = resolveConfig({
+      configFile: false,
+      env: {
+        EMCY_API_KEY: 'env-key',
+        EMCY_TELEMETRY_URL: 'https://telemetry.example.com/v1',
+        EMCY_MCP_SERVER_ID: 'server-1',
+        EMCY_DEBUG: 'true',
+        EMCY_BATCH_SIZE: '25',
+        EMCY_FLUSH_INTERVAL: '2000',
+      },
+    });
+
+    expect(config).toEqual({
+      apiKey: 'env-key',
+      endpoint: 'https://telemetry.example.com/v1',
+      mcpServerId: 'server-1',
+      debug: true,
+      batchSize: 25,
+      flushInterval: 2000,
+    });
+  });
+
+  it('should prefer options over environment over file', () => {
+    fs.writeFileSync(configFile, JSON.stringify({ apiKey: 'file-key', batchSize: 5, mcpServerId: 'file-server' }));
+
+    const config = resolveConfig({
+      configFile,
+      env: { EMCY_API_KEY: 'env-key', EMCY_BATCH_SIZE: '20' },
+      batchSize: 50,
+    });
+
+    expect(config).toEqual({ apiKey: 'env-key', batchSize: 50, mcpServerId: 'file-server' });
+  });
+
+  it('should read the file named by EMCY_CONFIG_FILE', () => {
+    fs.writeFileSync(configFile, JSON.stringify({ apiKey: 'file-key' }));
+
+    expect(resolveConfig({ env: { EMCY_CONFIG_FILE: configFile } }).apiKey).toBe('file-key');
+  });
+
+  it('should ignore a missing default config file', () => {
+    const cwd = process.cwd();
+    process.chdir(directory);
+    try {
+      expect(resolveConfig({ env: {} })).toEqual({});
+    } finally {
+      process.chdir(cwd);
+    }
+  });
+
+  it('should fail when an explicit config file is missing', () => {
+    expect(() => resolveConfig({ configFile, env: {} })).toThrow(EmcyConfigError);
+  });
+
+  it('should reject malformed JSON and unknown keys in the file', () => {
+    fs.writeFileSync(configFile, '{ "apiKey": ');
+    expect(() => resolveConfig({ configFile, env: {} })).toThrow(/is not valid JSON/);
+
+    fs.writeFileSync(configFile, JSON.stringify({ maxBatchSize: 100 }));
+    expect(() => resolveConfig({ configFile, env: {} })).toThrow(/Invalid maxBatchSize from .*unknown option/);
+  });
+
+  it('should name the environment variable an invalid value came from', () => {
+    const error = captureError(() => resolveConfig({ configFile: false, env: { EMCY_BATCH_SIZE: '0' } }));
+
+    expect(error).toBeInstanceOf(EmcyConfigError);
+    expect(error.field).toBe('batchSize');
+    expect(error.source).toBe('EMCY_BATCH_SIZE');
+    expect(error.message).toBe('[emcy] Invalid batchSize from EMCY_BATCH_SIZE: expected a positive integer, got 0');
+  });
+
+  it('should reject non-numeric and non-boolean environment values', () => {
+    expect(() => resolveConfig({ configFile: false, env: { EMCY_FLUSH_INTERVAL: 'soon' } }))
+      .toThrow('[emcy] Invalid flushInterval from EMCY_FLUSH_INTERVAL: expected a number, got "soon"');
+    expect(() => resolveConfig({ configFile: false, env: { EMCY_DEBUG: 'maybe' } }))
+      .toThrow('[emcy] Invalid debug from EMCY_DEBUG: expected true or false, got "maybe"');
+  });
+});
+
+describe('validateConfig', () => {
+  it('should accept a valid config', () => {
+    expect(() => validateConfig({
+      apiKey: 'key',
+      endpoint: 'http://localhost:3000/telemetry',
+      batchSize: 10,
+      flushInterval: 500,
+      sampling: { rate: 0.5, tools: { 'search_*': 0 } },
+      otlp: { protocol: 'http/protobuf' },
+    })).not.toThrow();
+  });
+
+  it.each([
+    [{ batchSize: -1 }, 'batchSize'],
+    [{ batchSize: 2.5 }, 'batchSize'],
+    [{ flushInterval: 0 }, 'flushInterval'],
+    [{ maxQueueSize: 0 }, 'maxQueueSize'],
+    [{ endpoint: 'not a url' }, 'endpoint'],
+    [{ endpoint: 'ftp://example.com' }, 'endpoint'],
+    [{ overflowPolicy: 'dropAll' }, 'overflowPolicy'],
+    [{ sampling: { rate: 1.5 } }, 'sampling.rate'],
+    [{ limits: { maxBatchBytes: 0 } }, 'limits.maxBatchBytes'],
+    [{ otlp: { endpoint: 'localhost:4318' } }, 'otlp.endpoint'],
+    [{ exporters: [{}] }, 'exporters.0'],
+  ])('should reject %j', (config, field) => {
+    const error = captureError(() => validateConfig(config as never));
+
+    expect(error).toBeInstanceOf(EmcyConfigError);
+    expect(error.field).toBe(field);
+  });
+});
+
+function captureError(fn: () => unknown): EmcyConfigError {
+  try {
+    fn();
+  } catch (error) {
+    return error as EmcyConfigError;
+  }
+  throw new Error('Expected an error');
+}
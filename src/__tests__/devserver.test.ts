@@ -0,0 +1,135 @@
+/**
+ * Tests for the local development ingest server
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { DevServer, type DevServerOptions } from '../devserver.js';
+import { TelemetryTransport } from '../transport.js';
+import type { TelemetryBatch, ToolInvocation } from '../types.js';
+import { createInvocation } from './fixtures.js';
+
+const createBatch = (invocations: ToolInvocation[] = [createInvocation()]): TelemetryBatch => ({
+  schemaVersion: '1.0',
+  apiKey: 'test-key',
+  timestamp: '2024-01-01T00:00:00.000Z',
+  invocations,
+});
+
+describe('DevServer', () => {
+  let directory: string;
+  let file: string;
+  let lines: string[];
+  let server: DevServer;
+
+  const start = async (options: DevServerOptions = {}) => {
+    server = new DevServer({ port: 0, file, write: line => lines.push(line), ...options });
+    return server.listen();
+  };
+
+  const post = (url: string, body: unknown, apiKey: string | null = 'test-key') => fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(apiKey === null ? {} : { Authorization: `Bearer ${apiKey}` }),
+    },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'emcy-dev-'));
+    file = path.join(directory, 'invocations.jsonl');
+    lines = [];
+  });
+
+  afterEach(async () => {
+    await server?.close();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should accept batches from the transport, print and store them', async () => {
+    const url = await start();
+    const transport = new TelemetryTransport(url);
+
+    await expect(transport.send(createBatch([
+      createInvocation(),
+      createInvocation({ invocationId: 'inv-2', toolName: 'broken', success: false, error: { message: 'boom' } }),
+    ]))).resolves.toBe(true);
+
+    expect(lines).toEqual([
+      '[emcy] 2024-01-01T00:00:00.000Z testTool 100ms ok',
+      '[emcy] 2024-01-01T00:00:00.000Z broken 100ms error: boom',
+    ]);
+    const stored = fs.readFileSync(file, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+    expect(stored.map(invocation => invocation.invocationId)).toEqual(['inv-1', 'inv-2']);
+    expect(server.received).toBe(2);
+  });
+
+  it('should reject requests without a bearer token or with the wrong key', async () => {
+    const url = await start({ apiKey: 'test-key' });
+
+    expect((await post(url, createBatch(), null)).status).toBe(401);
+    expect((await post(url, createBatch(), 'other-key')).status).toBe(401);
+    expect((await post(url, { ...createBatch(), apiKey: 'other-key' })).status).toBe(401);
+    expect(fs.existsSync(file)).toBe(false);
+    expect(lines[0]).toBe('[emcy] Rejected batch with 401: Missing bearer token');
+  });
+
+  it('should reject invalid payloads with the problems found', async () => {
+    const url = await start();
+
+    expect((await post(url, '{not json')).status).toBe(400);
+
+    const response = await post(url, { ...createBatch(), invocations: [{ toolName: 'x', duration: '5' }] });
+    expect(response.status).toBe(400);
+    expect(((await response.json()) as { errors: string[] }).errors).toContain('invocations[0].duration must be a number');
+  });
+
+  it('should reject batches from an unsupported major schema version', async () => {
+    const url = await start();
+
+    expect((await post(url, { ...createBatch(), schemaVersion: '1.7' })).status).toBe(200);
+    const response = await post(url, { ...createBatch(), schemaVersion: '2.0' });
+    expect(response.status).toBe(400);
+    expect(lines.at(-1)).toBe('[emcy] Rejected batch with 400: Unsupported schemaVersion 2.0, expected 1.x');
+  });
+
+  it('should only accept POST', async () => {
+    const url = await start();
+
+    expect((await fetch(url)).status).toBe(405);
+  });
+
+  it('should simulate rate limiting with Retry-After', async () => {
+    const url = await start({ rateLimitRate: 0.5, retryAfter: 7, random: () => 0.2 });
+
+    const response = await post(url, createBatch());
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('retry-after')).toBe('7');
+  });
+
+  it('should simulate failures with the configured status', async () => {
+    const url = await start({ rateLimitRate: 0.2, failRate: 0.5, failStatus: 502, random: () => 0.6 });
+
+    expect((await post(url, createBatch())).status).toBe(502);
+    expect(fs.existsSync(file)).toBe(false);
+  });
+
+  it('should accept batches drawn outside the simulated rates', async () => {
+    const url = await start({ rateLimitRate: 0.2, failRate: 0.5, random: () => 0.7 });
+
+    expect((await post(url, createBatch())).status).toBe(200);
+  });
+
+  it('should delay responses by the configured latency', async () => {
+    const url = await start({ latency: 50 });
+
+    const started = Date.now();
+    await post(url, createBatch());
+
+    expect(Date.now() - started).toBeGreaterThanOrEqual(45);
+  });
+});
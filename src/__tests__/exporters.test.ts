@@ -0,0 +1,159 @@
+/**
+ * Tests for built-in exporters and fan-out to multiple exporters
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { ConsoleExporter, JsonlFileExporter } from '../exporters.js';
+import { EmcyTelemetry } from '../telemetry.js';
+import type { Exporter, TelemetryBatch, ToolInvocation } from '../types.js';
+import { createInvocation } from './fixtures.js';
+
+const createBatch = (invocations: ToolInvocation[]): TelemetryBatch => ({
+  schemaVersion: '1.0',
+  apiKey: 'secret-api-key',
+  timestamp: '2024-01-01T00:00:00.000Z',
+  invocations,
+});
+
+class MemoryExporter implements Exporter {
+  batches: TelemetryBatch[] = [];
+  constructor(readonly name: string, readonly batchSize?: number) {}
+  async send(batch: TelemetryBatch): Promise<boolean> {
+    this.batches.push(batch);
+    return true;
+  }
+}
+
+describe('ConsoleExporter', () => {
+  it('should print a summary line per invocation', async () => {
+    const lines: string[] = [];
+    const exporter = new ConsoleExporter({ write: line => lines.push(line) });
+
+    await exporter.send(createBatch([
+      createInvocation(),
+      createInvocation({ toolName: 'broken', success: false, error: { message: 'boom' } }),
+    ]));
+
+    expect(lines).toEqual([
+      '[emcy] 2024-01-01T00:00:00.000Z testTool 100ms ok',
+      '[emcy] 2024-01-01T00:00:00.000Z broken 100ms error: boom',
+    ]);
+  });
+
+  it('should print full invocations as JSON', async () => {
+    const lines: string[] = [];
+    const exporter = new ConsoleExporter({ format: 'json', write: line => lines.push(line) });
+
+    await exporter.send(createBatch([createInvocation()]));
+
+    expect(JSON.parse(lines[0])).toEqual(createInvocation());
+  });
+
+  it('should write to stderr by default', async () => {
+    const stderr = vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+
+    await new ConsoleExporter().send(createBatch([createInvocation()]));
+
+    expect(stderr).toHaveBeenCalledWith(expect.stringContaining('testTool 100ms ok'));
+    stderr.mockRestore();
+  });
+});
+
+describe('JsonlFileExporter', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'emcy-jsonl-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should append one line per invocation without the API key', async () => {
+    const file = path.join(directory, 'nested', 'invocations.jsonl');
+    const exporter = new JsonlFileExporter({ path: file });
+
+    await exporter.send(createBatch([createInvocation({ invocationId: 'a' })]));
+    await exporter.send(createBatch([createInvocation({ invocationId: 'b' })]));
+
+    const content = fs.readFileSync(file, 'utf8');
+    expect(content.trim().split('\n').map(line => JSON.parse(line).invocationId)).toEqual(['a', 'b']);
+    expect(content).not.toContain('secret-api-key');
+  });
+});
+
+describe('EmcyTelemetry with multiple exporters', () => {
+  it('should send every invocation to every exporter', async () => {
+    const first = new MemoryExporter('first');
+    const second = new MemoryExporter('second');
+    const telemetry = new EmcyTelemetry({ apiKey: 'test-key', exporters: [first, second] });
+
+    telemetry.log(createInvocation());
+    await telemetry.flush();
+
+    expect(first.batches[0].invocations).toHaveLength(1);
+    expect(second.batches[0].invocations).toHaveLength(1);
+    await telemetry.shutdown();
+  });
+
+  it('should batch independently per exporter', async () => {
+    const small = new MemoryExporter('small', 1);
+    const large = new MemoryExporter('large');
+    const telemetry = new EmcyTelemetry({
+      apiKey: 'test-key',
+      batchSize: 10,
+      exporters: [small, large],
+    });
+
+    telemetry.log(createInvocation({ invocationId: 'a' }));
+    telemetry.log(createInvocation({ invocationId: 'b' }));
+    // Auto-flushes run one after another
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(small.batches).toHaveLength(2);
+    expect(large.batches).toHaveLength(0);
+
+    await telemetry.flush();
+    expect(large.batches).toHaveLength(1);
+    expect(large.batches[0].invocations).toHaveLength(2);
+    await telemetry.shutdown();
+  });
+
+  it('should isolate a failing exporter from the others', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const healthy = new MemoryExporter('healthy');
+    const broken: Exporter = {
+      name: 'broken',
+      send: async () => {
+        throw new Error('disk full');
+      },
+    };
+    const telemetry = new EmcyTelemetry({ apiKey: 'test-key', exporters: [broken, healthy] });
+
+    telemetry.log(createInvocation());
+    await telemetry.flush();
+
+    expect(healthy.batches).toHaveLength(1);
+    expect(consoleSpy).toHaveBeenCalledWith('[emcy] Exporter broken failed:', 'disk full');
+    expect(telemetry.dropped.byReason.send_failed).toBe(1);
+
+    await telemetry.shutdown();
+    consoleSpy.mockRestore();
+  });
+
+  it('should shut down every exporter', async () => {
+    const exporter: Exporter = {
+      send: async () => true,
+      shutdown: vi.fn().mockResolvedValue(undefined),
+    };
+    const telemetry = new EmcyTelemetry({ apiKey: 'test-key', exporters: [exporter] });
+
+    await telemetry.shutdown();
+
+    expect(exporter.shutdown).toHaveBeenCalledTimes(1);
+  });
+});
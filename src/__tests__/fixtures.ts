@@ -0,0 +1,14 @@
+/**
+ * Shared fixtures for the test suites
+ */
+
+import type { ToolInvocation } from '../types.js';
+
+export const createInvocation = (overrides?: Partial<ToolInvocation>): ToolInvocation => ({
+  invocationId: 'inv-1',
+  toolName: 'testTool',
+  timestamp: '2024-01-01T00:00:00.000Z',
+  duration: 100,
+  success: true,
+  ...overrides,
+});
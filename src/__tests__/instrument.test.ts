@@ -0,0 +1,366 @@
+/**
+ * Tests for instrumentServer and instrumentClient
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  CallToolRequestSchema,
+  CreateMessageRequestSchema,
+  CreateMessageResultSchema,
+  GetPromptRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { EmcyTelemetry } from '../telemetry.js';
+import { instrumentClient, instrumentServer } from '../instrument.js';
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+const createServer = () =>
+  new Server(
+    { name: 'test-server', version: '1.0.0' },
+    { capabilities: { tools: {}, resources: {}, prompts: {} } }
+  );
+
+const connect = async (server: Server) => {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: 'test-client', version: '1.0.0' });
+  await Promise.all([
+    server.connect(serverTransport),
+    client.connect(clientTransport),
+  ]);
+  return client;
+};
+
+const sentInvocations = () =>
+  mockFetch.mock.calls.flatMap(([, options]) => JSON.parse(options.body).invocations);
+
+// Everything but the session events recorded on connect and close
+const sentCalls = () =>
+  sentInvocations().filter((invocation: { kind?: string }) => invocation.kind !== 'session');
+
+describe('instrumentServer', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    mockFetch.mockResolvedValue({ ok: true });
+  });
+
+  it('should record tool calls for handlers registered before instrumentation', async () => {
+    const telemetry = new EmcyTelemetry({ apiKey: 'test-key' });
+    const server = createServer();
+    server.setRequestHandler(CallToolRequestSchema, async () => ({
+      content: [{ type: 'text', text: 'ok' }],
+    }));
+
+    instrumentServer(server, telemetry);
+    const client = await connect(server);
+
+    await client.callTool({ name: 'get_user', arguments: { id: '42' } });
+    await telemetry.flush();
+
+    const [invocation] = sentCalls();
+    expect(invocation.toolName).toBe('get_user');
+    expect(invocation.method).toBe('tools/call');
+    expect(invocation.input).toEqual({ id: '42' });
+    expect(invocation.requestId).toEqual(expect.any(Number));
+    expect(invocation.success).toBe(true);
+  });
+
+  it('should record handlers registered after instrumentation', async () => {
+    const telemetry = new EmcyTelemetry({ apiKey: 'test-key' });
+    const server = createServer();
+    instrumentServer(server, telemetry);
+
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: [] }));
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => ({
+      contents: [{ uri: request.params.uri, text: 'hello' }],
+    }));
+
+    const client = await connect(server);
+    await client.listTools();
+    await client.readResource({ uri: 'file:///readme.md' });
+    await telemetry.flush();
+
+    const invocations = sentCalls();
+    expect(invocations.map((i: { toolName: string }) => i.toolName)).toEqual([
+      'tools/list',
+      'file:///readme.md',
+    ]);
+    expect(invocations[0]).toMatchObject({ kind: 'request', method: 'tools/list' });
+    expect(invocations[1]).toMatchObject({ kind: 'resource', method: 'resources/read', uri: 'file:///readme.md' });
+  });
+
+  it('should record failing handlers and rethrow to the client', async () => {
+    const telemetry = new EmcyTelemetry({ apiKey: 'test-key' });
+    const server = createServer();
+    instrumentServer(server, telemetry);
+    server.setRequestHandler(ReadResourceRequestSchema, async () => {
+      throw new Error('Not found');
+    });
+
+    const client = await connect(server);
+    await expect(client.readResource({ uri: 'file:///missing' })).rejects.toThrow('Not found');
+    await telemetry.flush();
+
+    const [invocation] = sentCalls();
+    expect(invocation.success).toBe(false);
+    expect(invocation.error.message).toBe('Not found');
+  });
+
+  it('should ignore methods outside the configured list', async () => {
+    const telemetry = new EmcyTelemetry({ apiKey: 'test-key' });
+    const server = createServer();
+    instrumentServer(server, telemetry, { methods: ['tools/call'] });
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: [] }));
+
+    const client = await connect(server);
+    await client.listTools();
+    await telemetry.flush();
+
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should not double-record when instrumented twice', async () => {
+    const telemetry = new EmcyTelemetry({ apiKey: 'test-key' });
+    const server = createServer();
+    instrumentServer(server, telemetry);
+    instrumentServer(server, telemetry);
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: [] }));
+
+    const client = await connect(server);
+    await client.listTools();
+    await telemetry.flush();
+
+    expect(sentCalls()).toHaveLength(1);
+  });
+
+  it('should continue the trace from traceparent in the request _meta', async () => {
+    const telemetry = new EmcyTelemetry({ apiKey: 'test-key' });
+    const server = createServer();
+    server.setRequestHandler(CallToolRequestSchema, async () => ({ content: [] }));
+    instrumentServer(server, telemetry);
+    const client = await connect(server);
+
+    await client.callTool({
+      name: 'get_user',
+      arguments: {},
+      _meta: { traceparent: '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01' },
+    });
+    await telemetry.flush();
+
+    const [invocation] = sentCalls();
+    expect(invocation.traceId).toBe('4bf92f3577b34da6a3ce929d0e0e4736');
+    expect(invocation.parentSpanId).toBe('00f067aa0ba902b7');
+    expect(invocation.input).toEqual({});
+  });
+
+  it('should record the session start with client and protocol versions, and its end on close', async () => {
+    const telemetry = new EmcyTelemetry({ apiKey: 'test-key' });
+    const server = createServer();
+    instrumentServer(server, telemetry);
+
+    const client = await connect(server);
+    await client.close();
+    await telemetry.flush();
+
+    const [start, end] = sentInvocations();
+    expect(start).toMatchObject({
+      kind: 'session',
+      event: 'start',
+      client: { name: 'test-client', version: '1.0.0' },
+      protocolVersion: expect.any(String),
+    });
+    expect(end).toMatchObject({ kind: 'session', event: 'end' });
+  });
+
+  it('should record prompts by name', async () => {
+    const telemetry = new EmcyTelemetry({ apiKey: 'test-key' });
+    const server = createServer();
+    instrumentServer(server, telemetry);
+    server.setRequestHandler(GetPromptRequestSchema, async () => ({ messages: [] }));
+
+    const client = await connect(server);
+    await client.getPrompt({ name: 'summarize', arguments: { length: 'short' } });
+    await telemetry.flush();
+
+    const [invocation] = sentCalls();
+    expect(invocation).toMatchObject({
+      kind: 'prompt',
+      toolName: 'summarize',
+      promptName: 'summarize',
+      method: 'prompts/get',
+      input: { length: 'short' },
+    });
+  });
+
+  it('should record requests the server sends to the client', async () => {
+    const telemetry = new EmcyTelemetry({ apiKey: 'test-key' });
+    const server = createServer();
+    instrumentServer(server, telemetry);
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const client = new Client({ name: 'test-client', version: '1.0.0' }, { capabilities: { sampling: {} } });
+    client.setRequestHandler(CreateMessageRequestSchema, async () => ({
+      model: 'test-model',
+      role: 'assistant',
+      content: { type: 'text', text: 'hi' },
+    }));
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    await server.request(
+      { method: 'sampling/createMessage', params: { messages: [], maxTokens: 10 } },
+      CreateMessageResultSchema
+    );
+    await telemetry.flush();
+
+    const [invocation] = sentCalls();
+    expect(invocation).toMatchObject({
+      kind: 'request',
+      toolName: 'sampling/createMessage',
+      input: { messages: [], maxTokens: 10 },
+      success: true,
+    });
+  });
+
+  it('should reject objects that are not MCP servers', () => {
+    const telemetry = new EmcyTelemetry({ apiKey: 'test-key' });
+    expect(() => instrumentServer({}, telemetry)).toThrow(TypeError);
+  });
+});
+
+describe('instrumentClient', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    mockFetch.mockResolvedValue({ ok: true });
+  });
+
+  const createMockServer = () => {
+    const server = createServer();
+    server.setRequestHandler(CallToolRequestSchema, async (request) => ({
+      content: [{ type: 'text', text: 'ok' }],
+      isError: request.params.name === 'broken',
+    }));
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      if (request.params.uri === 'file:///missing') throw new Error('Not found');
+      return { contents: [{ uri: request.params.uri, text: 'hello' }] };
+    });
+    server.setRequestHandler(GetPromptRequestSchema, async () => ({ messages: [] }));
+    return server;
+  };
+
+  it('should record tool calls as client-side with the target server', async () => {
+    const telemetry = new EmcyTelemetry({ apiKey: 'test-key' });
+    const server = createMockServer();
+    const received: Record<string, unknown>[] = [];
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      received.push(request.params._meta ?? {});
+      return { content: [{ type: 'text', text: 'ok' }] };
+    });
+    const client = await connect(server);
+    instrumentClient(client, telemetry);
+
+    const result = await client.callTool({ name: 'get_user', arguments: { id: '42' } });
+    await telemetry.flush();
+
+    expect(result.content).toEqual([{ type: 'text', text: 'ok' }]);
+    const [invocation] = sentInvocations();
+    expect(invocation).toMatchObject({
+      toolName: 'get_user',
+      method: 'tools/call',
+      side: 'client',
+      targetServer: { name: 'test-server', version: '1.0.0' },
+      input: { id: '42' },
+      success: true,
+    });
+    expect(invocation.timeToFirstResponse).toBe(invocation.duration);
+    // Progress was not asked for, so none is requested on the caller's behalf
+    expect(received[0].progressToken).toBeUndefined();
+    expect(received[0].traceparent).toEqual(expect.any(String));
+  });
+
+  it('should record resources, prompts and failures', async () => {
+    const telemetry = new EmcyTelemetry({ apiKey: 'test-key' });
+    const client = await connect(createMockServer());
+    instrumentClient(client, telemetry);
+
+    await client.readResource({ uri: 'file:///readme.md' });
+    await client.getPrompt({ name: 'summarize', arguments: { length: 'short' } });
+    await client.callTool({ name: 'broken', arguments: {} });
+    await expect(client.readResource({ uri: 'file:///missing' })).rejects.toThrow('Not found');
+    await telemetry.flush();
+
+    const [resource, prompt, tool, missing] = sentInvocations();
+    expect(resource).toMatchObject({ kind: 'resource', uri: 'file:///readme.md', side: 'client', success: true });
+    expect(prompt).toMatchObject({ kind: 'prompt', promptName: 'summarize', input: { length: 'short' }, side: 'client' });
+    expect(tool).toMatchObject({ toolName: 'broken', success: false });
+    expect(missing).toMatchObject({ kind: 'resource', success: false, error: { message: expect.stringContaining('Not found') } });
+  });
+
+  it('should measure time to the first progress notification', async () => {
+    let now = 0;
+    const telemetry = new EmcyTelemetry({ apiKey: 'test-key', clock: { now: () => now } });
+    const server = createServer();
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      now += 10;
+      await extra.sendNotification({
+        method: 'notifications/progress',
+        params: { progressToken: request.params._meta!.progressToken!, progress: 1 },
+      });
+      await new Promise(resolve => setTimeout(resolve, 10));
+      now += 40;
+      return { content: [] };
+    });
+    const client = await connect(server);
+    instrumentClient(client, telemetry);
+
+    const onprogress = vi.fn();
+    await client.callTool({ name: 'slow_report', arguments: {} }, undefined, { onprogress });
+    await telemetry.flush();
+
+    const [invocation] = sentInvocations();
+    expect(invocation.timeToFirstResponse).toBe(10);
+    expect(invocation.duration).toBe(50);
+    expect(onprogress).toHaveBeenCalledWith(expect.objectContaining({ progress: 1 }));
+  });
+
+  it('should propagate the trace to the server in _meta', async () => {
+    const telemetry = new EmcyTelemetry({ apiKey: 'test-key' });
+    const server = createMockServer();
+    const serverTelemetry = new EmcyTelemetry({ apiKey: 'server-key' });
+    instrumentServer(server, serverTelemetry);
+    const client = await connect(server);
+    instrumentClient(client, telemetry);
+
+    await client.callTool({ name: 'get_user', arguments: {} });
+    await serverTelemetry.flush();
+    await telemetry.flush();
+
+    const [handled, called] = sentCalls();
+    expect(handled.side).toBeUndefined();
+    expect(called.side).toBe('client');
+    expect(handled.traceId).toBe(called.traceId);
+    expect(handled.parentSpanId).toBe(called.spanId);
+  });
+
+  it('should not double-record when instrumented twice', async () => {
+    const telemetry = new EmcyTelemetry({ apiKey: 'test-key' });
+    const client = await connect(createMockServer());
+    instrumentClient(client, telemetry);
+    instrumentClient(client, telemetry);
+
+    await client.callTool({ name: 'get_user', arguments: {} });
+    await telemetry.flush();
+
+    expect(sentInvocations()).toHaveLength(1);
+  });
+
+  it('should reject objects that are not MCP clients', () => {
+    const telemetry = new EmcyTelemetry({ apiKey: 'test-key' });
+    expect(() => instrumentClient({}, telemetry)).toThrow(TypeError);
+  });
+});
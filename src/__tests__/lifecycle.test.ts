@@ -0,0 +1,116 @@
+/**
+ * Tests for LifecycleManager
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach, type MockInstance } from 'vitest';
+import { LifecycleManager } from '../lifecycle.js';
+import { EmcyTelemetry } from '../telemetry.js';
+
+const registration = (overrides?: { shutdown?: () => Promise<void>; timeout?: number }) => ({
+  shutdown: vi.fn(overrides?.shutdown ?? (async () => {})),
+  persistSync: vi.fn(),
+  timeout: overrides?.timeout ?? 1000,
+  logger: { debug: vi.fn(), warn: vi.fn(), error: vi.fn() },
+});
+
+describe('LifecycleManager', () => {
+  let kill: MockInstance<typeof process.kill>;
+  const baseline = () => ({
+    SIGINT: process.listenerCount('SIGINT'),
+    SIGTERM: process.listenerCount('SIGTERM'),
+    beforeExit: process.listenerCount('beforeExit'),
+    exit: process.listenerCount('exit'),
+  });
+
+  beforeEach(() => {
+    kill = vi.spyOn(process, 'kill').mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('should install one set of listeners however many instances register', () => {
+    const before = baseline();
+    const manager = new LifecycleManager();
+
+    const unregister = [registration(), registration(), registration()].map(r => manager.register(r));
+    expect(process.listenerCount('SIGINT')).toBe(before.SIGINT + 1);
+    expect(process.listenerCount('exit')).toBe(before.exit + 1);
+
+    unregister.forEach(fn => fn());
+    expect(baseline()).toEqual(before);
+  });
+
+  it('should flush on a signal and then re-raise it', async () => {
+    const before = baseline();
+    const manager = new LifecycleManager();
+    const first = registration();
+    const second = registration();
+    manager.register(first);
+    manager.register(second);
+
+    // As in a server with no signal handlers of its own
+    const onSignal = process.listeners('SIGTERM').at(-1) as (signal: NodeJS.Signals) => Promise<void>;
+    vi.spyOn(process, 'listenerCount').mockReturnValue(1);
+    await onSignal('SIGTERM');
+
+    expect(first.shutdown).toHaveBeenCalled();
+    expect(second.shutdown).toHaveBeenCalled();
+    expect(kill).toHaveBeenCalledWith(process.pid, 'SIGTERM');
+    vi.mocked(process.listenerCount).mockRestore();
+    expect(baseline()).toEqual(before);
+  });
+
+  it('should not re-raise a signal the application handles itself', async () => {
+    const manager = new LifecycleManager();
+    manager.register(registration());
+    const appHandler = () => {};
+    process.on('SIGINT', appHandler);
+
+    const onSignal = process.listeners('SIGINT').at(-2) as (signal: NodeJS.Signals) => Promise<void>;
+    await onSignal('SIGINT');
+    process.off('SIGINT', appHandler);
+
+    expect(kill).not.toHaveBeenCalled();
+  });
+
+  it('should give up on a shutdown that takes too long and persist what is left', async () => {
+    vi.useFakeTimers();
+    const manager = new LifecycleManager();
+    const stuck = registration({ shutdown: () => new Promise(() => {}), timeout: 2000 });
+    manager.register(stuck);
+
+    const onSignal = process.listeners('SIGINT').at(-1) as (signal: NodeJS.Signals) => Promise<void>;
+    vi.spyOn(process, 'listenerCount').mockReturnValue(1);
+    const handled = onSignal('SIGINT');
+    await vi.advanceTimersByTimeAsync(2000);
+    await handled;
+
+    expect(stuck.persistSync).toHaveBeenCalled();
+    expect(stuck.logger.warn).toHaveBeenCalledWith('[emcy] Shutdown did not finish within 2000ms');
+    expect(kill).toHaveBeenCalledWith(process.pid, 'SIGINT');
+  });
+});
+
+describe('EmcyTelemetry shutdown hooks', () => {
+  it('should not add listeners per instance and remove them on shutdown', async () => {
+    const before = process.listenerCount('SIGINT');
+
+    const instances = Array.from({ length: 20 }, () => new EmcyTelemetry({ apiKey: 'test-key' }));
+    expect(process.listenerCount('SIGINT')).toBe(before + 1);
+
+    await Promise.all(instances.map(instance => instance.shutdown()));
+    expect(process.listenerCount('SIGINT')).toBe(before);
+  });
+
+  it('should not register with shutdownHooks disabled', async () => {
+    const before = process.listenerCount('SIGTERM');
+
+    const telemetry = new EmcyTelemetry({ apiKey: 'test-key', shutdownHooks: false });
+
+    expect(process.listenerCount('SIGTERM')).toBe(before);
+    await telemetry.shutdown();
+  });
+});
@@ -0,0 +1,310 @@
+/**
+ * Tests for OtlpExporter, against a local collector stand-in
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { OtlpExporter, toOtlpTraceRequest } from '../otlp.js';
+import type { TelemetryBatch, TelemetryRecord, ToolInvocation } from '../types.js';
+
+interface ReceivedRequest {
+  url?: string;
+  headers: http.IncomingHttpHeaders;
+  body: Buffer;
+}
+
+const createInvocation = (overrides?: Partial<ToolInvocation>): ToolInvocation => ({
+  invocationId: '0f8fad5b-d9cb-469f-a165-70867728950e',
+  toolName: 'get_user',
+  method: 'tools/call',
+  requestId: 7,
+  timestamp: '2024-01-01T00:00:01.000Z',
+  duration: 250,
+  success: true,
+  metadata: {
+    sessionId: 'session-1',
+    serverName: 'test-server',
+    serverVersion: '1.2.3',
+  },
+  ...overrides,
+});
+
+const createBatch = (invocations: TelemetryRecord[]): TelemetryBatch => ({
+  schemaVersion: '1.0',
+  apiKey: 'test-key',
+  timestamp: '2024-01-01T00:00:02.000Z',
+  invocations,
+});
+
+const attributeMap = (attributes: { key: string; value: Record<string, unknown> }[]) =>
+  Object.fromEntries(attributes.map(({ key, value }) => [key, Object.values(value)[0]]));
+
+/**
+ * Decode protobuf wire format into { field: [values] }, keeping
+ * length-delimited values as raw buffers.
+ */
+const decodeProto = (buffer: Buffer): Record<number, (bigint | Buffer)[]> => {
+  const fields: Record<number, (bigint | Buffer)[]> = {};
+  let offset = 0;
+  const readVarint = () => {
+    let result = 0n;
+    let shift = 0n;
+    for (;;) {
+      const byte = buffer[offset++];
+      result |= BigInt(byte & 0x7f) << shift;
+      if ((byte & 0x80) === 0) return result;
+      shift += 7n;
+    }
+  };
+  while (offset < buffer.length) {
+    const tag = Number(readVarint());
+    const field = tag >> 3;
+    let value: bigint | Buffer;
+    switch (tag & 7) {
+      case 0:
+        value = readVarint();
+        break;
+      case 1:
+        value = buffer.readBigUInt64LE(offset);
+        offset += 8;
+        break;
+      case 2: {
+        const length = Number(readVarint());
+        value = buffer.subarray(offset, offset + length);
+        offset += length;
+        break;
+      }
+      default:
+        throw new Error(`Unexpected wire type ${tag & 7}`);
+    }
+    (fields[field] ??= []).push(value);
+  }
+  return fields;
+};
+
+describe('OtlpExporter', () => {
+  let server: http.Server;
+  let endpoint: string;
+  let received: ReceivedRequest[];
+  let status = 200;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        received.push({ url: req.url, headers: req.headers, body: Buffer.concat(chunks) });
+        res.writeHead(status).end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/traces`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+    status = 200;
+  });
+
+  describe('http/json', () => {
+    it('should post spans to the collector', async () => {
+      const exporter = new OtlpExporter({ endpoint, headers: { 'x-team': 'platform' } });
+
+      const ok = await exporter.send(createBatch([createInvocation()]));
+
+      expect(ok).toBe(true);
+      expect(received).toHaveLength(1);
+      expect(received[0].url).toBe('/v1/traces');
+      expect(received[0].headers['content-type']).toBe('application/json');
+      expect(received[0].headers['x-team']).toBe('platform');
+      // The Emcy API key is not sent to third-party collectors
+      expect(received[0].headers.authorization).toBeUndefined();
+
+      const body = JSON.parse(received[0].body.toString());
+      const [resourceSpans] = body.resourceSpans;
+      expect(attributeMap(resourceSpans.resource.attributes)).toEqual({
+        'service.name': 'test-server',
+        'service.version': '1.2.3',
+      });
+
+      const [span] = resourceSpans.scopeSpans[0].spans;
+      expect(span.name).toBe('tools/call get_user');
+      expect(span.traceId).toBe('0f8fad5bd9cb469fa16570867728950e');
+      expect(span.spanId).toMatch(/^[0-9a-f]{16}$/);
+      expect(span.startTimeUnixNano).toBe('1704067200750000000');
+      expect(span.endTimeUnixNano).toBe('1704067201000000000');
+      expect(attributeMap(span.attributes)).toEqual({
+        'gen_ai.operation.name': 'execute_tool',
+        'gen_ai.tool.name': 'get_user',
+        'gen_ai.tool.call.id': '0f8fad5b-d9cb-469f-a165-70867728950e',
+        'mcp.method.name': 'tools/call',
+        'mcp.session.id': 'session-1',
+        'jsonrpc.request.id': '7',
+      });
+      expect(span.status).toEqual({ code: 0 });
+    });
+
+    it('should report a rejected request as not retryable', async () => {
+      status = 400;
+      const exporter = new OtlpExporter({ endpoint });
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const result = await exporter.send(createBatch([createInvocation()]));
+
+      expect(result).toEqual({ success: false, retryable: false });
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('http/protobuf', () => {
+    it('should encode an ExportTraceServiceRequest', async () => {
+      const exporter = new OtlpExporter({ endpoint, protocol: 'http/protobuf' });
+
+      await exporter.send(createBatch([createInvocation()]));
+
+      expect(received[0].headers['content-type']).toBe('application/x-protobuf');
+
+      const request = decodeProto(received[0].body);
+      const resourceSpans = decodeProto(request[1][0] as Buffer);
+      const resource = decodeProto(resourceSpans[1][0] as Buffer);
+      const firstAttribute = decodeProto(resource[1][0] as Buffer);
+      expect((firstAttribute[1][0] as Buffer).toString()).toBe('service.name');
+      expect((decodeProto(firstAttribute[2][0] as Buffer)[1][0] as Buffer).toString()).toBe('test-server');
+
+      const scopeSpans = decodeProto(resourceSpans[2][0] as Buffer);
+      const span = decodeProto(scopeSpans[2][0] as Buffer);
+      expect((span[1][0] as Buffer).toString('hex')).toBe('0f8fad5bd9cb469fa16570867728950e');
+      expect((span[2][0] as Buffer)).toHaveLength(8);
+      expect((span[5][0] as Buffer).toString()).toBe('tools/call get_user');
+      expect(span[6][0]).toBe(2n);
+      expect(span[7][0]).toBe(1704067200750000000n);
+      expect(span[8][0]).toBe(1704067201000000000n);
+      expect(span[9]).toHaveLength(6);
+    });
+
+    it('should encode error status and exception events', async () => {
+      const exporter = new OtlpExporter({ endpoint, protocol: 'http/protobuf' });
+
+      await exporter.send(createBatch([
+        createInvocation({ success: false, error: { message: 'boom', code: 'E_BOOM' } }),
+      ]));
+
+      const request = decodeProto(received[0].body);
+      const scopeSpans = decodeProto(decodeProto(request[1][0] as Buffer)[2][0] as Buffer);
+      const span = decodeProto(scopeSpans[2][0] as Buffer);
+      const status = decodeProto(span[15][0] as Buffer);
+      expect((status[2][0] as Buffer).toString()).toBe('boom');
+      expect(status[3][0]).toBe(2n);
+
+      const event = decodeProto(span[11][0] as Buffer);
+      expect((event[2][0] as Buffer).toString()).toBe('exception');
+    });
+  });
+});
+
+describe('toOtlpTraceRequest', () => {
+  it('should group spans by server', () => {
+    const request = toOtlpTraceRequest(createBatch([
+      createInvocation(),
+      createInvocation({ invocationId: 'other', metadata: { serverName: 'other-server' } }),
+      createInvocation({ invocationId: 'third' }),
+    ]));
+
+    expect(request.resourceSpans).toHaveLength(2);
+    expect(request.resourceSpans[0].scopeSpans[0].spans).toHaveLength(2);
+  });
+
+  it('should mark failures with error status, error.type and an exception event', () => {
+    const request = toOtlpTraceRequest(createBatch([
+      createInvocation({ success: false, error: { message: 'Not found', stack: 'Error: Not found' } }),
+    ]));
+
+    const span = request.resourceSpans[0].scopeSpans[0].spans[0];
+    expect(span.status).toEqual({ code: 2, message: 'Not found' });
+    expect(attributeMap(span.attributes)['error.type']).toBe('_OTHER');
+    expect(span.events[0].name).toBe('exception');
+    expect(attributeMap(span.events[0].attributes)).toEqual({
+      'exception.message': 'Not found',
+      'exception.stacktrace': 'Error: Not found',
+    });
+  });
+
+  it('should map child records to internal spans under their parent', () => {
+    const traceId = '4bf92f3577b34da6a3ce929d0e0e4736';
+    const request = toOtlpTraceRequest(createBatch([
+      createInvocation({ traceId }),
+      createInvocation({
+        invocationId: 'child-1',
+        toolName: 'db.query',
+        traceId,
+        parentInvocationId: '0f8fad5b-d9cb-469f-a165-70867728950e',
+        attributes: { 'db.system': 'postgresql' },
+      }),
+    ]));
+
+    const [root, child] = request.resourceSpans[0].scopeSpans[0].spans;
+    expect(root.traceId).toBe(traceId);
+    expect(root.parentSpanId).toBeUndefined();
+    expect(child.traceId).toBe(traceId);
+    expect(child.parentSpanId).toBe(root.spanId);
+    expect(child.name).toBe('db.query');
+    expect(child.kind).toBe(1);
+    expect(attributeMap(child.attributes)).toMatchObject({ 'db.system': 'postgresql' });
+    expect(attributeMap(child.attributes)['gen_ai.tool.name']).toBeUndefined();
+  });
+
+  it('should name and annotate spans by record kind', () => {
+    const request = toOtlpTraceRequest(createBatch([
+      { ...createInvocation({ toolName: 'file:///readme.md', method: 'resources/read' }), kind: 'resource', uri: 'file:///readme.md' },
+      { ...createInvocation({ invocationId: 'prompt', toolName: 'summarize', method: undefined }), kind: 'prompt', promptName: 'summarize' },
+      {
+        ...createInvocation({ invocationId: 'session', toolName: 'session/start', method: undefined }),
+        kind: 'session',
+        event: 'start',
+        client: { name: 'claude-desktop', version: '1.2.0' },
+        protocolVersion: '2025-06-18',
+      },
+    ]));
+
+    const [resource, prompt, session] = request.resourceSpans[0].scopeSpans[0].spans;
+    expect(resource.name).toBe('resources/read file:///readme.md');
+    expect(attributeMap(resource.attributes)['mcp.resource.uri']).toBe('file:///readme.md');
+    expect(prompt.name).toBe('prompts/get summarize');
+    expect(attributeMap(prompt.attributes)['gen_ai.prompt.name']).toBe('summarize');
+    expect(attributeMap(session.attributes)).toMatchObject({
+      'emcy.session.event': 'start',
+      'emcy.client.name': 'claude-desktop',
+      'emcy.client.version': '1.2.0',
+      'mcp.protocol.version': '2025-06-18',
+    });
+  });
+
+  it('should export client-side calls as client spans with the target server', () => {
+    const request = toOtlpTraceRequest(createBatch([
+      createInvocation({
+        side: 'client',
+        targetServer: { name: 'github', version: '0.6.2' },
+        timeToFirstResponse: 40,
+      }),
+    ]));
+
+    const span = request.resourceSpans[0].scopeSpans[0].spans[0];
+    expect(span.kind).toBe(3);
+    expect(attributeMap(span.attributes)).toMatchObject({
+      'emcy.server.name': 'github',
+      'emcy.server.version': '0.6.2',
+      'emcy.time_to_first_response_ms': '40',
+    });
+  });
+
+  it('should derive a valid trace id from non-UUID invocation ids', () => {
+    const request = toOtlpTraceRequest(createBatch([createInvocation({ invocationId: 'inv-1' })]));
+
+    expect(request.resourceSpans[0].scopeSpans[0].spans[0].traceId).toMatch(/^[0-9a-f]{32}$/);
+  });
+});
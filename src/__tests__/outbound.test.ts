@@ -0,0 +1,247 @@
+/**
+ * Tests for outbound fetch and node:http instrumentation
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { instrumentFetch, instrumentHttp, templatePath } from '../outbound.js';
+import { EmcyTelemetry } from '../telemetry.js';
+import { TelemetryTransport } from '../transport.js';
+import type { Exporter, TelemetryBatch, TelemetryRecord } from '../types.js';
+
+class MemoryExporter implements Exporter {
+  invocations: TelemetryRecord[] = [];
+  async send(batch: TelemetryBatch): Promise<boolean> {
+    this.invocations.push(...batch.invocations);
+    return true;
+  }
+}
+
+describe('instrumentFetch', () => {
+  const originalFetch = globalThis.fetch;
+  let mockFetch: ReturnType<typeof vi.fn>;
+  let exporter: MemoryExporter;
+  let telemetry: EmcyTelemetry;
+  let restore: () => void;
+
+  beforeEach(() => {
+    mockFetch = vi.fn().mockResolvedValue(new Response('{}', { status: 200 }));
+    globalThis.fetch = mockFetch as typeof fetch;
+    exporter = new MemoryExporter();
+    telemetry = new EmcyTelemetry({ apiKey: 'test-key', batchSize: 100, exporters: [exporter] });
+    restore = instrumentFetch(telemetry, { captureHeaders: ['accept', 'authorization'] });
+  });
+
+  afterEach(async () => {
+    restore();
+    await telemetry.shutdown();
+    globalThis.fetch = originalFetch;
+  });
+
+  it('should record fetch calls inside a traced tool as child spans', async () => {
+    await telemetry.trace('get_user', async () => {
+      await fetch('https://api.example.com:8443/users/42?include=orders&token=abc', {
+        method: 'post',
+        headers: { Accept: 'application/json', Authorization: 'Bearer secret' },
+      });
+    });
+    await telemetry.flush();
+
+    const [root, request] = exporter.invocations;
+    expect(request.toolName).toBe('POST /users/{id}');
+    expect(request.parentInvocationId).toBe(root.invocationId);
+    expect(request.success).toBe(true);
+    expect(request.attributes).toEqual({
+      'http.request.method': 'POST',
+      'server.address': 'api.example.com',
+      'server.port': 8443,
+      'url.scheme': 'https',
+      'url.template': '/users/{id}',
+      'url.query': 'include=orders&token=%5BREDACTED%5D',
+      'http.request.header.accept': 'application/json',
+      'http.request.header.authorization': '[REDACTED]',
+      'http.response.status_code': 200,
+    });
+  });
+
+  it('should propagate the trace in traceparent headers', async () => {
+    const request = new Request('https://api.example.com/search', { headers: { 'x-request-id': 'abc' } });
+
+    await telemetry.trace('search', async () => {
+      await fetch(request);
+    });
+    await telemetry.flush();
+
+    const [, child] = exporter.invocations;
+    const headers = mockFetch.mock.calls[0][1].headers as Headers;
+    expect(headers.get('traceparent')).toBe(`00-${child.traceId}-${child.spanId}-01`);
+    expect(headers.get('x-request-id')).toBe('abc');
+    expect(request.headers.has('traceparent')).toBe(false);
+  });
+
+  it('should mark error statuses and network failures as failed', async () => {
+    mockFetch
+      .mockResolvedValueOnce(new Response('', { status: 503 }))
+      .mockRejectedValueOnce(new TypeError('fetch failed'));
+
+    await telemetry.trace('get_user', async () => {
+      await fetch('https://api.example.com/health');
+      await fetch('https://api.example.com/health').catch(() => null);
+    });
+    await telemetry.flush();
+
+    const [, unavailable, failed] = exporter.invocations;
+    expect(unavailable.success).toBe(false);
+    expect(unavailable.error).toEqual({ message: 'HTTP 503', code: 'HTTP_503' });
+    expect(failed.success).toBe(false);
+    expect(failed.error?.message).toBe('fetch failed');
+  });
+
+  it('should not record requests outside a traced tool or ignored ones', async () => {
+    restore();
+    restore = instrumentFetch(telemetry, { ignore: url => url.hostname === 'metadata.internal' });
+
+    await fetch('https://api.example.com/untraced');
+    await telemetry.trace('tool', async () => {
+      await fetch('http://metadata.internal/token');
+    });
+    await telemetry.flush();
+
+    expect(exporter.invocations.map(i => i.toolName)).toEqual(['tool']);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should never record the SDK\'s own telemetry requests', async () => {
+    const sdk = new EmcyTelemetry({
+      apiKey: 'test-key',
+      batchSize: 100,
+      exporters: [new TelemetryTransport('https://telemetry.example.com/v1'), exporter],
+    });
+    const sdkRestore = instrumentFetch(sdk);
+
+    await sdk.trace('tool', async () => {
+      sdk.log({ invocationId: 'inv-1', toolName: 'manual', timestamp: '2024-01-01T00:00:00.000Z', duration: 1, success: true });
+      await sdk.flush();
+    });
+    await sdk.flush();
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(exporter.invocations.map(i => i.toolName)).toEqual(['manual', 'tool']);
+    sdkRestore();
+    await sdk.shutdown();
+  });
+});
+
+describe('instrumentHttp', () => {
+  let server: http.Server;
+  let received: http.IncomingHttpHeaders[] = [];
+  let baseUrl: string;
+  let exporter: MemoryExporter;
+  let telemetry: EmcyTelemetry;
+  let restore: () => void;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      received.push(req.headers);
+      res.writeHead(req.url?.startsWith('/missing') ? 404 : 200).end('ok');
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+    exporter = new MemoryExporter();
+    telemetry = new EmcyTelemetry({ apiKey: 'test-key', batchSize: 100, exporters: [exporter] });
+    restore = instrumentHttp(telemetry);
+  });
+
+  afterEach(async () => {
+    restore();
+    await telemetry.shutdown();
+  });
+
+  const get = (url: string) => new Promise<number>((resolve, reject) => {
+    http.get(url, response => {
+      response.resume();
+      response.on('end', () => resolve(response.statusCode ?? 0));
+    }).on('error', reject);
+  });
+
+  it('should record http.get calls inside a traced tool', async () => {
+    await telemetry.trace('lookup', async () => {
+      await get(`${baseUrl}/orders/123`);
+      await get(`${baseUrl}/missing/9`);
+    });
+    await telemetry.flush();
+
+    const [root, found, missing] = exporter.invocations;
+    expect(found.toolName).toBe('GET /orders/{id}');
+    expect(found.parentInvocationId).toBe(root.invocationId);
+    expect(found.attributes).toMatchObject({
+      'server.address': '127.0.0.1',
+      'http.response.status_code': 200,
+    });
+    expect(missing.success).toBe(false);
+    expect(missing.error?.code).toBe('HTTP_404');
+    expect(received[0].traceparent).toBe(`00-${found.traceId}-${found.spanId}-01`);
+  });
+
+  it('should record request options and connection errors', async () => {
+    await telemetry.trace('lookup', () => new Promise<void>(resolve => {
+      const request = http.request({ host: '127.0.0.1', port: 1, path: '/down', method: 'DELETE' });
+      request.on('error', () => resolve());
+      request.end();
+    }));
+    await telemetry.flush();
+
+    const [, failed] = exporter.invocations;
+    expect(failed.toolName).toBe('DELETE /down');
+    expect(failed.success).toBe(false);
+    expect(failed.error?.message).toMatch(/ECONNREFUSED/);
+  });
+
+  it('should let requests Node rejects throw to the caller as before', async () => {
+    const options = { headers: { 'bad header': 'v' } };
+
+    await telemetry.trace('lookup', async () => {
+      expect(() => http.request(`${baseUrl}/orders/1`, options)).toThrow(
+        expect.objectContaining({ code: 'ERR_INVALID_HTTP_TOKEN' })
+      );
+      expect(() => http.get(`${baseUrl}/orders/1`, options)).toThrow(
+        expect.objectContaining({ code: 'ERR_INVALID_HTTP_TOKEN' })
+      );
+    });
+    await telemetry.flush();
+
+    const [, request, get] = exporter.invocations;
+    expect(request.toolName).toBe('GET /orders/{id}');
+    expect(request.success).toBe(false);
+    expect(get.success).toBe(false);
+    expect(received).toHaveLength(0);
+  });
+
+  it('should restore the original functions', async () => {
+    restore();
+    restore = () => {};
+
+    await telemetry.trace('lookup', () => get(`${baseUrl}/orders/1`));
+    await telemetry.flush();
+
+    expect(exporter.invocations.map(i => i.toolName)).toEqual(['lookup']);
+  });
+});
+
+describe('templatePath', () => {
+  it('should replace id-like segments', () => {
+    expect(templatePath('/users/42/orders/0f8fad5b-d9cb-469f-a165-70867728950e/items'))
+      .toBe('/users/{id}/orders/{id}/items');
+    expect(templatePath('/commits/4bf92f3577b34da6a3ce929d0e0e4736')).toBe('/commits/{id}');
+    expect(templatePath('/v1/search')).toBe('/v1/search');
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Tests for MCP tool result capture
+ */
+
+import { describe, it, expect } from 'vitest';
+import { isCallToolResult, summarizeCallToolResult } from '../output.js';
+
+describe('isCallToolResult', () => {
+  it('should recognize results with content blocks', () => {
+    expect(isCallToolResult({ content: [{ type: 'text', text: 'hi' }] })).toBe(true);
+    expect(isCallToolResult({ content: [] })).toBe(true);
+  });
+
+  it('should recognize results with only structuredContent', () => {
+    expect(isCallToolResult({ structuredContent: { id: 1 } })).toBe(true);
+  });
+
+  it('should reject other values', () => {
+    expect(isCallToolResult('text')).toBe(false);
+    expect(isCallToolResult(null)).toBe(false);
+    expect(isCallToolResult({ status: 200, data: {} })).toBe(false);
+    expect(isCallToolResult({ content: 'not an array' })).toBe(false);
+    expect(isCallToolResult({ content: [{ text: 'no type' }] })).toBe(false);
+  });
+});
+
+describe('summarizeCallToolResult', () => {
+  it('should summarize each content block type', () => {
+    const summary = summarizeCallToolResult({
+      content: [
+        { type: 'text', text: 'héllo' },
+        { type: 'image', data: 'aGVsbG8=', mimeType: 'image/png' },
+        { type: 'audio', data: 'aGk=', mimeType: 'audio/wav' },
+        { type: 'resource', resource: { uri: 'file:///a.txt', mimeType: 'text/plain', text: 'abc' } },
+        { type: 'resource', resource: { uri: 'file:///b.bin', blob: 'AAAA' } },
+        { type: 'resource_link', uri: 'file:///c.pdf', name: 'c', mimeType: 'application/pdf', size: 2048 },
+      ],
+    });
+
+    expect(summary.content).toEqual([
+      { type: 'text', bytes: 6, preview: 'héllo' },
+      { type: 'image', bytes: 5, mimeType: 'image/png' },
+      { type: 'audio', bytes: 2, mimeType: 'audio/wav' },
+      { type: 'resource', bytes: 3, preview: 'abc', uri: 'file:///a.txt', mimeType: 'text/plain' },
+      { type: 'resource', bytes: 3, uri: 'file:///b.bin', mimeType: undefined },
+      { type: 'resource_link', bytes: 2048, uri: 'file:///c.pdf', mimeType: 'application/pdf' },
+    ]);
+    expect(summary.contentCounts).toEqual({ text: 1, image: 1, audio: 1, resource: 2, resource_link: 1 });
+    expect(summary.contentBytes).toBe(6 + 5 + 2 + 3 + 3 + 2048);
+  });
+
+  it('should truncate long text previews', () => {
+    const summary = summarizeCallToolResult(
+      { content: [{ type: 'text', text: 'a'.repeat(50) }] },
+      10
+    );
+
+    expect(summary.content?.[0]).toEqual({
+      type: 'text',
+      bytes: 50,
+      preview: 'a'.repeat(10),
+      truncated: true,
+    });
+  });
+
+  it('should never include raw base64 data', () => {
+    const data = 'QUJD'.repeat(1000);
+    const summary = summarizeCallToolResult({ content: [{ type: 'image', data, mimeType: 'image/png' }] });
+
+    expect(JSON.stringify(summary)).not.toContain(data);
+  });
+
+  it('should keep structuredContent', () => {
+    const summary = summarizeCallToolResult({
+      content: [{ type: 'text', text: '{"id":1}' }],
+      structuredContent: { id: 1 },
+    });
+
+    expect(summary.structuredContent).toEqual({ id: 1 });
+  });
+});
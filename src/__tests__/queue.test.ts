@@ -0,0 +1,72 @@
+/**
+ * Tests for BoundedQueue
+ */
+
+import { describe, it, expect } from 'vitest';
+import { BoundedQueue } from '../queue.js';
+import type { TelemetryRecord } from '../types.js';
+import { createInvocation } from './fixtures.js';
+
+const ids = (items: TelemetryRecord[]) => items.map(item => item.invocationId);
+
+describe('BoundedQueue', () => {
+  it('should accept items up to its size without dropping', () => {
+    const queue = new BoundedQueue(2);
+
+    expect(queue.push(createInvocation({ invocationId: 'a' }))).toBeNull();
+    expect(queue.push(createInvocation({ invocationId: 'b' }))).toBeNull();
+    expect(queue.length).toBe(2);
+  });
+
+  it('should drop the oldest item by default', () => {
+    const queue = new BoundedQueue(2);
+    queue.push(createInvocation({ invocationId: 'a' }));
+    queue.push(createInvocation({ invocationId: 'b' }));
+
+    const dropped = queue.push(createInvocation({ invocationId: 'c' }));
+
+    expect(dropped?.invocationId).toBe('a');
+    expect(ids(queue.drain())).toEqual(['b', 'c']);
+  });
+
+  it('should drop the incoming item with dropNewest', () => {
+    const queue = new BoundedQueue(2, 'dropNewest');
+    queue.push(createInvocation({ invocationId: 'a' }));
+    queue.push(createInvocation({ invocationId: 'b' }));
+
+    const dropped = queue.push(createInvocation({ invocationId: 'c' }));
+
+    expect(dropped?.invocationId).toBe('c');
+    expect(ids(queue.drain())).toEqual(['a', 'b']);
+  });
+
+  describe('dropSuccessesFirst', () => {
+    it('should drop the oldest success before any error', () => {
+      const queue = new BoundedQueue(3, 'dropSuccessesFirst');
+      queue.push(createInvocation({ invocationId: 'err-1', success: false }));
+      queue.push(createInvocation({ invocationId: 'ok-1' }));
+      queue.push(createInvocation({ invocationId: 'ok-2' }));
+
+      const dropped = queue.push(createInvocation({ invocationId: 'err-2', success: false }));
+
+      expect(dropped?.invocationId).toBe('ok-1');
+      expect(ids(queue.drain())).toEqual(['err-1', 'ok-2', 'err-2']);
+    });
+
+    it('should drop an incoming success when only errors are queued', () => {
+      const queue = new BoundedQueue(1, 'dropSuccessesFirst');
+      queue.push(createInvocation({ invocationId: 'err-1', success: false }));
+
+      expect(queue.push(createInvocation({ invocationId: 'ok-1' }))?.invocationId).toBe('ok-1');
+      expect(ids(queue.drain())).toEqual(['err-1']);
+    });
+
+    it('should drop the oldest error when only errors are involved', () => {
+      const queue = new BoundedQueue(1, 'dropSuccessesFirst');
+      queue.push(createInvocation({ invocationId: 'err-1', success: false }));
+
+      expect(queue.push(createInvocation({ invocationId: 'err-2', success: false }))?.invocationId).toBe('err-1');
+      expect(ids(queue.drain())).toEqual(['err-2']);
+    });
+  });
+});
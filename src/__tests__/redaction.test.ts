@@ -0,0 +1,177 @@
+/**
+ * Tests for Redactor
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Redactor } from '../redaction.js';
+import { createInvocation } from './fixtures.js';
+
+describe('Redactor', () => {
+  describe('default rules', () => {
+    it('should redact common secret keys at any depth', () => {
+      const redactor = new Redactor();
+
+      const result = redactor.redact(createInvocation({
+        input: {
+          query: 'weather',
+          api_key: 'sk-123',
+          auth: { Password: 'hunter2', 'X-Api-Key': 'abc' },
+          list: [{ accessToken: 'tok' }],
+        },
+      }));
+
+      expect(result.input).toEqual({
+        query: 'weather',
+        api_key: '[REDACTED]',
+        auth: { Password: '[REDACTED]', 'X-Api-Key': '[REDACTED]' },
+        list: [{ accessToken: '[REDACTED]' }],
+      });
+    });
+
+    it('should scrub emails, credit cards and bearer tokens from strings', () => {
+      const redactor = new Redactor();
+
+      const result = redactor.redact(createInvocation({
+        input: { note: 'Contact jane.doe@example.com, card 4111 1111 1111 1111' },
+        output: { body: 'Sent with Authorization: Bearer eyJhbGciOi.abc-def' },
+        error: { message: 'Failed for bob@example.org' },
+      }));
+
+      expect(result.input?.note).toBe('Contact [REDACTED], card [REDACTED]');
+      expect(result.output?.body).toBe('Sent with Authorization: [REDACTED]');
+      expect(result.error?.message).toBe('Failed for [REDACTED]');
+    });
+
+    it('should leave numbers that fail the Luhn check alone', () => {
+      const redactor = new Redactor();
+
+      const result = redactor.redact(createInvocation({
+        input: { orderId: '1234567890123456' },
+      }));
+
+      expect(result.input?.orderId).toBe('1234567890123456');
+    });
+
+    it('should not modify the original invocation', () => {
+      const redactor = new Redactor();
+      const invocation = createInvocation({ input: { password: 'hunter2' } });
+
+      redactor.redact(invocation);
+
+      expect(invocation.input?.password).toBe('hunter2');
+    });
+
+    it('should handle circular references', () => {
+      const redactor = new Redactor();
+      const input: Record<string, unknown> = { name: 'loop' };
+      input.self = input;
+
+      const result = redactor.redact(createInvocation({ input }));
+
+      expect(result.input).toEqual({ name: 'loop', self: '[Circular]' });
+    });
+
+    it('should redact class instances and keep what toJSON returns', () => {
+      class Account {
+        constructor(public email: string, public password: string) {}
+      }
+      const redactor = new Redactor();
+
+      const result = redactor.redact(createInvocation({
+        input: { account: new Account('ada@example.com', 'hunter2') },
+        output: { body: new Account('bob@example.com', 'swordfish') },
+      }));
+      const created = redactor.redact(createInvocation({ input: { at: new Date('2024-01-01T00:00:00.000Z') } }));
+
+      expect(result.input).toEqual({ account: { email: '[REDACTED]', password: '[REDACTED]' } });
+      expect(result.output?.body).toEqual({ email: '[REDACTED]', password: '[REDACTED]' });
+      expect(created.input).toEqual({ at: '2024-01-01T00:00:00.000Z' });
+    });
+  });
+
+  describe('custom rules', () => {
+    it('should redact configured keys and paths', () => {
+      const redactor = new Redactor({
+        keys: ['ssn', /^x-internal-/],
+        paths: ['input.user.email', 'output.structuredContent.items[*].address'],
+        patterns: [],
+      });
+
+      const result = redactor.redact(createInvocation({
+        input: { ssn: '123', 'x-internal-id': '9', user: { email: 'a@b.co', name: 'A' } },
+        output: { structuredContent: { items: [{ address: '1 Main St', city: 'X' }] } },
+      }));
+
+      expect(result.input).toEqual({
+        ssn: '[REDACTED]',
+        'x-internal-id': '[REDACTED]',
+        user: { email: '[REDACTED]', name: 'A' },
+      });
+      expect(result.output?.structuredContent).toEqual({
+        items: [{ address: '[REDACTED]', city: 'X' }],
+      });
+    });
+
+    it('should apply custom value patterns', () => {
+      const redactor = new Redactor({ patterns: [/acct-\d+/] });
+
+      const result = redactor.redact(createInvocation({
+        input: { text: 'acct-1 and acct-22, mail me@x.io' },
+      }));
+
+      // Custom patterns replace the default list
+      expect(result.input?.text).toBe('[REDACTED] and [REDACTED], mail me@x.io');
+    });
+
+    it('should apply per-tool rules on top of global rules', () => {
+      const redactor = new Redactor({ tools: { send_email: { keys: ['body'] } } });
+
+      const email = redactor.redact(createInvocation({
+        toolName: 'send_email',
+        input: { body: 'hi', password: 'x' },
+      }));
+      const other = redactor.redact(createInvocation({ input: { body: 'hi' } }));
+
+      expect(email.input).toEqual({ body: '[REDACTED]', password: '[REDACTED]' });
+      expect(other.input).toEqual({ body: 'hi' });
+    });
+
+    it('should skip defaults when useDefaults is false', () => {
+      const redactor = new Redactor({ useDefaults: false });
+
+      const result = redactor.redact(createInvocation({
+        input: { password: 'hunter2', email: 'a@b.co' },
+      }));
+
+      expect(result.input).toEqual({ password: 'hunter2', email: 'a@b.co' });
+    });
+
+    it('should hash values when strategy is hash', () => {
+      const redactor = new Redactor({ strategy: 'hash', hashSalt: 'salt' });
+
+      const first = redactor.redact(createInvocation({ input: { token: 'abc' } }));
+      const second = redactor.redact(createInvocation({ input: { token: 'abc' } }));
+      const different = redactor.redact(createInvocation({ input: { token: 'xyz' } }));
+
+      expect(first.input?.token).toMatch(/^sha256:[0-9a-f]{16}$/);
+      expect(first.input?.token).toBe(second.input?.token);
+      expect(first.input?.token).not.toBe(different.input?.token);
+    });
+
+    it('should hash BigInt and circular values without throwing', () => {
+      const redactor = new Redactor({ strategy: 'hash', hashSalt: 'salt' });
+      const circular: Record<string, unknown> = { id: 1 };
+      circular.self = circular;
+
+      const result = redactor.redact(createInvocation({ input: { password: 10n, token: circular } }));
+
+      expect(result.input?.password).toMatch(/^sha256:[0-9a-f]{16}$/);
+      expect(result.input?.token).toMatch(/^sha256:[0-9a-f]{16}$/);
+      expect(result.input?.password).not.toBe(result.input?.token);
+    });
+
+    it('should reject unknown built-in pattern names', () => {
+      expect(() => new Redactor({ patterns: ['phone' as 'email'] })).toThrow('Unknown redaction pattern');
+    });
+  });
+});
@@ -0,0 +1,35 @@
+/**
+ * Tests for retry helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { isRetryableStatus, parseRetryAfter } from '../retry.js';
+
+describe('parseRetryAfter', () => {
+  it('should parse seconds', () => {
+    expect(parseRetryAfter('120')).toBe(120_000);
+  });
+
+  it('should parse HTTP dates relative to now', () => {
+    const now = Date.parse('Wed, 21 Oct 2015 07:28:00 GMT');
+    expect(parseRetryAfter('Wed, 21 Oct 2015 07:28:30 GMT', now)).toBe(30_000);
+    expect(parseRetryAfter('Wed, 21 Oct 2015 07:27:00 GMT', now)).toBe(0);
+  });
+
+  it('should ignore missing or invalid values', () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('isRetryableStatus', () => {
+  it('should retry 408, 429 and 5xx by default', () => {
+    expect([408, 429, 500, 503].map(status => isRetryableStatus(status, {}))).toEqual([true, true, true, true]);
+    expect([400, 401, 404].map(status => isRetryableStatus(status, {}))).toEqual([false, false, false]);
+  });
+
+  it('should use the configured statuses instead', () => {
+    expect(isRetryableStatus(503, { retryableStatuses: [503] })).toBe(true);
+    expect(isRetryableStatus(500, { retryableStatuses: [503] })).toBe(false);
+  });
+});
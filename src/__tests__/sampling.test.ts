@@ -0,0 +1,84 @@
+/**
+ * Tests for Sampler
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Sampler } from '../sampling.js';
+import type { ToolInvocation } from '../types.js';
+import { createInvocation } from './fixtures.js';
+
+const keptFraction = (sampler: Sampler, overrides?: Partial<ToolInvocation>, count = 10_000) => {
+  let kept = 0;
+  for (let i = 0; i < count; i++) {
+    if (sampler.sample(createInvocation({ invocationId: `inv-${i}`, ...overrides })) !== null) kept++;
+  }
+  return kept / count;
+};
+
+describe('Sampler', () => {
+  it('should keep everything with the default rate', () => {
+    const sampler = new Sampler({});
+    expect(sampler.sample(createInvocation())).toBe(1);
+  });
+
+  it('should keep roughly the configured fraction with the matching weight', () => {
+    const sampler = new Sampler({ rate: 0.25 });
+
+    expect(keptFraction(sampler)).toBeCloseTo(0.25, 1);
+
+    const weights = new Set(
+      Array.from({ length: 100 }, (_, i) => sampler.sample(createInvocation({ invocationId: `inv-${i}` })))
+    );
+    expect([...weights].filter(w => w !== null)).toEqual([4]);
+  });
+
+  it('should make a stable decision per invocation id', () => {
+    const sampler = new Sampler({ rate: 0.5 });
+    const invocation = createInvocation({ invocationId: 'stable-id' });
+
+    const first = sampler.sample(invocation);
+    for (let i = 0; i < 10; i++) {
+      expect(sampler.sample(invocation)).toBe(first);
+    }
+  });
+
+  it('should drop everything with rate 0', () => {
+    const sampler = new Sampler({ rate: 0 });
+    expect(keptFraction(sampler, {}, 100)).toBe(0);
+  });
+
+  it('should apply per-tool rates with glob matching', () => {
+    const sampler = new Sampler({ rate: 1, tools: { 'search_*': 0, autocomplete: 0.1 } });
+
+    expect(keptFraction(sampler, { toolName: 'search_products' }, 100)).toBe(0);
+    expect(keptFraction(sampler, { toolName: 'autocomplete' })).toBeCloseTo(0.1, 1);
+    expect(keptFraction(sampler, { toolName: 'get_user' }, 100)).toBe(1);
+  });
+
+  it('should keep failures regardless of rate', () => {
+    const sampler = new Sampler({ rate: 0 });
+    expect(sampler.sample(createInvocation({ success: false }))).toBe(1);
+  });
+
+  it('should drop failures when alwaysKeepErrors is false', () => {
+    const sampler = new Sampler({ rate: 0, alwaysKeepErrors: false });
+    expect(sampler.sample(createInvocation({ success: false }))).toBeNull();
+  });
+
+  it('should keep slow calls above the latency threshold', () => {
+    const sampler = new Sampler({ rate: 0, slowThresholdMs: 1000 });
+
+    expect(sampler.sample(createInvocation({ duration: 1500 }))).toBe(1);
+    expect(sampler.sample(createInvocation({ duration: 500 }))).toBeNull();
+  });
+
+  it('should prefer the rate returned by a custom sampler', () => {
+    const sampler = new Sampler({
+      rate: 0,
+      sampler: invocation => (invocation.input?.priority === 'high' ? 1 : undefined),
+    });
+
+    expect(sampler.sample(createInvocation({ input: { priority: 'high' } }))).toBe(1);
+    expect(sampler.sample(createInvocation({ input: { priority: 'low' } }))).toBeNull();
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Tests for the wire schema and runtime validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { execFileSync } from 'node:child_process';
+import * as fs from 'node:fs';
+import { isSupportedSchemaVersion, SCHEMA_VERSION, validateBatch, validateInvocation } from '../schema.js';
+import { TELEMETRY_BATCH_SCHEMA } from '../schema.generated.js';
+import { createInvocation } from './fixtures.js';
+
+describe('validateInvocation', () => {
+  it('should accept a complete invocation', () => {
+    expect(validateInvocation(createInvocation({
+      traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+      spanId: '00f067aa0ba902b7',
+      requestId: 7,
+      input: { id: 1 },
+      output: { body: 'anything', content: [{ type: 'text', bytes: 5 }] },
+      error: { message: 'boom' },
+      metadata: { sessionId: 'session-1', userId: undefined },
+      attributes: { region: 'eu', retries: 2, cached: false },
+    }))).toEqual([]);
+  });
+
+  it('should report each problem with its path', () => {
+    expect(validateInvocation({
+      invocationId: 'inv-1',
+      toolName: 42,
+      timestamp: 'yesterday',
+      duration: -5,
+      success: 'yes',
+      traceId: 'not-hex',
+      error: {},
+      attributes: { nested: { a: 1 } },
+    })).toEqual([
+      'toolName must be a string',
+      'timestamp must be an ISO 8601 date-time',
+      'duration must be at least 0',
+      'success must be a boolean',
+      'traceId must match ^[0-9a-f]{32}$',
+      'error.message is required',
+      'attributes.nested must be a boolean or a string or a number',
+    ]);
+  });
+
+  it('should reject values JSON cannot carry', () => {
+    expect(validateInvocation(createInvocation({ duration: NaN }))).toEqual(['duration must be a number']);
+    expect(validateInvocation(null)).toEqual(['invocation must be an object']);
+  });
+
+  it('should check each record kind against its own shape', () => {
+    expect(validateInvocation({ ...createInvocation(), kind: 'resource', uri: 'file:///readme.md' })).toEqual([]);
+    expect(validateInvocation({ ...createInvocation(), kind: 'prompt', promptName: 'summarize' })).toEqual([]);
+    expect(validateInvocation({
+      ...createInvocation(),
+      kind: 'session',
+      event: 'start',
+      client: { name: 'claude-desktop' },
+    })).toEqual([]);
+
+    expect(validateInvocation({ ...createInvocation(), kind: 'resource' })).toEqual(['uri is required']);
+    expect(validateInvocation({ ...createInvocation(), kind: 'session', event: 'paused' })).toEqual([
+      'event must be one of "start", "end"',
+    ]);
+  });
+
+  it('should allow fields it does not know, so newer records pass older checks', () => {
+    expect(validateInvocation({ ...createInvocation(), addedLater: true })).toEqual([]);
+  });
+});
+
+describe('validateBatch', () => {
+  it('should check the envelope and every invocation', () => {
+    expect(validateBatch({
+      apiKey: 'key',
+      timestamp: '2024-01-01T00:00:00.000Z',
+      invocations: [createInvocation(), { ...createInvocation(), success: undefined }],
+      dropped: { total: 1, byReason: { queue_overflow: 1 }, byTool: { testTool: '1' } },
+    })).toEqual([
+      'schemaVersion is required',
+      'invocations[1].success is required',
+      'dropped.byTool.testTool must be a number',
+    ]);
+  });
+
+  it('should accept a batch from the current version', () => {
+    expect(validateBatch({
+      schemaVersion: SCHEMA_VERSION,
+      apiKey: 'key',
+      timestamp: '2024-01-01T00:00:00.000Z',
+      invocations: [createInvocation()],
+    })).toEqual([]);
+  });
+});
+
+describe('isSupportedSchemaVersion', () => {
+  it('should accept any minor version of the same major version', () => {
+    expect(isSupportedSchemaVersion('1.0')).toBe(true);
+    expect(isSupportedSchemaVersion('1.9')).toBe(true);
+    expect(isSupportedSchemaVersion('2.0')).toBe(false);
+  });
+});
+
+describe('published schemas', () => {
+  it('should be up to date with types.ts', () => {
+    expect(() => execFileSync('node', ['scripts/generate-schema.mjs', '--check'], { stdio: 'pipe' })).not.toThrow();
+  });
+
+  it('should match the schema used at runtime', () => {
+    const published = JSON.parse(fs.readFileSync('schema/telemetry-batch.schema.json', 'utf8'));
+
+    expect(published).toEqual(TELEMETRY_BATCH_SCHEMA);
+    expect(published.$comment).toContain(`schemaVersion ${SCHEMA_VERSION}`);
+  });
+});
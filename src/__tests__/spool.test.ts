@@ -0,0 +1,340 @@
+/**
+ * Tests for DiskSpool
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { DiskSpool } from '../spool.js';
+import { EmcyTelemetry } from '../telemetry.js';
+import type { TelemetryBatch, TelemetryRecord, ToolInvocation } from '../types.js';
+import { createInvocation } from './fixtures.js';
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+const segments = (directory: string) =>
+  fs.readdirSync(directory).filter(name => name.endsWith('.jsonl'));
+
+describe('DiskSpool', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'emcy-spool-'));
+    mockFetch.mockReset();
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe('locking', () => {
+    it('should allow only one holder at a time', () => {
+      const first = new DiskSpool({ directory });
+      const second = new DiskSpool({ directory });
+
+      expect(first.acquire()).toBe(true);
+      expect(second.acquire()).toBe(false);
+
+      first.release();
+      expect(second.acquire()).toBe(true);
+      second.release();
+    });
+
+    it('should take over a lock left by a dead process', () => {
+      fs.writeFileSync(path.join(directory, 'spool.lock'), '999999999');
+      const spool = new DiskSpool({ directory });
+
+      expect(spool.acquire()).toBe(true);
+      spool.release();
+    });
+
+    it('should not write without the lock', async () => {
+      const spool = new DiskSpool({ directory });
+
+      await spool.write([createInvocation({ invocationId: 'inv-1' })]);
+
+      expect(segments(directory)).toHaveLength(0);
+    });
+  });
+
+  describe('write and replay', () => {
+    it('should replay segments oldest-first and delete them', async () => {
+      const spool = new DiskSpool({ directory });
+      spool.acquire();
+
+      await spool.write([createInvocation({ invocationId: 'inv-1' }), createInvocation({ invocationId: 'inv-2' })]);
+      spool.writeSync([createInvocation({ invocationId: 'inv-3' })]);
+      expect(segments(directory)).toHaveLength(2);
+
+      const replayed: string[][] = [];
+      const count = await spool.replay(async invocations => {
+        replayed.push(invocations.map(i => i.invocationId));
+        return true;
+      });
+
+      expect(count).toBe(3);
+      expect(replayed).toEqual([['inv-1', 'inv-2'], ['inv-3']]);
+      expect(await spool.hasPending()).toBe(false);
+      spool.release();
+    });
+
+    it('should stop at the first failed send and keep the segment', async () => {
+      const spool = new DiskSpool({ directory });
+      spool.acquire();
+      await spool.write([createInvocation({ invocationId: 'inv-1' })]);
+      await spool.write([createInvocation({ invocationId: 'inv-2' })]);
+
+      const send = vi.fn().mockResolvedValue(false);
+      expect(await spool.replay(send)).toBe(0);
+
+      expect(send).toHaveBeenCalledTimes(1);
+      expect(segments(directory)).toHaveLength(2);
+      spool.release();
+    });
+
+    it('should keep only the unsent invocations when a segment fails partway', async () => {
+      const spool = new DiskSpool({ directory });
+      spool.acquire();
+      await spool.write(Array.from({ length: 5 }, (_, i) => createInvocation({ invocationId: `inv-${i}` })));
+      const pairs = (invocations: TelemetryRecord[]) =>
+        Array.from({ length: Math.ceil(invocations.length / 2) }, (_, i) => invocations.slice(i * 2, i * 2 + 2));
+
+      const sent: string[][] = [];
+      const send = vi.fn(async (invocations: TelemetryRecord[]) => {
+        sent.push(invocations.map(i => i.invocationId));
+        return sent.length !== 2;
+      });
+      expect(await spool.replay(send, pairs)).toBe(2);
+      expect(await spool.replay(send, pairs)).toBe(3);
+
+      expect(sent).toEqual([['inv-0', 'inv-1'], ['inv-2', 'inv-3'], ['inv-2', 'inv-3'], ['inv-4']]);
+      expect(segments(directory)).toHaveLength(0);
+      spool.release();
+    });
+
+    it('should skip corrupted lines', async () => {
+      const spool = new DiskSpool({ directory });
+      spool.acquire();
+      fs.writeFileSync(
+        path.join(directory, `${Date.now()}-1-0.jsonl`),
+        `${JSON.stringify(createInvocation({ invocationId: 'inv-1' }))}\n{"torn": \nnot json\n${JSON.stringify(createInvocation({ invocationId: 'inv-2' }))}`
+      );
+
+      const received: string[] = [];
+      await spool.replay(async invocations => {
+        received.push(...invocations.map(i => i.invocationId));
+        return true;
+      });
+
+      expect(received).toEqual(['inv-1', 'inv-2']);
+      spool.release();
+    });
+
+    it('should discard segments older than maxAgeMs', async () => {
+      const spool = new DiskSpool({ directory, maxAgeMs: 1000 });
+      const discarded = vi.fn();
+      spool.onDiscard(discarded);
+      spool.acquire();
+      const stale = `${String(Date.now() - 5000).padStart(13, '0')}-1-0.jsonl`;
+      fs.writeFileSync(path.join(directory, stale), JSON.stringify(createInvocation({ invocationId: 'old' })));
+
+      const send = vi.fn().mockResolvedValue(true);
+      await spool.replay(send);
+
+      expect(send).not.toHaveBeenCalled();
+      expect(segments(directory)).toHaveLength(0);
+      expect(discarded).toHaveBeenCalledWith([expect.objectContaining({ invocationId: 'old' })], 'spool_expired');
+      spool.release();
+    });
+
+    it('should discard the oldest segments when over maxBytes', async () => {
+      const spool = new DiskSpool({ directory, maxBytes: 400 });
+      const discarded: string[] = [];
+      spool.onDiscard((invocations, reason) => {
+        discarded.push(...invocations.map(i => `${i.invocationId} ${reason}`));
+      });
+      spool.acquire();
+
+      for (let i = 0; i < 5; i++) {
+        await spool.write([createInvocation({ invocationId: `inv-${i}` })]);
+      }
+
+      const received: string[] = [];
+      await spool.replay(async invocations => {
+        received.push(...invocations.map(i => i.invocationId));
+        return true;
+      });
+
+      expect(received.length).toBeLessThan(5);
+      expect(received[received.length - 1]).toBe('inv-4');
+      expect(discarded).toEqual(
+        Array.from({ length: 5 - received.length }, (_, i) => `inv-${i} spool_full`)
+      );
+      spool.release();
+    });
+  });
+
+  describe('with EmcyTelemetry', () => {
+    it('should spool failed batches and replay them on the next start', async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 503, statusText: 'Service Unavailable' });
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const first = new EmcyTelemetry({ apiKey: 'test-key', spool: { directory }, retry: { maxAttempts: 1 } });
+      first.log(createInvocation({ invocationId: 'inv-1' }));
+      await first.shutdown();
+
+      expect(segments(directory)).toHaveLength(1);
+
+      mockFetch.mockReset();
+      mockFetch.mockResolvedValue({ ok: true });
+
+      const second = new EmcyTelemetry({ apiKey: 'test-key', spool: { directory } });
+      await second.shutdown();
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.invocations.map((i: ToolInvocation) => i.invocationId)).toEqual(['inv-1']);
+      expect(segments(directory)).toHaveLength(0);
+
+      vi.mocked(console.error).mockRestore();
+    });
+
+    it('should replay spooled batches after a later send succeeds', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 503, statusText: 'Service Unavailable' });
+      mockFetch.mockResolvedValue({ ok: true });
+
+      const telemetry = new EmcyTelemetry({ apiKey: 'test-key', spool: { directory }, retry: { maxAttempts: 1 } });
+      telemetry.log(createInvocation({ invocationId: 'inv-1' }));
+      await telemetry.flush();
+      expect(segments(directory)).toHaveLength(1);
+
+      telemetry.log(createInvocation({ invocationId: 'inv-2' }));
+      await telemetry.flush();
+
+      const sent = mockFetch.mock.calls.slice(1).flatMap(([, options]) =>
+        JSON.parse(options.body).invocations.map((i: ToolInvocation) => i.invocationId)
+      );
+      expect(sent).toEqual(['inv-2', 'inv-1']);
+      expect(segments(directory)).toHaveLength(0);
+
+      await telemetry.shutdown();
+      vi.mocked(console.error).mockRestore();
+    });
+
+    it('should not resend the batches of a segment delivered before a failure', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const spool = new DiskSpool({ directory });
+      spool.acquire();
+      await spool.write(Array.from({ length: 25 }, (_, i) => createInvocation({ invocationId: `inv-${i}` })));
+      spool.release();
+      mockFetch.mockResolvedValueOnce({ ok: true });
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 503, statusText: 'Service Unavailable' });
+
+      const config = { apiKey: 'test-key', batchSize: 10, spool: { directory }, retry: { maxAttempts: 1 } };
+      await new EmcyTelemetry(config).shutdown();
+      mockFetch.mockResolvedValue({ ok: true });
+      await new EmcyTelemetry(config).shutdown();
+
+      const delivered = mockFetch.mock.calls
+        .filter((_, index) => index !== 1)
+        .flatMap(([, options]) => JSON.parse(options.body).invocations.map((i: ToolInvocation) => i.invocationId));
+      expect(delivered).toEqual(Array.from({ length: 25 }, (_, i) => `inv-${i}`));
+      expect(segments(directory)).toHaveLength(0);
+      vi.mocked(console.error).mockRestore();
+    });
+
+    it('should not send replayed batches alongside a flush', async () => {
+      const spool = new DiskSpool({ directory });
+      spool.acquire();
+      await spool.write([createInvocation({ invocationId: 'old-1' }), createInvocation({ invocationId: 'old-2' })]);
+      spool.release();
+
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const sent: string[] = [];
+      const exporter = {
+        batchSize: 1,
+        send: async (batch: TelemetryBatch) => {
+          maxInFlight = Math.max(maxInFlight, ++inFlight);
+          await new Promise(resolve => setTimeout(resolve, 5));
+          inFlight--;
+          sent.push(...batch.invocations.map(i => i.invocationId));
+          return true;
+        },
+      };
+      const telemetry = new EmcyTelemetry({
+        apiKey: 'test-key',
+        exporters: [exporter],
+        spool: { directory },
+        maxInFlightBatches: 1,
+      });
+      telemetry.log(createInvocation({ invocationId: 'new-1' }));
+      telemetry.log(createInvocation({ invocationId: 'new-2' }));
+      await telemetry.flush();
+
+      expect(maxInFlight).toBe(1);
+      expect(sent).toEqual(['old-1', 'old-2', 'new-1', 'new-2']);
+      await telemetry.shutdown();
+    });
+
+    it('should count expired segments as dropped', async () => {
+      const stale = `${String(Date.now() - 5000).padStart(13, '0')}-1-0.jsonl`;
+      fs.writeFileSync(path.join(directory, stale), JSON.stringify(createInvocation({ invocationId: 'old' })));
+
+      const telemetry = new EmcyTelemetry({ apiKey: 'test-key', spool: { directory, maxAgeMs: 1000 } });
+      const dropped = vi.fn();
+      telemetry.on('dropped', dropped);
+      await telemetry.shutdown();
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(telemetry.dropped).toEqual({ total: 1, byReason: { spool_expired: 1 }, byTool: { testTool: 1 } });
+      expect(dropped).toHaveBeenCalledWith(expect.objectContaining({ reason: 'spool_expired' }));
+    });
+
+    it('should count rejected batches as dropped instead of spooling them', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 400, statusText: 'Bad Request' });
+      mockFetch.mockResolvedValue({ ok: true });
+
+      const telemetry = new EmcyTelemetry({ apiKey: 'test-key', spool: { directory } });
+      telemetry.log(createInvocation({ invocationId: 'inv-1' }));
+      await telemetry.flush();
+      telemetry.log(createInvocation({ invocationId: 'inv-2' }));
+      await telemetry.flush();
+
+      expect(segments(directory)).toHaveLength(0);
+      expect(telemetry.dropped.byReason).toEqual({ rejected: 1 });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(JSON.parse(mockFetch.mock.calls[1][1].body).invocations.map((i: ToolInvocation) => i.invocationId))
+        .toEqual(['inv-2']);
+
+      await telemetry.shutdown();
+      vi.mocked(console.error).mockRestore();
+    });
+
+    it('should replay the segments after one the endpoint rejects', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const spool = new DiskSpool({ directory });
+      spool.acquire();
+      await spool.write([createInvocation({ invocationId: 'inv-1' })]);
+      await spool.write([createInvocation({ invocationId: 'inv-2' })]);
+      spool.release();
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 400, statusText: 'Bad Request' });
+      mockFetch.mockResolvedValue({ ok: true });
+
+      const telemetry = new EmcyTelemetry({ apiKey: 'test-key', spool: { directory } });
+      await telemetry.shutdown();
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(JSON.parse(mockFetch.mock.calls[1][1].body).invocations.map((i: ToolInvocation) => i.invocationId))
+        .toEqual(['inv-2']);
+      expect(segments(directory)).toHaveLength(0);
+      expect(telemetry.dropped.byReason).toEqual({ rejected: 1 });
+      vi.mocked(console.error).mockRestore();
+    });
+  });
+});
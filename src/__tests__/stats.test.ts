@@ -0,0 +1,128 @@
+/**
+ * Tests for LatencyHistogram and StatsCollector
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { LATENCY_BOUNDS, LatencyHistogram, StatsCollector } from '../stats.js';
+import { createInvocation } from './fixtures.js';
+
+describe('LatencyHistogram', () => {
+  it('should estimate percentiles within bucket bounds', () => {
+    const histogram = new LatencyHistogram();
+    for (let duration = 1; duration <= 100; duration++) {
+      histogram.record(duration);
+    }
+
+    const summary = histogram.summary();
+    expect(summary.min).toBe(1);
+    expect(summary.max).toBe(100);
+    expect(summary.mean).toBe(50.5);
+    expect(summary.p50).toBeGreaterThanOrEqual(25);
+    expect(summary.p50).toBeLessThanOrEqual(50);
+    expect(summary.p95).toBeGreaterThanOrEqual(50);
+    expect(summary.p99).toBeLessThanOrEqual(100);
+  });
+
+  it('should clamp estimates to the observed range', () => {
+    const histogram = new LatencyHistogram();
+    histogram.record(120);
+    histogram.record(130);
+
+    expect(histogram.percentile(0.5)).toBeGreaterThanOrEqual(120);
+    expect(histogram.percentile(0.99)).toBeLessThanOrEqual(130);
+  });
+
+  it('should put durations above the last bound in the overflow bucket', () => {
+    const histogram = new LatencyHistogram();
+    histogram.record(120_000);
+
+    expect(histogram.counts[LATENCY_BOUNDS.length]).toBe(1);
+    expect(histogram.percentile(0.5)).toBe(120_000);
+  });
+
+  it('should report zeros when empty', () => {
+    expect(new LatencyHistogram().summary()).toEqual({ min: 0, max: 0, mean: 0, p50: 0, p95: 0, p99: 0 });
+  });
+});
+
+describe('StatsCollector', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-01T00:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should count calls and errors per tool', () => {
+    const stats = new StatsCollector();
+    stats.record(createInvocation({ toolName: 'search' }));
+    stats.record(createInvocation({ toolName: 'search', success: false, duration: 400 }));
+    stats.record(createInvocation({ toolName: 'fetch' }));
+
+    const { tools } = stats.snapshot();
+    expect(tools.search).toMatchObject({ count: 2, errors: 1, errorRate: 0.5 });
+    expect(tools.search.latency.max).toBe(400);
+    expect(tools.fetch).toMatchObject({ count: 1, errors: 0, errorRate: 0 });
+  });
+
+  it('should ignore child spans', () => {
+    const stats = new StatsCollector();
+    stats.record(createInvocation({ toolName: 'GET /users', parentInvocationId: 'inv-0' }));
+
+    expect(stats.snapshot().tools).toEqual({});
+  });
+
+  it('should only include buckets inside the window', () => {
+    const stats = new StatsCollector({ bucketMs: 1000 });
+    stats.record(createInvocation());
+    vi.advanceTimersByTime(30_000);
+    stats.record(createInvocation());
+
+    expect(stats.snapshot(5_000).tools.testTool.count).toBe(1);
+    expect(stats.snapshot(60_000).tools.testTool.count).toBe(2);
+  });
+
+  it('should cap the window and forget buckets older than it', () => {
+    const stats = new StatsCollector({ bucketMs: 1000, maxWindowMs: 10_000 });
+    stats.record(createInvocation());
+    vi.advanceTimersByTime(20_000);
+    stats.record(createInvocation());
+
+    const snapshot = stats.snapshot(60_000);
+    expect(snapshot.windowMs).toBe(10_000);
+    expect(snapshot.tools.testTool.count).toBe(1);
+  });
+
+  it('should drain aggregates for the interval since the last drain', () => {
+    const stats = new StatsCollector({ reportInterval: 60_000 });
+    stats.record(createInvocation({ duration: 10 }));
+    stats.record(createInvocation({ duration: 30, success: false }));
+    vi.advanceTimersByTime(60_000);
+
+    const [aggregate] = stats.drainAggregates();
+    expect(aggregate).toMatchObject({
+      toolName: 'testTool',
+      start: '2024-01-01T00:00:00.000Z',
+      end: '2024-01-01T00:01:00.000Z',
+      count: 2,
+      errors: 1,
+    });
+    expect(aggregate.latency.sum).toBe(40);
+    expect(aggregate.latency.bounds).toEqual(LATENCY_BOUNDS);
+    expect(aggregate.latency.counts.reduce((a, b) => a + b)).toBe(2);
+
+    expect(stats.drainAggregates()).toEqual([]);
+    expect(stats.snapshot(120_000).tools.testTool.count).toBe(2);
+  });
+
+  it('should not keep interval totals when aggregates are not reported', () => {
+    const stats = new StatsCollector();
+    stats.record(createInvocation({ toolName: 'file:///a.md' }));
+    stats.record(createInvocation({ toolName: 'file:///b.md' }));
+
+    expect(stats.drainAggregates()).toEqual([]);
+    expect(stats.snapshot().tools['file:///a.md'].count).toBe(1);
+  });
+});
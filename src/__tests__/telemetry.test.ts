@@ -47,6 +47,58 @@ describe('EmcyTelemetry', () => {
       });
       expect(telemetry).toBeInstanceOf(EmcyTelemetry);
     });
+
+    it('should reject a non-positive batchSize', () => {
+      expect(() => new EmcyTelemetry({ apiKey: 'test-key', batchSize: 0 }))
+        .toThrow('[emcy] Invalid batchSize: expected a positive integer, got 0');
+    });
+
+    it('should run as a no-op without an API key', async () => {
+      const telemetry = new EmcyTelemetry({});
+
+      const result = await telemetry.trace('testTool', async () => 'result');
+      await telemetry.flush();
+      await telemetry.shutdown();
+
+      expect(result).toBe('result');
+      expect(telemetry.isEnabled).toBe(false);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should run as a no-op when disabled explicitly', async () => {
+      const telemetry = new EmcyTelemetry({ apiKey: 'test-key', enabled: false });
+
+      telemetry.log({
+        invocationId: 'inv-1',
+        toolName: 'testTool',
+        timestamp: new Date().toISOString(),
+        duration: 1,
+        success: true,
+      });
+      await telemetry.flush();
+
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('fromEnv', () => {
+    it('should read the API key and endpoint from the environment', async () => {
+      const telemetry = EmcyTelemetry.fromEnv({
+        configFile: false,
+        env: { EMCY_API_KEY: 'env-key', EMCY_TELEMETRY_URL: 'https://telemetry.example.com/v1' },
+      });
+
+      await telemetry.trace('testTool', async () => 'result');
+      await telemetry.flush();
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://telemetry.example.com/v1',
+        expect.objectContaining({
+          headers: expect.objectContaining({ Authorization: 'Bearer env-key' }),
+        })
+      );
+      await telemetry.shutdown();
+    });
   });
 
   describe('setServerInfo', () => {
@@ -111,8 +163,27 @@ describe('EmcyTelemetry', () => {
 
       expect(mockFetch).toHaveBeenCalled();
       const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.schemaVersion).toBe('1.2');
       expect(body.invocations).toHaveLength(2);
     });
+
+    it('should report and discard invocations that do not match the schema', async () => {
+      const logger = { debug: vi.fn(), warn: vi.fn(), error: vi.fn() };
+      const telemetry = new EmcyTelemetry({ apiKey: 'test-key', logger });
+      const errors: Error[] = [];
+      telemetry.on('error', error => errors.push(error));
+
+      // Fields from the old README example
+      telemetry.log({ toolName: 'get_user', startTime: 0, endTime: 150, success: true } as never);
+      await telemetry.flush();
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(errors[0].message).toBe(
+        '[emcy] Invalid invocation: invocationId is required; timestamp is required; duration is required'
+      );
+      expect(errors[0].name).toBe('EmcyValidationError');
+      expect(logger.error).toHaveBeenCalledWith('[emcy] Discarding invalid invocation passed to log():', errors[0]);
+    });
   });
 
   describe('trace', () => {
@@ -167,9 +238,785 @@ describe('EmcyTelemetry', () => {
       expect(body.invocations[0].input).toEqual({ param: 'value' });
       expect(body.invocations[0].metadata?.sessionId).toBe('session-123');
     });
+
+    it('should return results that cannot be serialized as JSON', async () => {
+      const telemetry = new EmcyTelemetry({ apiKey: 'test-key' });
+      class Node {
+        self = this;
+        size = 10n;
+      }
+      const node = new Node();
+
+      const result = await telemetry.trace('graphTool', async () => node, { input: { limit: 5n } });
+      await telemetry.flush();
+
+      expect(result).toBe(node);
+      const [invocation] = JSON.parse(mockFetch.mock.calls[0][1].body).invocations;
+      expect(invocation.success).toBe(true);
+      expect(invocation.input).toEqual({ limit: '5' });
+      expect(invocation.output.body).toEqual({ self: '[Circular]', size: '10' });
+    });
+  });
+
+  describe('record kinds', () => {
+    it('should record resources by uri', async () => {
+      const telemetry = new EmcyTelemetry({ apiKey: 'test-key' });
+
+      await telemetry.traceResource('file:///readme.md', async () => ({ contents: [] }), { method: 'resources/read' });
+      await telemetry.flush();
+
+      const [record] = JSON.parse(mockFetch.mock.calls[0][1].body).invocations;
+      expect(record).toMatchObject({
+        kind: 'resource',
+        toolName: 'file:///readme.md',
+        uri: 'file:///readme.md',
+        method: 'resources/read',
+        success: true,
+      });
+    });
+
+    it('should record prompts and requests without classifying their results as tool errors', async () => {
+      const telemetry = new EmcyTelemetry({ apiKey: 'test-key' });
+
+      await telemetry.tracePrompt('summarize', async () => ({ isError: true }), { input: { length: 'short' } });
+      await telemetry.traceRequest('completion/complete', async () => ({ completion: { values: [] } }));
+      await telemetry.flush();
+
+      const records = JSON.parse(mockFetch.mock.calls[0][1].body).invocations;
+      expect(records[0]).toMatchObject({ kind: 'prompt', promptName: 'summarize', input: { length: 'short' }, success: true });
+      expect(records[1]).toMatchObject({ kind: 'request', toolName: 'completion/complete', method: 'completion/complete' });
+    });
+
+    it('should record failures of any kind', async () => {
+      const telemetry = new EmcyTelemetry({ apiKey: 'test-key' });
+
+      await expect(
+        telemetry.traceResource('file:///missing', async () => {
+          throw new Error('Not found');
+        })
+      ).rejects.toThrow('Not found');
+      await telemetry.flush();
+
+      const [record] = JSON.parse(mockFetch.mock.calls[0][1].body).invocations;
+      expect(record).toMatchObject({ kind: 'resource', success: false, error: { message: 'Not found' } });
+    });
+
+    it('should record session start and end with its duration', async () => {
+      let now = Date.parse('2024-01-01T00:00:00.000Z');
+      const telemetry = new EmcyTelemetry({ apiKey: 'test-key', clock: { now: () => now } });
+
+      telemetry.startSession(
+        { clientName: 'claude-desktop', clientVersion: '1.2.0', protocolVersion: '2025-06-18' },
+        { sessionId: 'session-1' }
+      );
+      now += 90_000;
+      telemetry.endSession({ sessionId: 'session-1' });
+      telemetry.endSession({ sessionId: 'session-1' });
+      await telemetry.flush();
+
+      const records = JSON.parse(mockFetch.mock.calls[0][1].body).invocations;
+      expect(records).toHaveLength(2);
+      expect(records[0]).toMatchObject({
+        kind: 'session',
+        event: 'start',
+        toolName: 'session/start',
+        client: { name: 'claude-desktop', version: '1.2.0' },
+        protocolVersion: '2025-06-18',
+        metadata: { sessionId: 'session-1' },
+      });
+      expect(records[1]).toMatchObject({ kind: 'session', event: 'end', duration: 90_000 });
+    });
+
+    it('should keep session events out of tool stats and sampling', async () => {
+      const telemetry = new EmcyTelemetry({ apiKey: 'test-key', sampling: { rate: 0 } });
+
+      telemetry.startSession({}, { sessionId: 'session-1' });
+      await telemetry.flush();
+
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).invocations[0].kind).toBe('session');
+      expect(telemetry.getStats().tools).toEqual({});
+    });
+  });
+
+  describe('span', () => {
+    let ids = 0;
+
+    beforeEach(() => {
+      ids = 0;
+      vi.stubGlobal('crypto', { randomUUID: () => `uuid-${++ids}` });
+    });
+
+    afterEach(() => {
+      vi.stubGlobal('crypto', { randomUUID: () => 'test-uuid-1234' });
+    });
+
+    it('should record child spans with the parent id and a shared trace id', async () => {
+      const telemetry = new EmcyTelemetry({ apiKey: 'test-key', batchSize: 100 });
+
+      await telemetry.trace('get_user', async () => {
+        await telemetry.span('cache.lookup', async () => null);
+        await telemetry.span('api.fetch', async span => {
+          span.setAttribute('http.status_code', 200);
+          await telemetry.span('json.parse', async () => ({}));
+        }, { attributes: { 'http.host': 'api.example.com' } });
+        return 'user';
+      });
+      await telemetry.flush();
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      const [root, cache, parse, api] = body.invocations;
+      expect(body.invocations.map((i: { toolName: string }) => i.toolName))
+        .toEqual(['get_user', 'cache.lookup', 'json.parse', 'api.fetch']);
+      expect(root.traceId).toMatch(/^[0-9a-f]{32}$/);
+      expect(root.parentInvocationId).toBeUndefined();
+      expect(cache.parentInvocationId).toBe(root.invocationId);
+      expect(api.parentInvocationId).toBe(root.invocationId);
+      expect(parse.parentInvocationId).toBe(api.invocationId);
+      expect(new Set(body.invocations.map((i: { traceId: string }) => i.traceId)).size).toBe(1);
+      expect(api.attributes).toEqual({ 'http.host': 'api.example.com', 'http.status_code': 200 });
+    });
+
+    it('should record span errors without failing the parent', async () => {
+      const telemetry = new EmcyTelemetry({ apiKey: 'test-key', batchSize: 100 });
+
+      await telemetry.trace('get_user', async () => {
+        await telemetry.span('db.query', async () => {
+          throw new Error('timeout');
+        }).catch(() => null);
+        return 'fallback';
+      });
+      await telemetry.flush();
+
+      const [root, query] = JSON.parse(mockFetch.mock.calls[0][1].body).invocations;
+      expect(root.success).toBe(true);
+      expect(query.success).toBe(false);
+      expect(query.error.message).toBe('timeout');
+    });
+
+    it('should start separate traces for separate tool calls', async () => {
+      const telemetry = new EmcyTelemetry({ apiKey: 'test-key', batchSize: 100 });
+
+      await Promise.all([
+        telemetry.trace('first', () => telemetry.span('step', async () => 1)),
+        telemetry.trace('second', () => telemetry.span('step', async () => 2)),
+      ]);
+      await telemetry.flush();
+
+      const invocations = JSON.parse(mockFetch.mock.calls[0][1].body).invocations;
+      const byName = (name: string) => invocations.filter((i: { toolName: string }) => i.toolName === name);
+      const [first] = byName('first');
+      const [second] = byName('second');
+      expect(first.traceId).not.toBe(second.traceId);
+      expect(byName('step').map((i: { traceId: string }) => i.traceId).sort())
+        .toEqual([first.traceId, second.traceId].sort());
+    });
+
+    it('should drop children along with a sampled-out root', async () => {
+      const telemetry = new EmcyTelemetry({
+        apiKey: 'test-key',
+        batchSize: 100,
+        sampling: { tools: { noisy: 0 } },
+      });
+
+      await telemetry.trace('noisy', () => telemetry.span('step', async () => 1));
+      await telemetry.trace('kept', () => telemetry.span('step', async () => 1));
+      await telemetry.flush();
+
+      const invocations = JSON.parse(mockFetch.mock.calls[0][1].body).invocations;
+      expect(invocations.map((i: { toolName: string }) => i.toolName)).toEqual(['kept', 'step']);
+    });
+  });
+
+  describe('trace context', () => {
+    const traceparent = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+
+    it('should continue an incoming trace and expose headers for downstream calls', async () => {
+      const telemetry = new EmcyTelemetry({ apiKey: 'test-key' });
+      let headers: Record<string, string> = {};
+
+      await telemetry.trace('myTool', async span => {
+        headers = telemetry.traceHeaders();
+        expect(span.traceparent).toBe(headers.traceparent);
+      }, { traceparent, tracestate: 'vendor=abc' });
+      await telemetry.flush();
+
+      const [invocation] = JSON.parse(mockFetch.mock.calls[0][1].body).invocations;
+      expect(invocation.traceId).toBe('4bf92f3577b34da6a3ce929d0e0e4736');
+      expect(invocation.parentSpanId).toBe('00f067aa0ba902b7');
+      expect(invocation.spanId).toMatch(/^[0-9a-f]{16}$/);
+      expect(headers).toEqual({
+        traceparent: `00-4bf92f3577b34da6a3ce929d0e0e4736-${invocation.spanId}-01`,
+        tracestate: 'vendor=abc',
+      });
+    });
+
+    it('should start a new trace when traceparent is invalid', async () => {
+      const telemetry = new EmcyTelemetry({ apiKey: 'test-key' });
+
+      await telemetry.trace('myTool', async () => 'result', { traceparent: 'garbage' });
+      await telemetry.flush();
+
+      const [invocation] = JSON.parse(mockFetch.mock.calls[0][1].body).invocations;
+      expect(invocation.traceId).toMatch(/^[0-9a-f]{32}$/);
+      expect(invocation.parentSpanId).toBeUndefined();
+    });
+
+    it('should return no headers outside a traced call', () => {
+      const telemetry = new EmcyTelemetry({ apiKey: 'test-key' });
+
+      expect(telemetry.traceHeaders()).toEqual({});
+    });
+  });
+
+  describe('withContext', () => {
+    it('should apply session, agent, user and attributes to traced invocations', async () => {
+      const telemetry = new EmcyTelemetry({ apiKey: 'test-key' });
+
+      await telemetry.withContext(
+        { sessionId: 'session-1', agentId: 'agent-1', attributes: { tenant: 'acme' } },
+        () => telemetry.withContext({ userId: 'user-1' }, async () => {
+          // Context survives async hops inside the scope
+          await new Promise(resolve => process.nextTick(resolve));
+          await telemetry.trace('myTool', async () => 'result');
+        })
+      );
+      await telemetry.flush();
+
+      const [invocation] = JSON.parse(mockFetch.mock.calls[0][1].body).invocations;
+      expect(invocation.metadata).toMatchObject({ sessionId: 'session-1', agentId: 'agent-1', userId: 'user-1' });
+      expect(invocation.attributes).toEqual({ tenant: 'acme' });
+    });
+
+    it('should apply context to logged invocations without overriding their own fields', async () => {
+      const telemetry = new EmcyTelemetry({ apiKey: 'test-key' });
+
+      telemetry.withContext({ sessionId: 'session-1', userId: 'user-1' }, () => {
+        telemetry.log({
+          invocationId: 'inv-1',
+          toolName: 'tool',
+          timestamp: new Date().toISOString(),
+          duration: 1,
+          success: true,
+          metadata: { userId: 'user-2' },
+        });
+      });
+      await telemetry.flush();
+
+      const [invocation] = JSON.parse(mockFetch.mock.calls[0][1].body).invocations;
+      expect(invocation.metadata).toEqual({ sessionId: 'session-1', userId: 'user-2' });
+    });
+
+    it('should pass the trace sessionId on to spans', async () => {
+      const telemetry = new EmcyTelemetry({ apiKey: 'test-key' });
+
+      await telemetry.trace(
+        'myTool',
+        () => telemetry.span('step', async () => 'result'),
+        { sessionId: 'session-123' }
+      );
+      await telemetry.flush();
+
+      const invocations = JSON.parse(mockFetch.mock.calls[0][1].body).invocations;
+      expect(invocations.map((i: { metadata: { sessionId: string } }) => i.metadata.sessionId))
+        .toEqual(['session-123', 'session-123']);
+    });
+
+    it('should let tool code enrich the current invocation', async () => {
+      const telemetry = new EmcyTelemetry({ apiKey: 'test-key' });
+      const lookupPlan = async () => {
+        telemetry.setAttribute('plan', 'pro');
+        telemetry.setAttributes({ seats: 5, trial: false });
+      };
+
+      await telemetry.trace('myTool', async () => {
+        await lookupPlan();
+        return 'result';
+      });
+      await telemetry.flush();
+
+      const [invocation] = JSON.parse(mockFetch.mock.calls[0][1].body).invocations;
+      expect(invocation.attributes).toEqual({ plan: 'pro', seats: 5, trial: false });
+    });
+
+    it('should ignore setAttribute outside a traced call', () => {
+      const telemetry = new EmcyTelemetry({ apiKey: 'test-key' });
+
+      expect(() => telemetry.setAttribute('plan', 'pro')).not.toThrow();
+    });
+  });
+
+  describe('output capture', () => {
+    it('should summarize MCP tool results instead of sending the raw body', async () => {
+      const telemetry = new EmcyTelemetry({ apiKey: 'test-key', outputPreviewLength: 4 });
+
+      await telemetry.trace('screenshot', async () => ({
+        content: [
+          { type: 'text', text: 'Captured page' },
+          { type: 'image', data: 'aGVsbG8=', mimeType: 'image/png' },
+        ],
+      }));
+      await telemetry.flush();
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.invocations[0].output).toEqual({
+        content: [
+          { type: 'text', bytes: 13, preview: 'Capt', truncated: true },
+          { type: 'image', bytes: 5, mimeType: 'image/png' },
+        ],
+        contentCounts: { text: 1, image: 1 },
+        contentBytes: 18,
+      });
+    });
+
+    it('should keep status and data for HTTP-style results', async () => {
+      const telemetry = new EmcyTelemetry({ apiKey: 'test-key' });
+
+      await telemetry.trace('httpTool', async () => ({ status: 200, data: { id: 1 } }));
+      await telemetry.flush();
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.invocations[0].output).toEqual({ status: 200, body: { id: 1 } });
+    });
+  });
+
+  describe('result classification', () => {
+    it('should mark MCP results with isError as failed', async () => {
+      const telemetry = new EmcyTelemetry({ apiKey: 'test-key' });
+
+      const result = await telemetry.trace('flakyTool', async () => ({
+        isError: true,
+        content: [
+          { type: 'text', text: 'Upstream timed out' },
+          { type: 'image', data: 'aGk=', mimeType: 'image/png' },
+          { type: 'text', text: 'Try again later' },
+        ],
+      }));
+
+      expect(result.isError).toBe(true);
+
+      await telemetry.flush();
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.invocations[0].success).toBe(false);
+      expect(body.invocations[0].error).toEqual({
+        message: 'Upstream timed out\nTry again later',
+        code: 'MCP_TOOL_ERROR',
+      });
+    });
+
+    it('should use a fallback message when the error result has no text', async () => {
+      const telemetry = new EmcyTelemetry({ apiKey: 'test-key' });
+
+      await telemetry.trace('flakyTool', async () => ({ isError: true, content: [] }));
+      await telemetry.flush();
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.invocations[0].error.message).toBe('Tool returned an error result');
+    });
+
+    it('should treat results with isError false as successful', async () => {
+      const telemetry = new EmcyTelemetry({ apiKey: 'test-key' });
+
+      await telemetry.trace('okTool', async () => ({ isError: false, content: [] }));
+      await telemetry.flush();
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.invocations[0].success).toBe(true);
+      expect(body.invocations[0].error).toBeUndefined();
+    });
+
+    it('should prefer a custom classifyResult callback', async () => {
+      const telemetry = new EmcyTelemetry({
+        apiKey: 'test-key',
+        classifyResult: (result, toolName) => {
+          if (toolName === 'httpTool' && (result as { status: number }).status >= 400) {
+            return { success: false, error: { message: 'HTTP error', code: 'HTTP_404' } };
+          }
+          return undefined;
+        },
+      });
+
+      await telemetry.trace('httpTool', async () => ({ status: 404, data: null }));
+      await telemetry.trace('mcpTool', async () => ({ isError: true, content: [] }));
+      await telemetry.flush();
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.invocations[0].success).toBe(false);
+      expect(body.invocations[0].error).toEqual({ message: 'HTTP error', code: 'HTTP_404' });
+      // Falls back to built-in detection when the callback returns undefined
+      expect(body.invocations[1].success).toBe(false);
+    });
+
+    it('should fall back to built-in detection if classifyResult throws', async () => {
+      const telemetry = new EmcyTelemetry({
+        apiKey: 'test-key',
+        classifyResult: () => {
+          throw new Error('bad classifier');
+        },
+      });
+
+      await expect(telemetry.trace('tool', async () => 'ok')).resolves.toBe('ok');
+      await telemetry.flush();
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.invocations[0].success).toBe(true);
+    });
+  });
+
+  describe('redaction', () => {
+    it('should redact inputs before they are queued', async () => {
+      const telemetry = new EmcyTelemetry({ apiKey: 'test-key' });
+
+      await telemetry.trace('login', async () => 'ok', {
+        input: { username: 'jane', password: 'hunter2' },
+      });
+      await telemetry.flush();
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.invocations[0].input).toEqual({ username: 'jane', password: '[REDACTED]' });
+      expect(mockFetch.mock.calls[0][1].body).not.toContain('hunter2');
+    });
+
+    it('should send values unchanged when redaction is disabled', async () => {
+      const telemetry = new EmcyTelemetry({ apiKey: 'test-key', redaction: false });
+
+      await telemetry.trace('login', async () => 'ok', { input: { password: 'hunter2' } });
+      await telemetry.flush();
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.invocations[0].input).toEqual({ password: 'hunter2' });
+    });
+  });
+
+  describe('sampling', () => {
+    it('should skip sampled-out invocations and weight kept ones', async () => {
+      const telemetry = new EmcyTelemetry({
+        apiKey: 'test-key',
+        batchSize: 1000,
+        sampling: { tools: { noisy: 0 } },
+      });
+
+      telemetry.log({ invocationId: 'inv-1', toolName: 'noisy', timestamp: '2024-01-01T00:00:00.000Z', duration: 1, success: true });
+      telemetry.log({ invocationId: 'inv-2', toolName: 'noisy', timestamp: '2024-01-01T00:00:00.000Z', duration: 1, success: false });
+      telemetry.log({ invocationId: 'inv-3', toolName: 'rare', timestamp: '2024-01-01T00:00:00.000Z', duration: 1, success: true });
+      await telemetry.flush();
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.invocations.map((i: { invocationId: string }) => i.invocationId)).toEqual(['inv-2', 'inv-3']);
+      expect(body.invocations[0].sampleWeight).toBe(1);
+    });
+  });
+
+  describe('getStats', () => {
+    it('should count every invocation, including sampled-out ones', async () => {
+      const telemetry = new EmcyTelemetry({
+        apiKey: 'test-key',
+        batchSize: 1000,
+        sampling: { rate: 0 },
+      });
+
+      await telemetry.trace('search', async () => 'result');
+      await telemetry.trace('search', async () => ({ isError: true, content: [] }));
+      telemetry.log({ invocationId: 'inv-1', toolName: 'lookup', timestamp: '2024-01-01T00:00:00.000Z', duration: 20, success: true });
+
+      const { tools } = telemetry.getStats();
+      expect(tools.search).toMatchObject({ count: 2, errors: 1, errorRate: 0.5 });
+      expect(tools.lookup.latency.p50).toBe(20);
+    });
+
+    it('should be empty when stats are disabled', () => {
+      const telemetry = new EmcyTelemetry({ apiKey: 'test-key', stats: false });
+      telemetry.log({ invocationId: 'inv-1', toolName: 'lookup', timestamp: '2024-01-01T00:00:00.000Z', duration: 20, success: true });
+
+      expect(telemetry.getStats().tools).toEqual({});
+    });
+
+    it('should send periodic aggregates with batches', async () => {
+      const telemetry = new EmcyTelemetry({
+        apiKey: 'test-key',
+        flushInterval: 10_000,
+        sampling: { rate: 0 },
+        stats: { reportInterval: 5_000 },
+      });
+
+      telemetry.log({ invocationId: 'inv-1', toolName: 'lookup', timestamp: '2024-01-01T00:00:00.000Z', duration: 20, success: true });
+      await vi.advanceTimersByTimeAsync(10_000);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.invocations).toEqual([]);
+      expect(body.aggregates).toHaveLength(1);
+      expect(body.aggregates[0]).toMatchObject({ toolName: 'lookup', count: 1, errors: 0 });
+      await telemetry.shutdown();
+    });
+  });
+
+  describe('events', () => {
+    const logger = () => ({ debug: vi.fn(), warn: vi.fn(), error: vi.fn() });
+
+    it('should emit invocation and batchSent events', async () => {
+      const telemetry = new EmcyTelemetry({ apiKey: 'test-key' });
+      const invocations: string[] = [];
+      const sent: string[] = [];
+      telemetry.on('invocation', invocation => invocations.push(invocation.toolName));
+      telemetry.on('batchSent', ({ exporter, batch }) => sent.push(`${exporter}:${batch.invocations.length}`));
+
+      await telemetry.trace('myTool', async () => 'result');
+      await telemetry.flush();
+
+      expect(invocations).toEqual(['myTool']);
+      expect(sent).toEqual(['emcy:1']);
+    });
+
+    it('should emit batchFailed, dropped and error events', async () => {
+      const broken = { name: 'broken', send: async (): Promise<boolean> => { throw new Error('boom'); } };
+      const telemetry = new EmcyTelemetry({ apiKey: 'test-key', exporters: [broken], logger: logger() });
+      const failed = vi.fn();
+      const dropped = vi.fn();
+      const errors = vi.fn();
+      telemetry.on('batchFailed', failed);
+      telemetry.on('dropped', dropped);
+      telemetry.on('error', errors);
+
+      telemetry.log({ invocationId: 'inv-1', toolName: 'tool1', timestamp: '2024-01-01T00:00:00.000Z', duration: 1, success: true });
+      await telemetry.flush();
+
+      expect(failed).toHaveBeenCalledWith(expect.objectContaining({ exporter: 'broken', error: new Error('boom') }));
+      expect(dropped).toHaveBeenCalledWith(expect.objectContaining({ exporter: 'broken', reason: 'send_failed' }));
+      expect(errors).toHaveBeenCalledWith(new Error('boom'));
+    });
+
+    it('should stop calling a listener once removed', async () => {
+      const telemetry = new EmcyTelemetry({ apiKey: 'test-key' });
+      const listener = vi.fn();
+      const off = telemetry.on('invocation', listener);
+      off();
+
+      await telemetry.trace('myTool', async () => 'result');
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should send its own output to a custom logger', async () => {
+      const custom = logger();
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockFetch.mockResolvedValue({ ok: false, status: 401, statusText: 'Unauthorized' });
+      const telemetry = new EmcyTelemetry({ apiKey: 'test-key', debug: true, logger: custom });
+
+      await telemetry.trace('myTool', async () => 'result');
+      await telemetry.flush();
+
+      expect(custom.debug).toHaveBeenCalledWith('[emcy] Logged: myTool (0ms, success)');
+      expect(custom.error).toHaveBeenCalledWith('[emcy] Client error: 401 Unauthorized');
+      expect(consoleSpy).not.toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('hooks', () => {
+    it('should let beforeLog enrich or discard records', async () => {
+      const telemetry = new EmcyTelemetry({
+        apiKey: 'test-key',
+        beforeLog: invocation => invocation.toolName === 'health'
+          ? null
+          : { ...invocation, attributes: { region: 'eu' } },
+      });
+
+      await telemetry.trace('health', async () => 'ok');
+      await telemetry.trace('myTool', async () => 'result');
+      await telemetry.flush();
+
+      const invocations = JSON.parse(mockFetch.mock.calls[0][1].body).invocations;
+      expect(invocations).toHaveLength(1);
+      expect(invocations[0].attributes).toEqual({ region: 'eu' });
+    });
+
+    it('should still redact what beforeLog adds', async () => {
+      const telemetry = new EmcyTelemetry({
+        apiKey: 'test-key',
+        beforeLog: invocation => {
+          invocation.input = { password: 'hunter2' };
+        },
+      });
+
+      await telemetry.trace('myTool', async () => 'result');
+      await telemetry.flush();
+
+      const [invocation] = JSON.parse(mockFetch.mock.calls[0][1].body).invocations;
+      expect(invocation.input.password).toBe('[REDACTED]');
+    });
+
+    it('should discard the record when beforeLog throws', async () => {
+      const errors = vi.fn();
+      const telemetry = new EmcyTelemetry({
+        apiKey: 'test-key',
+        logger: { debug: vi.fn(), warn: vi.fn(), error: vi.fn() },
+        beforeLog: () => { throw new Error('scrubber failed'); },
+      });
+      telemetry.on('error', errors);
+
+      await telemetry.trace('myTool', async () => 'result');
+      await telemetry.flush();
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(errors).toHaveBeenCalledWith(new Error('scrubber failed'));
+    });
+
+    it('should let beforeSend rewrite or skip batches per exporter', async () => {
+      const kept: string[] = [];
+      const telemetry = new EmcyTelemetry({
+        apiKey: 'test-key',
+        exporters: [
+          { name: 'audit', send: async batch => { kept.push(...batch.invocations.map(i => i.toolName)); return true; } },
+          { name: 'skipped', send: async () => { throw new Error('should not be called'); } },
+        ],
+        beforeSend: (batch, exporter) => exporter === 'skipped'
+          ? null
+          : { ...batch, invocations: batch.invocations.filter(i => i.success) },
+      });
+      const failed = vi.fn();
+      telemetry.on('batchFailed', failed);
+
+      telemetry.log({ invocationId: 'inv-1', toolName: 'ok', timestamp: '2024-01-01T00:00:00.000Z', duration: 1, success: true });
+      telemetry.log({ invocationId: 'inv-2', toolName: 'failed', timestamp: '2024-01-01T00:00:00.000Z', duration: 1, success: false });
+      await telemetry.flush();
+
+      expect(kept).toEqual(['ok']);
+      expect(failed).not.toHaveBeenCalled();
+      expect(telemetry.dropped.total).toBe(0);
+    });
+  });
+
+  describe('circuitStates', () => {
+    it('should report the circuit of each exporter', async () => {
+      const telemetry = new EmcyTelemetry({
+        apiKey: 'test-key',
+        retry: { maxAttempts: 1 },
+        circuitBreaker: { failureThreshold: 1 },
+      });
+      expect(telemetry.circuitStates).toEqual({ emcy: 'closed' });
+
+      mockFetch.mockRejectedValue(new Error('Network error'));
+      telemetry.log({ invocationId: 'inv-1', toolName: 'lookup', timestamp: '2024-01-01T00:00:00.000Z', duration: 1, success: true });
+      await telemetry.flush();
+
+      expect(telemetry.circuitStates).toEqual({ emcy: 'open' });
+    });
+  });
+
+  describe('queue limits', () => {
+    const logMany = (telemetry: EmcyTelemetry, count: number) => {
+      for (let i = 0; i < count; i++) {
+        telemetry.log({
+          invocationId: `inv-${i}`,
+          toolName: i % 2 === 0 ? 'even' : 'odd',
+          timestamp: new Date().toISOString(),
+          duration: 100,
+          success: true,
+        });
+      }
+    };
+
+    it('should send a trace that fills the batch in one batch', async () => {
+      const telemetry = new EmcyTelemetry({ apiKey: 'test-key', batchSize: 10, flushInterval: 60000 });
+
+      logMany(telemetry, 9);
+      await telemetry.trace('tool', async () => {
+        await telemetry.span('db', async () => 'rows');
+        await telemetry.span('api', async () => 'ok');
+      });
+      await telemetry.flush();
+
+      const batches = mockFetch.mock.calls.map(([, options]) =>
+        JSON.parse(options.body).invocations.map((invocation: { toolName: string }) => invocation.toolName)
+      );
+      expect(batches).toHaveLength(2);
+      expect(batches[0]).toHaveLength(9);
+      expect(batches[1]).toEqual(['tool', 'db', 'api']);
+    });
+
+    it('should drop invocations beyond maxQueueSize and count them', async () => {
+      const telemetry = new EmcyTelemetry({ apiKey: 'test-key', batchSize: 100, maxQueueSize: 3 });
+
+      logMany(telemetry, 5);
+
+      expect(telemetry.dropped).toEqual({
+        total: 2,
+        byReason: { queue_overflow: 2 },
+        byTool: { even: 1, odd: 1 },
+      });
+
+      await telemetry.flush();
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.invocations.map((i: { invocationId: string }) => i.invocationId)).toEqual([
+        'inv-2',
+        'inv-3',
+        'inv-4',
+      ]);
+      expect(body.dropped).toEqual({
+        total: 2,
+        byReason: { queue_overflow: 2 },
+        byTool: { even: 1, odd: 1 },
+      });
+    });
+
+    it('should report drop counts only once', async () => {
+      const telemetry = new EmcyTelemetry({ apiKey: 'test-key', batchSize: 100, maxQueueSize: 1 });
+
+      logMany(telemetry, 2);
+      await telemetry.flush();
+      logMany(telemetry, 1);
+      await telemetry.flush();
+
+      expect(JSON.parse(mockFetch.mock.calls[1][1].body).dropped).toBeUndefined();
+      // The cumulative count on the instance is kept
+      expect(telemetry.dropped.total).toBe(1);
+    });
+
+    it('should keep unreported drop counts when a send fails', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const telemetry = new EmcyTelemetry({ apiKey: 'test-key', batchSize: 100, maxQueueSize: 1, retry: { maxAttempts: 1 } });
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 503, statusText: 'Service Unavailable' });
+
+      logMany(telemetry, 2);
+      await telemetry.flush();
+      logMany(telemetry, 1);
+      await telemetry.flush();
+
+      expect(JSON.parse(mockFetch.mock.calls[1][1].body).dropped).toEqual({
+        total: 2,
+        byReason: { queue_overflow: 1, send_failed: 1 },
+        byTool: { odd: 1, even: 1 },
+      });
+      vi.mocked(console.error).mockRestore();
+    });
   });
 
   describe('flush', () => {
+    it('should not send again before a Retry-After longer than maxDelayMs has passed', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const telemetry = new EmcyTelemetry({ apiKey: 'test-key', retry: { maxDelayMs: 10_000 } });
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 429,
+        statusText: 'Too Many Requests',
+        headers: new Headers({ 'Retry-After': '60' }),
+      });
+
+      await telemetry.trace('first', async () => 'ok');
+      await telemetry.flush();
+      await telemetry.trace('second', async () => 'ok');
+      await telemetry.flush();
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(60_000);
+      await telemetry.trace('third', async () => 'ok');
+      await telemetry.flush();
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      vi.mocked(console.error).mockRestore();
+    });
+
     it('should send queued invocations', async () => {
       const telemetry = new EmcyTelemetry({ apiKey: 'test-key' });
 
@@ -199,6 +1046,32 @@ describe('EmcyTelemetry', () => {
       expect(mockFetch).not.toHaveBeenCalled();
     });
 
+    it('should split large queues into batches within the byte budget', async () => {
+      const telemetry = new EmcyTelemetry({
+        apiKey: 'test-key',
+        batchSize: 100,
+        limits: { maxBatchBytes: 1500, maxOutputBytes: 1800 },
+      });
+
+      for (let i = 0; i < 4; i++) {
+        telemetry.log({
+          invocationId: `inv-${i}`,
+          toolName: 'bigTool',
+          timestamp: new Date().toISOString(),
+          duration: 100,
+          success: true,
+          output: { body: 'x'.repeat(10_000) },
+        });
+      }
+
+      await telemetry.flush();
+
+      expect(mockFetch.mock.calls.length).toBeGreaterThan(1);
+      const sent = mockFetch.mock.calls.flatMap(([, options]) => JSON.parse(options.body).invocations);
+      expect(sent).toHaveLength(4);
+      expect(sent[0].truncated).toContain('output.body');
+    });
+
     it('should include mcpServerId in batch', async () => {
       const telemetry = new EmcyTelemetry({
         apiKey: 'test-key',
@@ -218,6 +1091,64 @@ describe('EmcyTelemetry', () => {
       const body = JSON.parse(mockFetch.mock.calls[0][1].body);
       expect(body.mcpServerId).toBe('server-456');
     });
+
+    it('should not overlap flushes and resolve once earlier invocations are sent', async () => {
+      const responses: Array<() => void> = [];
+      mockFetch.mockImplementation(() => new Promise(resolve => responses.push(() => resolve({ ok: true }))));
+      const telemetry = new EmcyTelemetry({ apiKey: 'test-key', batchSize: 100 });
+      const log = (invocationId: string) =>
+        telemetry.log({ invocationId, toolName: 'tool1', timestamp: '2024-01-01T00:00:00.000Z', duration: 1, success: true });
+
+      log('inv-1');
+      const first = telemetry.flush();
+      log('inv-2');
+      const second = telemetry.flush();
+      log('inv-3');
+      const third = telemetry.flush();
+      let secondDone = false;
+      second.then(() => { secondDone = true; });
+
+      await vi.advanceTimersByTimeAsync(0);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      responses.shift()!();
+      await first;
+      await vi.advanceTimersByTimeAsync(0);
+      expect(secondDone).toBe(false);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+
+      responses.shift()!();
+      await Promise.all([second, third]);
+
+      // Flushes requested while one was running share the next one
+      const sent = mockFetch.mock.calls.map(([, options]) => JSON.parse(options.body).invocations.length);
+      expect(sent).toEqual([1, 2]);
+    });
+
+    it('should cap concurrent batches within a flush', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      let sent = 0;
+      const exporter = {
+        batchSize: 1,
+        send: async () => {
+          maxInFlight = Math.max(maxInFlight, ++inFlight);
+          await Promise.resolve();
+          inFlight--;
+          sent++;
+          return true;
+        },
+      };
+      const telemetry = new EmcyTelemetry({ apiKey: 'test-key', exporters: [exporter], maxInFlightBatches: 2 });
+
+      for (let i = 0; i < 6; i++) {
+        telemetry.log({ invocationId: `inv-${i}`, toolName: 'tool1', timestamp: '2024-01-01T00:00:00.000Z', duration: 1, success: true });
+      }
+      await telemetry.flush();
+
+      expect(sent).toBe(6);
+      expect(maxInFlight).toBe(2);
+    });
   });
 
   describe('shutdown', () => {
@@ -0,0 +1,119 @@
+/**
+ * Tests for the @emcy/sdk/testing utilities
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { AssertionError } from 'node:assert';
+import { createTestTelemetry, ManualClock, SequentialIds, type TestTelemetry } from '../testing.js';
+
+describe('createTestTelemetry', () => {
+  let harness: TestTelemetry;
+
+  afterEach(async () => {
+    await harness.telemetry.shutdown();
+  });
+
+  it('should produce deterministic ids and timestamps', async () => {
+    harness = createTestTelemetry();
+    const { telemetry, exporter, clock } = harness;
+
+    await telemetry.trace('search', async () => {
+      await telemetry.span('fetch', async () => {
+        clock.advance(40);
+      });
+      clock.advance(10);
+      return 'ok';
+    });
+
+    const root = exporter.expectToolCalled('search');
+    expect(root).toMatchObject({
+      invocationId: 'inv-1',
+      traceId: '00000000000000000000000000000001',
+      spanId: '0000000000000001',
+      timestamp: '2024-01-01T00:00:00.050Z',
+      duration: 50,
+    });
+    expect(exporter.expectToolCalled('fetch', { parentInvocationId: 'inv-1', duration: 40 })).toMatchObject({
+      invocationId: 'inv-2',
+      spanId: '0000000000000002',
+    });
+  });
+
+  it('should capture records before a flush and batches after one', async () => {
+    harness = createTestTelemetry();
+    const { telemetry, exporter } = harness;
+
+    await telemetry.trace('search', async () => 'ok');
+    expect(exporter.invocations).toHaveLength(1);
+    expect(exporter.batches).toHaveLength(0);
+
+    await telemetry.flush();
+    expect(exporter.batches).toHaveLength(1);
+    expect(exporter.batches[0].invocations[0].toolName).toBe('search');
+    expect(exporter.batches[0].timestamp).toBe('2024-01-01T00:00:00.000Z');
+  });
+
+  it('should match a subset of fields, including nested ones', async () => {
+    harness = createTestTelemetry({ mcpServerId: 'server-1' });
+    const { telemetry, exporter } = harness;
+
+    await expect(telemetry.trace('delete', async () => {
+      throw new Error('forbidden');
+    })).rejects.toThrow('forbidden');
+
+    exporter.expectToolCalled('delete', { success: false, error: { message: 'forbidden' } });
+    exporter.expectToolCalled('delete', { metadata: { mcpServerId: 'server-1' } });
+    expect(() => exporter.expectToolCalled('delete', { success: true })).toThrow(
+      /none of its 1 calls matched/
+    );
+  });
+
+  it('should throw an AssertionError naming what was captured', async () => {
+    harness = createTestTelemetry();
+    const { telemetry, exporter } = harness;
+
+    await telemetry.trace('search', async () => 'ok');
+
+    expect(() => exporter.expectToolCalled('delete')).toThrow(AssertionError);
+    expect(() => exporter.expectToolCalled('delete')).toThrow(
+      'Expected delete to be called, but it was not. Captured: search'
+    );
+  });
+
+  it('should assert a tool was not called', async () => {
+    harness = createTestTelemetry();
+    const { telemetry, exporter } = harness;
+
+    exporter.expectToolNotCalled('search');
+    await telemetry.trace('search', async () => 'ok');
+
+    expect(() => exporter.expectToolNotCalled('search')).toThrow(
+      'Expected search not to be called, but it was called 1 times'
+    );
+    exporter.clear();
+    exporter.expectToolNotCalled('search');
+  });
+});
+
+describe('SequentialIds', () => {
+  it('should count up independently per kind', () => {
+    const ids = new SequentialIds();
+
+    expect(ids.invocationId()).toBe('inv-1');
+    expect(ids.invocationId()).toBe('inv-2');
+    expect(ids.traceId()).toBe('00000000000000000000000000000001');
+    expect(ids.spanId()).toBe('0000000000000001');
+  });
+});
+
+describe('ManualClock', () => {
+  it('should only move when advanced or set', () => {
+    const clock = new ManualClock(new Date('2025-06-01T00:00:00Z'));
+
+    expect(clock.now()).toBe(Date.UTC(2025, 5, 1));
+    clock.advance(250);
+    expect(clock.now()).toBe(Date.UTC(2025, 5, 1) + 250);
+    clock.set(0);
+    expect(clock.now()).toBe(0);
+  });
+});
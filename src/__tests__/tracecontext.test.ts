@@ -0,0 +1,42 @@
+/**
+ * Tests for W3C Trace Context parsing
+ */
+
+import { describe, it, expect } from 'vitest';
+import { formatTraceparent, parseTraceparent } from '../tracecontext.js';
+
+describe('parseTraceparent', () => {
+  it('should parse a valid traceparent and tracestate', () => {
+    expect(parseTraceparent('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01', 'rojo=00f067aa0ba902b7'))
+      .toEqual({
+        traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+        parentSpanId: '00f067aa0ba902b7',
+        traceFlags: '01',
+        traceState: 'rojo=00f067aa0ba902b7',
+      });
+  });
+
+  it('should accept future versions with extra fields', () => {
+    expect(parseTraceparent('01-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-00-extra')?.traceFlags)
+      .toBe('00');
+  });
+
+  it.each([
+    undefined,
+    '',
+    'not-a-traceparent',
+    'ff-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01',
+    '00-00000000000000000000000000000000-00f067aa0ba902b7-01',
+    '00-4bf92f3577b34da6a3ce929d0e0e4736-0000000000000000-01',
+    '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01-extra',
+  ])('should reject %j', value => {
+    expect(parseTraceparent(value)).toBeNull();
+  });
+});
+
+describe('formatTraceparent', () => {
+  it('should format version 00', () => {
+    expect(formatTraceparent('4bf92f3577b34da6a3ce929d0e0e4736', '00f067aa0ba902b7'))
+      .toBe('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01');
+  });
+});
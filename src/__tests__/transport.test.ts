@@ -18,9 +18,11 @@ describe('TelemetryTransport', () => {
 
   afterEach(() => {
     vi.useRealTimers();
+    vi.restoreAllMocks();
   });
 
   const createBatch = (overrides?: Partial<TelemetryBatch>): TelemetryBatch => ({
+    schemaVersion: '1.0',
     apiKey: 'test-api-key',
     timestamp: '2024-01-01T00:00:00.000Z',
     invocations: [
@@ -91,7 +93,7 @@ describe('TelemetryTransport', () => {
       expect(result).toBe(true);
     });
 
-    it('should return false on 4xx client error without retry', async () => {
+    it('should report 4xx client errors as not retryable, without retry', async () => {
       const transport = new TelemetryTransport();
       mockFetch.mockResolvedValue({
         ok: false,
@@ -101,7 +103,7 @@ describe('TelemetryTransport', () => {
 
       const result = await transport.send(createBatch());
 
-      expect(result).toBe(false);
+      expect(result).toEqual({ success: false, retryable: false });
       // Should not retry on 4xx errors
       expect(mockFetch).toHaveBeenCalledTimes(1);
     });
@@ -168,6 +170,8 @@ describe('TelemetryTransport', () => {
     });
 
     it('should use exponential backoff for retries', async () => {
+      // Jitter at its maximum, so each delay is just under the exponential ceiling
+      vi.spyOn(Math, 'random').mockReturnValue(0.9999);
       const transport = new TelemetryTransport();
       
       // Track when fetch is called
@@ -206,6 +210,169 @@ describe('TelemetryTransport', () => {
     });
   });
 
+  describe('retry policy', () => {
+    const response = (status: number, headers: Record<string, string> = {}) =>
+      ({ ok: false, status, statusText: 'Error', headers: new Headers(headers) });
+
+    it('should retry 429 and 408 responses', async () => {
+      const transport = new TelemetryTransport();
+      mockFetch
+        .mockResolvedValueOnce(response(429))
+        .mockResolvedValueOnce(response(408))
+        .mockResolvedValueOnce({ ok: true });
+
+      const sendPromise = transport.send(createBatch());
+      await vi.advanceTimersByTimeAsync(3000);
+
+      expect(await sendPromise).toBe(true);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should wait as long as Retry-After asks', async () => {
+      const transport = new TelemetryTransport();
+      mockFetch
+        .mockResolvedValueOnce(response(503, { 'Retry-After': '5' }))
+        .mockResolvedValueOnce({ ok: true });
+
+      const sendPromise = transport.send(createBatch());
+      await vi.advanceTimersByTimeAsync(4999);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(await sendPromise).toBe(true);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should give up when Retry-After exceeds maxDelayMs', async () => {
+      const transport = new TelemetryTransport(undefined, false, { retry: { maxDelayMs: 10_000 } });
+      mockFetch.mockResolvedValue(response(429, { 'Retry-After': '60' }));
+
+      expect(await transport.send(createBatch())).toBe(false);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not call the endpoint again before Retry-After has passed', async () => {
+      const transport = new TelemetryTransport(undefined, false, { retry: { maxDelayMs: 10_000 } });
+      mockFetch
+        .mockResolvedValueOnce(response(429, { 'Retry-After': '60' }))
+        .mockResolvedValue({ ok: true });
+
+      expect(await transport.send(createBatch())).toBe(false);
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(await transport.send(createBatch())).toBe(false);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(55_000);
+      expect(await transport.send(createBatch())).toBe(true);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should apply full jitter to the backoff', async () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.5);
+      const transport = new TelemetryTransport(undefined, false, { retry: { maxAttempts: 3, initialDelayMs: 1000 } });
+      mockFetch.mockResolvedValue(response(500));
+
+      const sendPromise = transport.send(createBatch());
+      await vi.advanceTimersByTimeAsync(500);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+
+      expect(await sendPromise).toBe(false);
+    });
+
+    it('should stop retrying after maxElapsedMs', async () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.99);
+      const transport = new TelemetryTransport(undefined, false, {
+        retry: { maxAttempts: 10, initialDelayMs: 1000, maxElapsedMs: 5000 },
+      });
+      mockFetch.mockResolvedValue(response(500));
+
+      const sendPromise = transport.send(createBatch());
+      await vi.advanceTimersByTimeAsync(10_000);
+
+      expect(await sendPromise).toBe(false);
+      // Waits of 990ms and 1980ms fit in 5s, the next 3960ms doesn't
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should only retry the configured statuses', async () => {
+      const transport = new TelemetryTransport(undefined, false, { retry: { retryableStatuses: [503] } });
+      mockFetch.mockResolvedValue(response(500));
+
+      expect(await transport.send(createBatch())).toEqual({ success: false, retryable: false });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('request timeout', () => {
+    it('should abort hung requests and retry them', async () => {
+      const transport = new TelemetryTransport(undefined, false, { requestTimeout: 5000 });
+      mockFetch
+        .mockImplementationOnce((_url: string, init: RequestInit) => new Promise((_, reject) => {
+          init.signal!.addEventListener('abort', () => reject(init.signal!.reason));
+        }))
+        .mockResolvedValueOnce({ ok: true });
+
+      const sendPromise = transport.send(createBatch());
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(mockFetch.mock.calls[0][1].signal.aborted).toBe(true);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(await sendPromise).toBe(true);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('circuit breaker', () => {
+    it('should stop sending after repeated failures and recover after the reset timeout', async () => {
+      const states: string[] = [];
+      const transport = new TelemetryTransport(undefined, false, {
+        retry: { maxAttempts: 1 },
+        circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 10_000, onStateChange: state => states.push(state) },
+      });
+      mockFetch.mockRejectedValue(new Error('Network error'));
+
+      await transport.send(createBatch());
+      await transport.send(createBatch());
+      expect(transport.circuitState).toBe('open');
+
+      expect(await transport.send(createBatch())).toBe(false);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+
+      vi.advanceTimersByTime(10_000);
+      mockFetch.mockResolvedValue({ ok: true });
+      expect(await transport.send(createBatch())).toBe(true);
+
+      expect(transport.circuitState).toBe('closed');
+      expect(states).toEqual(['open', 'half_open', 'closed']);
+    });
+
+    it('should reopen when the trial batch fails', async () => {
+      const transport = new TelemetryTransport(undefined, false, {
+        retry: { maxAttempts: 1 },
+        circuitBreaker: { failureThreshold: 1, resetTimeoutMs: 1000 },
+      });
+      mockFetch.mockRejectedValue(new Error('Network error'));
+
+      await transport.send(createBatch());
+      vi.advanceTimersByTime(1000);
+      await transport.send(createBatch());
+
+      expect(transport.circuitState).toBe('open');
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not count rejected batches as endpoint failures', async () => {
+      const transport = new TelemetryTransport(undefined, false, { circuitBreaker: { failureThreshold: 1 } });
+      mockFetch.mockResolvedValue({ ok: false, status: 400, statusText: 'Bad Request' });
+
+      await transport.send(createBatch());
+
+      expect(transport.circuitState).toBe('closed');
+    });
+  });
+
   describe('debug mode', () => {
     it('should log when debug is enabled', async () => {
       const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
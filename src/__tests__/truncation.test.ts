@@ -0,0 +1,162 @@
+/**
+ * Tests for payload size budgets
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyPayloadLimits,
+  byteSize,
+  resolvePayloadLimits,
+  safeStringify,
+  splitIntoBatches,
+} from '../truncation.js';
+import { createInvocation } from './fixtures.js';
+
+describe('resolvePayloadLimits', () => {
+  it('should clamp the invocation budget to the batch budget', () => {
+    const limits = resolvePayloadLimits({ maxInvocationBytes: 10_000, maxBatchBytes: 4_000 });
+    expect(limits.maxInvocationBytes).toBe(4_000);
+  });
+});
+
+describe('applyPayloadLimits', () => {
+  it('should leave small invocations untouched', () => {
+    const invocation = createInvocation({ input: { q: 'hi' }, output: { body: 'ok' } });
+    const result = applyPayloadLimits(invocation, resolvePayloadLimits());
+
+    expect(result).toEqual(invocation);
+    expect(result.truncated).toBeUndefined();
+  });
+
+  it('should replace oversized input with a truncation marker', () => {
+    const input = { document: 'x'.repeat(5000) };
+    const result = applyPayloadLimits(
+      createInvocation({ input }),
+      resolvePayloadLimits({ maxInputBytes: 1000 })
+    );
+
+    expect(result.input).toEqual({
+      _truncated: true,
+      originalBytes: byteSize(input),
+      preview: JSON.stringify(input).slice(0, 500),
+    });
+    expect(result.truncated).toEqual(['input']);
+  });
+
+  it('should truncate oversized output bodies and keep the status', () => {
+    const result = applyPayloadLimits(
+      createInvocation({ output: { status: 200, body: 'y'.repeat(5000) } }),
+      resolvePayloadLimits({ maxOutputBytes: 1000 })
+    );
+
+    expect(result.output?.status).toBe(200);
+    expect(result.output?.body).toMatchObject({ _truncated: true, originalBytes: 5002 });
+    expect(byteSize(result.output)).toBeLessThanOrEqual(1000);
+    expect(result.truncated).toEqual(['output.body']);
+  });
+
+  it('should truncate long error stacks with a marker', () => {
+    const stack = 'Error: boom\n' + '    at frame\n'.repeat(1000);
+    const result = applyPayloadLimits(
+      createInvocation({ success: false, error: { message: 'boom', stack } }),
+      resolvePayloadLimits({ maxErrorBytes: 500 })
+    );
+
+    expect(result.error?.message).toBe('boom');
+    expect(result.error?.stack).toMatch(/^Error: boom\n.*…\[truncated, \d+ bytes total\]$/s);
+    expect(result.truncated).toEqual(['error.stack']);
+  });
+
+  it('should be deterministic', () => {
+    const invocation = createInvocation({ input: { a: 'z'.repeat(5000) } });
+    const limits = resolvePayloadLimits({ maxInputBytes: 1000 });
+
+    expect(applyPayloadLimits(invocation, limits)).toEqual(applyPayloadLimits(invocation, limits));
+  });
+
+  it('should not split multi-byte characters', () => {
+    const result = applyPayloadLimits(
+      createInvocation({ input: { text: '€'.repeat(2000) } }),
+      resolvePayloadLimits({ maxInputBytes: 1001 })
+    );
+
+    const preview = (result.input as { preview: string }).preview;
+    expect(preview).not.toContain('�');
+  });
+
+  it('should enforce the per-invocation budget across fields', () => {
+    const result = applyPayloadLimits(
+      createInvocation({
+        input: { a: 'a'.repeat(3000) },
+        output: { body: 'b'.repeat(3000) },
+      }),
+      resolvePayloadLimits({ maxInvocationBytes: 2000 })
+    );
+
+    expect(byteSize(result)).toBeLessThanOrEqual(2000);
+    expect(result.truncated).toEqual(expect.arrayContaining(['output', 'input']));
+  });
+});
+
+describe('safeStringify', () => {
+  it('should serialize cycles and BigInts instead of throwing', () => {
+    const value: Record<string, unknown> = { id: 1n, tags: ['a'] };
+    value.self = value;
+
+    expect(safeStringify(value)).toBe('{"id":"1","tags":["a"],"self":"[Circular]"}');
+    expect(byteSize(value)).toBe(43);
+  });
+
+  it('should keep shared references that are not cycles', () => {
+    const shared = { a: 1 };
+
+    expect(safeStringify({ left: shared, right: shared })).toBe('{"left":{"a":1},"right":{"a":1}}');
+  });
+});
+
+describe('splitIntoBatches', () => {
+  it('should split by count', () => {
+    const invocations = Array.from({ length: 5 }, (_, i) => createInvocation({ invocationId: `inv-${i}` }));
+
+    const batches = splitIntoBatches(invocations, 2, Infinity);
+
+    expect(batches.map(b => b.length)).toEqual([2, 2, 1]);
+  });
+
+  it('should split by serialized size', () => {
+    const big = createInvocation({ input: { data: 'x'.repeat(600) } });
+    const small = createInvocation();
+
+    const batches = splitIntoBatches([small, big, big, small], 100, 1000);
+
+    expect(batches.map(b => b.length)).toEqual([2, 2]);
+    for (const batch of batches) {
+      expect(byteSize(batch)).toBeLessThanOrEqual(1000);
+    }
+  });
+
+  it('should put an invocation larger than the budget in its own batch', () => {
+    const huge = createInvocation({ input: { data: 'x'.repeat(2000) } });
+    const small = createInvocation();
+
+    const batches = splitIntoBatches([small, huge, small], 100, 1000);
+
+    expect(batches).toEqual([[small], [huge], [small]]);
+  });
+
+  it('should keep the records of one trace together', () => {
+    const traceId = '4bf92f3577b34da6a3ce929d0e0e4736';
+    const single = createInvocation();
+    const trace = ['root', 'db', 'api'].map(toolName => createInvocation({ toolName, traceId }));
+
+    expect(splitIntoBatches([single, single, ...trace], 4, Infinity)).toEqual([[single, single], trace]);
+    expect(splitIntoBatches(trace, 2, Infinity)).toEqual([trace]);
+  });
+
+  it('should split a trace that does not fit the byte budget', () => {
+    const traceId = '4bf92f3577b34da6a3ce929d0e0e4736';
+    const trace = [0, 1, 2].map(i => createInvocation({ invocationId: `inv-${i}`, traceId, input: { data: 'x'.repeat(250) } }));
+
+    expect(splitIntoBatches(trace, 100, 1000).map(b => b.length)).toEqual([2, 1]);
+  });
+});
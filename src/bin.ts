@@ -0,0 +1,18 @@
+#!/usr/bin/env node
+/**
+ * Entry point for the `emcy` command
+ */
+
+import { main } from './cli.js';
+
+const controller = new AbortController();
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  // Once, so a second Ctrl-C exits immediately
+  process.once(signal, () => controller.abort());
+}
+
+process.exitCode = await main(process.argv.slice(2), {
+  stdout: line => process.stdout.write(line + '\n'),
+  stderr: line => process.stderr.write(line + '\n'),
+  signal: controller.signal,
+});
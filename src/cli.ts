@@ -0,0 +1,324 @@
+/**
+ * The `emcy` command line
+ *
+ * `emcy dev-server` runs the local ingest server; `emcy tail` and
+ * `emcy stats` read the JSONL file it writes, or one written by
+ * `JsonlFileExporter`.
+ */
+
+import * as fsp from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { DevServer, DEFAULT_DEV_FILE, DEFAULT_DEV_PORT } from './devserver.js';
+import { formatInvocation } from './exporters.js';
+import { LatencyHistogram } from './stats.js';
+import type { TelemetryRecord } from './types.js';
+
+const FOLLOW_INTERVAL = 500;
+
+const USAGE = `Usage: emcy <command> [options]
+
+Commands:
+  dev-server   Accept telemetry locally, print it and append it to a file
+    -p, --port <port>            Port to listen on (default: ${DEFAULT_DEV_PORT})
+        --host <host>            Interface to bind (default: 127.0.0.1)
+    -f, --file <path>            File to append to (default: ${DEFAULT_DEV_FILE})
+        --api-key <key>          Only accept this API key
+        --fail-rate <0..1>       Fraction of batches to fail
+        --fail-status <status>   Status for failed batches (default: 503)
+        --rate-limit-rate <0..1> Fraction of batches to answer with 429
+        --retry-after <seconds>  Retry-After sent with 429s (default: 1)
+        --latency <ms>           Delay before answering each request
+
+  tail         Print the most recent invocations
+    -f, --file <path>            File to read (default: ${DEFAULT_DEV_FILE})
+    -n, --lines <count>          Number of invocations to print (default: 10)
+        --follow                 Keep printing new invocations
+        --tool <name>            Only this tool
+        --errors                 Only failed invocations
+        --json                   Print full records as JSON
+
+  stats        Summarise calls, errors and latency per tool
+    -f, --file <path>            File to read (default: ${DEFAULT_DEV_FILE})
+        --since <duration>       Only invocations in the last 30s, 15m, 2h, 1d...
+        --tool <name>            Only this tool
+        --json                   Print the summary as JSON`;
+
+export interface CliIO {
+  stdout(line: string): void;
+  stderr(line: string): void;
+  /** Stops long-running commands (`dev-server`, `tail --follow`) */
+  signal: AbortSignal;
+}
+
+/**
+ * Thrown for bad arguments; the message is printed with the usage hint
+ */
+class UsageError extends Error {}
+
+/**
+ * Run a command. Resolves with the process exit code.
+ */
+export async function main(argv: string[], io: CliIO): Promise<number> {
+  const [command, ...args] = argv;
+  try {
+    switch (command) {
+      case 'dev-server':
+        return await devServer(args, io);
+      case 'tail':
+        return await tail(args, io);
+      case 'stats':
+        return await stats(args, io);
+      case undefined:
+      case 'help':
+      case '--help':
+      case '-h':
+        io.stdout(USAGE);
+        return command === undefined ? 1 : 0;
+      default:
+        throw new UsageError(`Unknown command: ${command}`);
+    }
+  } catch (error) {
+    if (error instanceof UsageError || isParseArgsError(error)) {
+      io.stderr(`[emcy] ${(error as Error).message}\nRun "emcy help" for usage.`);
+      return 1;
+    }
+    io.stderr(`[emcy] ${error instanceof Error ? error.message : String(error)}`);
+    return 1;
+  }
+}
+
+async function devServer(args: string[], io: CliIO): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      port: { type: 'string', short: 'p' },
+      host: { type: 'string' },
+      file: { type: 'string', short: 'f' },
+      'api-key': { type: 'string' },
+      'fail-rate': { type: 'string' },
+      'fail-status': { type: 'string' },
+      'rate-limit-rate': { type: 'string' },
+      'retry-after': { type: 'string' },
+      latency: { type: 'string' },
+    },
+  });
+
+  const server = new DevServer({
+    port: parseNumber(values.port, 'port', 0, 65535),
+    host: values.host,
+    file: values.file,
+    apiKey: values['api-key'],
+    failRate: parseNumber(values['fail-rate'], 'fail-rate', 0, 1),
+    failStatus: parseNumber(values['fail-status'], 'fail-status', 400, 599),
+    rateLimitRate: parseNumber(values['rate-limit-rate'], 'rate-limit-rate', 0, 1),
+    retryAfter: parseNumber(values['retry-after'], 'retry-after', 0),
+    latency: parseNumber(values.latency, 'latency', 0),
+    write: io.stdout,
+  });
+
+  const url = await server.listen();
+  io.stdout(`[emcy] Dev server listening on ${url}`);
+  io.stdout(`[emcy] Writing invocations to ${values.file ?? DEFAULT_DEV_FILE}`);
+  io.stdout(`[emcy] Point the SDK at it with EMCY_TELEMETRY_URL=${url}`);
+
+  await aborted(io.signal);
+  await server.close();
+  io.stdout(`[emcy] Received ${server.received} invocations`);
+  return 0;
+}
+
+async function tail(args: string[], io: CliIO): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      file: { type: 'string', short: 'f' },
+      lines: { type: 'string', short: 'n' },
+      follow: { type: 'boolean' },
+      tool: { type: 'string' },
+      errors: { type: 'boolean' },
+      json: { type: 'boolean' },
+    },
+  });
+  const file = values.file ?? DEFAULT_DEV_FILE;
+  const lines = parseNumber(values.lines, 'lines', 0) ?? 10;
+  const include = (invocation: TelemetryRecord) =>
+    (!values.tool || invocation.toolName === values.tool) && (!values.errors || !invocation.success);
+  const print = (invocation: TelemetryRecord) =>
+    io.stdout(values.json ? JSON.stringify(invocation) : formatInvocation(invocation));
+
+  const { invocations, size } = await readInvocations(file, !values.follow);
+  const recent = invocations.filter(include);
+  recent.slice(Math.max(0, recent.length - lines)).forEach(print);
+  if (!values.follow) return 0;
+
+  // Poll rather than watch, so it behaves the same across platforms and when the file is replaced
+  let offset = size;
+  let partial = '';
+  let reading = false;
+  const timer = setInterval(async () => {
+    if (reading) return;
+    reading = true;
+    const handle = await fsp.open(file, 'r').catch(() => null);
+    if (!handle) {
+      reading = false;
+      return;
+    }
+    try {
+      const { size: current } = await handle.stat();
+      if (current < offset) {
+        offset = 0;
+        partial = '';
+      }
+      if (current === offset) return;
+
+      const buffer = Buffer.alloc(current - offset);
+      await handle.read(buffer, 0, buffer.length, offset);
+      offset = current;
+      const text = partial + buffer.toString('utf8');
+      const complete = text.lastIndexOf('\n') + 1;
+      partial = text.slice(complete);
+      parseLines(text.slice(0, complete)).filter(include).forEach(print);
+    } catch (error) {
+      io.stderr(`[emcy] Failed to read ${file}: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      await handle.close();
+      reading = false;
+    }
+  }, FOLLOW_INTERVAL);
+
+  await aborted(io.signal);
+  clearInterval(timer);
+  return 0;
+}
+
+async function stats(args: string[], io: CliIO): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      file: { type: 'string', short: 'f' },
+      since: { type: 'string' },
+      tool: { type: 'string' },
+      json: { type: 'boolean' },
+    },
+  });
+
+  const since = values.since === undefined ? undefined : Date.now() - parseDuration(values.since);
+  const { invocations } = await readInvocations(values.file ?? DEFAULT_DEV_FILE, true);
+
+  // Child spans are left out, as in getStats()
+  const tools = new Map<string, { count: number; errors: number; latency: LatencyHistogram }>();
+  for (const invocation of invocations) {
+    if (invocation.parentInvocationId) continue;
+    if (values.tool && invocation.toolName !== values.tool) continue;
+    if (since !== undefined && Date.parse(invocation.timestamp) < since) continue;
+
+    let tool = tools.get(invocation.toolName);
+    if (!tool) {
+      tool = { count: 0, errors: 0, latency: new LatencyHistogram() };
+      tools.set(invocation.toolName, tool);
+    }
+    tool.count++;
+    if (!invocation.success) tool.errors++;
+    tool.latency.record(invocation.duration);
+  }
+
+  const summary = [...tools]
+    .sort(([, a], [, b]) => b.count - a.count)
+    .map(([toolName, { count, errors, latency }]) => ({
+      toolName,
+      count,
+      errors,
+      errorRate: errors / count,
+      latency: latency.summary(),
+    }));
+
+  if (values.json) {
+    io.stdout(JSON.stringify(summary, null, 2));
+    return 0;
+  }
+  if (summary.length === 0) {
+    io.stdout('[emcy] No invocations');
+    return 0;
+  }
+
+  const rows = [
+    ['tool', 'calls', 'errors', 'error %', 'p50', 'p95', 'p99', 'max'],
+    ...summary.map(({ toolName, count, errors, errorRate, latency }) => [
+      toolName,
+      String(count),
+      String(errors),
+      (errorRate * 100).toFixed(1),
+      `${latency.p50}ms`,
+      `${latency.p95}ms`,
+      `${latency.p99}ms`,
+      `${latency.max}ms`,
+    ]),
+  ];
+  const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+  for (const row of rows) {
+    io.stdout(row.map((cell, column) => column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column])).join('  '));
+  }
+  return 0;
+}
+
+/**
+ * Parse a JSONL file of invocations, skipping lines that aren't records.
+ * A missing file reads as empty unless `required` is set.
+ */
+async function readInvocations(file: string, required: boolean): Promise<{ invocations: TelemetryRecord[]; size: number }> {
+  let text: string;
+  try {
+    text = await fsp.readFile(file, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    if (required) {
+      throw new UsageError(`${file} does not exist. Start "emcy dev-server" or pass --file.`);
+    }
+    return { invocations: [], size: 0 };
+  }
+  return { invocations: parseLines(text), size: Buffer.byteLength(text) };
+}
+
+function parseLines(text: string): TelemetryRecord[] {
+  const invocations: TelemetryRecord[] = [];
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const record = JSON.parse(line);
+      if (record && typeof record.toolName === 'string') invocations.push(record);
+    } catch {
+      // Skip lines cut off by a crash or written by something else
+    }
+  }
+  return invocations;
+}
+
+function parseNumber(value: string | undefined, option: string, min: number, max = Infinity): number | undefined {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (value.trim() === '' || !Number.isFinite(number) || number < min || number > max) {
+    const range = max === Infinity ? `at least ${min}` : `between ${min} and ${max}`;
+    throw new UsageError(`--${option} must be a number ${range}, got "${value}"`);
+  }
+  return number;
+}
+
+const DURATION_UNITS: Record<string, number> = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 };
+
+function parseDuration(value: string): number {
+  const match = /^(\d+(?:\.\d+)?)([smhd])$/.exec(value.trim());
+  if (!match) {
+    throw new UsageError(`--since must be a duration such as 30s, 15m, 2h or 1d, got "${value}"`);
+  }
+  return Number(match[1]) * DURATION_UNITS[match[2]];
+}
+
+function aborted(signal: AbortSignal): Promise<void> {
+  if (signal.aborted) return Promise.resolve();
+  return new Promise(resolve => signal.addEventListener('abort', () => resolve(), { once: true }));
+}
+
+function isParseArgsError(error: unknown): boolean {
+  return typeof (error as { code?: unknown })?.code === 'string'
+    && (error as { code: string }).code.startsWith('ERR_PARSE_ARGS_');
+}
@@ -0,0 +1,328 @@
+/**
+ * Configuration resolution and validation
+ *
+ * Explicit options take precedence over `EMCY_*` environment variables,
+ * which take precedence over a JSON config file.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { EmcyConfig, ResolveConfigOptions } from './types.js';
+
+const DEFAULT_CONFIG_FILE = 'emcy.config.json';
+
+/**
+ * Config fields that can be set from a JSON file. Functions, regular
+ * expressions and exporter instances can only be passed in code.
+ */
+const FILE_KEYS = new Set<string>([
+  'apiKey',
+  'enabled',
+  'endpoint',
+  'mcpServerId',
+  'batchSize',
+  'flushInterval',
+  'debug',
+  'outputPreviewLength',
+  'redaction',
+  'limits',
+  'spool',
+  'maxQueueSize',
+  'maxInFlightBatches',
+  'requestTimeout',
+  'shutdownHooks',
+  'shutdownTimeout',
+  'overflowPolicy',
+  'sampling',
+  'retry',
+  'circuitBreaker',
+  'stats',
+  'otlp',
+]);
+
+type EnvParser = (value: string, field: string, variable: string) => unknown;
+
+const ENV_VARS: Record<string, [keyof EmcyConfig, EnvParser]> = {
+  EMCY_API_KEY: ['apiKey', value => value],
+  EMCY_ENABLED: ['enabled', parseBoolean],
+  EMCY_TELEMETRY_URL: ['endpoint', value => value],
+  EMCY_MCP_SERVER_ID: ['mcpServerId', value => value],
+  EMCY_DEBUG: ['debug', parseBoolean],
+  EMCY_BATCH_SIZE: ['batchSize', parseNumber],
+  EMCY_FLUSH_INTERVAL: ['flushInterval', parseNumber],
+};
+
+const OVERFLOW_POLICIES = ['dropOldest', 'dropNewest', 'dropSuccessesFirst'];
+const OTLP_PROTOCOLS = ['http/json', 'http/protobuf'];
+
+/**
+ * Thrown for a config value with the wrong type or out of range.
+ * `source` names where the value came from: `options`, an environment
+ * variable or a config file path.
+ */
+export class EmcyConfigError extends Error {
+  readonly field: string;
+  readonly source: string;
+
+  constructor(field: string, source: string, message: string) {
+    super(`[emcy] Invalid ${field}${source === 'options' ? '' : ` from ${source}`}: ${message}`);
+    this.name = 'EmcyConfigError';
+    this.field = field;
+    this.source = source;
+  }
+}
+
+/**
+ * Merge explicit options, environment variables and the config file into
+ * one validated config.
+ */
+export function resolveConfig(options: ResolveConfigOptions = {}): EmcyConfig {
+  const { configFile, env = process.env, ...explicit } = options;
+  const sources: Record<string, string> = {};
+
+  const fromFile = loadConfigFile(configFile ?? env.EMCY_CONFIG_FILE, configFile !== undefined || !!env.EMCY_CONFIG_FILE);
+  for (const key of Object.keys(fromFile.config)) {
+    sources[key] = fromFile.path!;
+  }
+
+  const fromEnv: Record<string, unknown> = {};
+  for (const [variable, [key, parse]] of Object.entries(ENV_VARS)) {
+    const value = env[variable];
+    if (value === undefined || value === '') continue;
+    fromEnv[key] = parse(value, key, variable);
+    sources[key] = variable;
+  }
+
+  const fromOptions: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(explicit)) {
+    if (value === undefined) continue;
+    fromOptions[key] = value;
+    sources[key] = 'options';
+  }
+
+  const config = { ...fromFile.config, ...fromEnv, ...fromOptions } as EmcyConfig;
+  validateConfig(config, sources);
+  return config;
+}
+
+/**
+ * Check types and ranges, throwing an `EmcyConfigError` for the first
+ * invalid value.
+ */
+export function validateConfig(config: EmcyConfig, sources: Record<string, string> = {}): void {
+  const fail = (field: string, message: string): never => {
+    throw new EmcyConfigError(field, sources[field.split('.')[0]] ?? 'options', message);
+  };
+
+  checkType(config.apiKey, 'string', 'apiKey', fail);
+  checkType(config.mcpServerId, 'string', 'mcpServerId', fail);
+  checkType(config.enabled, 'boolean', 'enabled', fail);
+  checkType(config.debug, 'boolean', 'debug', fail);
+  checkUrl(config.endpoint, 'endpoint', fail);
+  checkInteger(config.batchSize, 'batchSize', 1, fail);
+  checkInteger(config.maxQueueSize, 'maxQueueSize', 1, fail);
+  checkInteger(config.maxInFlightBatches, 'maxInFlightBatches', 1, fail);
+  checkInteger(config.requestTimeout, 'requestTimeout', 1, fail);
+  checkInteger(config.shutdownTimeout, 'shutdownTimeout', 0, fail);
+  checkType(config.shutdownHooks, 'boolean', 'shutdownHooks', fail);
+  checkInteger(config.outputPreviewLength, 'outputPreviewLength', 0, fail);
+
+  if (config.flushInterval !== undefined
+    && (typeof config.flushInterval !== 'number' || !Number.isFinite(config.flushInterval) || config.flushInterval <= 0)) {
+    fail('flushInterval', `expected a positive number of milliseconds, got ${formatValue(config.flushInterval)}`);
+  }
+
+  if (config.overflowPolicy !== undefined && !OVERFLOW_POLICIES.includes(config.overflowPolicy)) {
+    fail('overflowPolicy', `expected one of ${OVERFLOW_POLICIES.join(', ')}, got ${formatValue(config.overflowPolicy)}`);
+  }
+
+  if (config.limits !== undefined) {
+    checkObject(config.limits, 'limits', fail);
+    for (const [key, value] of Object.entries(config.limits)) {
+      checkInteger(value, `limits.${key}`, 1, fail);
+    }
+  }
+
+  if (config.sampling !== undefined) {
+    checkObject(config.sampling, 'sampling', fail);
+    checkRate(config.sampling.rate, 'sampling.rate', fail);
+    for (const [tool, rate] of Object.entries(config.sampling.tools ?? {})) {
+      checkRate(rate, `sampling.tools.${tool}`, fail);
+    }
+  }
+
+  if (config.retry !== undefined) {
+    checkObject(config.retry, 'retry', fail);
+    checkInteger(config.retry.maxAttempts, 'retry.maxAttempts', 1, fail);
+    checkInteger(config.retry.initialDelayMs, 'retry.initialDelayMs', 0, fail);
+    checkInteger(config.retry.maxDelayMs, 'retry.maxDelayMs', 0, fail);
+    checkInteger(config.retry.maxElapsedMs, 'retry.maxElapsedMs', 0, fail);
+    const statuses = config.retry.retryableStatuses;
+    if (statuses !== undefined
+      && (!Array.isArray(statuses) || !statuses.every(status => Number.isInteger(status) && status >= 100 && status <= 599))) {
+      fail('retry.retryableStatuses', `expected an array of HTTP status codes, got ${formatValue(statuses)}`);
+    }
+  }
+
+  if (config.circuitBreaker !== undefined && config.circuitBreaker !== false) {
+    checkObject(config.circuitBreaker, 'circuitBreaker', fail);
+    checkInteger(config.circuitBreaker.failureThreshold, 'circuitBreaker.failureThreshold', 1, fail);
+    checkInteger(config.circuitBreaker.resetTimeoutMs, 'circuitBreaker.resetTimeoutMs', 1, fail);
+  }
+
+  if (config.stats !== undefined && config.stats !== false) {
+    checkObject(config.stats, 'stats', fail);
+    checkInteger(config.stats.maxWindowMs, 'stats.maxWindowMs', 1, fail);
+    checkInteger(config.stats.bucketMs, 'stats.bucketMs', 1, fail);
+    checkInteger(config.stats.reportInterval, 'stats.reportInterval', 1, fail);
+  }
+
+  if (config.spool !== undefined) {
+    checkObject(config.spool, 'spool', fail);
+    if (typeof config.spool.directory !== 'string' || config.spool.directory === '') {
+      fail('spool.directory', 'expected a directory path');
+    }
+  }
+
+  if (config.otlp !== undefined) {
+    checkObject(config.otlp, 'otlp', fail);
+    checkUrl(config.otlp.endpoint, 'otlp.endpoint', fail);
+    if (config.otlp.protocol !== undefined && !OTLP_PROTOCOLS.includes(config.otlp.protocol)) {
+      fail('otlp.protocol', `expected one of ${OTLP_PROTOCOLS.join(', ')}, got ${formatValue(config.otlp.protocol)}`);
+    }
+  }
+
+  for (const hook of ['beforeLog', 'beforeSend', 'classifyResult'] as const) {
+    checkType(config[hook], 'function', hook, fail);
+  }
+
+  if (config.ids !== undefined) {
+    checkObject(config.ids, 'ids', fail);
+    for (const method of ['invocationId', 'traceId', 'spanId'] as const) {
+      checkType(config.ids[method], 'function', `ids.${method}`, fail);
+    }
+  }
+
+  if (config.clock !== undefined) {
+    checkObject(config.clock, 'clock', fail);
+    checkType(config.clock.now, 'function', 'clock.now', fail);
+  }
+
+  if (config.logger !== undefined) {
+    checkObject(config.logger, 'logger', fail);
+    for (const method of ['debug', 'warn', 'error'] as const) {
+      checkType(config.logger[method], 'function', `logger.${method}`, fail);
+    }
+  }
+
+  if (config.exporters !== undefined) {
+    if (!Array.isArray(config.exporters)) {
+      fail('exporters', 'expected an array of exporters');
+    }
+    config.exporters.forEach((exporter, index) => {
+      if (!exporter || typeof exporter.send !== 'function') {
+        fail(`exporters.${index}`, 'expected an object with a send(batch) method');
+      }
+    });
+  }
+}
+
+function loadConfigFile(
+  file: string | false | undefined,
+  explicit: boolean
+): { path?: string; config: Record<string, unknown> } {
+  if (file === false) return { config: {} };
+
+  const resolved = path.resolve(file || DEFAULT_CONFIG_FILE);
+  let text: string;
+  try {
+    text = fs.readFileSync(resolved, 'utf8');
+  } catch (error) {
+    // The default file is optional, an explicitly named one is not
+    if (!explicit && (error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { config: {} };
+    }
+    throw new EmcyConfigError('configFile', resolved, `could not be read (${(error as Error).message})`);
+  }
+
+  let config: unknown;
+  try {
+    config = JSON.parse(text);
+  } catch (error) {
+    throw new EmcyConfigError('configFile', resolved, `is not valid JSON (${(error as Error).message})`);
+  }
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    throw new EmcyConfigError('configFile', resolved, 'expected a JSON object');
+  }
+
+  for (const key of Object.keys(config)) {
+    if (!FILE_KEYS.has(key)) {
+      throw new EmcyConfigError(key, resolved, `unknown option, expected one of ${[...FILE_KEYS].join(', ')}`);
+    }
+  }
+  return { path: resolved, config: config as Record<string, unknown> };
+}
+
+function parseBoolean(value: string, field: string, variable: string): boolean {
+  const normalized = value.trim().toLowerCase();
+  if (['true', '1', 'yes', 'on'].includes(normalized)) return true;
+  if (['false', '0', 'no', 'off'].includes(normalized)) return false;
+  throw new EmcyConfigError(field, variable, `expected true or false, got ${formatValue(value)}`);
+}
+
+function parseNumber(value: string, field: string, variable: string): number {
+  const parsed = Number(value.trim());
+  if (value.trim() === '' || Number.isNaN(parsed)) {
+    throw new EmcyConfigError(field, variable, `expected a number, got ${formatValue(value)}`);
+  }
+  return parsed;
+}
+
+type Fail = (field: string, message: string) => never;
+
+function checkType(value: unknown, type: 'string' | 'boolean' | 'function', field: string, fail: Fail): void {
+  if (value !== undefined && typeof value !== type) {
+    fail(field, `expected a ${type}, got ${formatValue(value)}`);
+  }
+}
+
+function checkObject(value: unknown, field: string, fail: Fail): void {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    fail(field, `expected an object, got ${formatValue(value)}`);
+  }
+}
+
+function checkInteger(value: unknown, field: string, min: number, fail: Fail): void {
+  if (value === undefined) return;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min) {
+    fail(field, `expected ${min === 0 ? 'a non-negative' : 'a positive'} integer, got ${formatValue(value)}`);
+  }
+}
+
+function checkRate(value: unknown, field: string, fail: Fail): void {
+  if (value === undefined) return;
+  if (typeof value !== 'number' || !(value >= 0 && value <= 1)) {
+    fail(field, `expected a number between 0 and 1, got ${formatValue(value)}`);
+  }
+}
+
+function checkUrl(value: unknown, field: string, fail: Fail): void {
+  if (value === undefined) return;
+  if (typeof value !== 'string') {
+    fail(field, `expected a URL string, got ${formatValue(value)}`);
+  }
+
+  let url: URL | undefined;
+  try {
+    url = new URL(value as string);
+  } catch {
+    // Reported below
+  }
+  if (!url || (url.protocol !== 'http:' && url.protocol !== 'https:')) {
+    fail(field, `expected an http(s) URL such as https://api.emcy.ai/v1/telemetry, got ${formatValue(value)}`);
+  }
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === 'string' ? JSON.stringify(value) : String(value);
+}
@@ -0,0 +1,165 @@
+/**
+ * Async context for nested spans and invocation identity
+ *
+ * Tracks the invocation or span currently running, so `span()` calls made
+ * anywhere inside a traced tool become its children, and the session, agent
+ * and user set with `withContext()`, so every record inside picks them up.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomBytes } from 'node:crypto';
+import { formatTraceparent, type RemoteTraceContext } from './tracecontext.js';
+import type { AttributeValue, BaseRecord, Clock, IdGenerator, InvocationContext, Span, TelemetryRecord } from './types.js';
+
+/**
+ * State shared by every record of one trace. Child records are held until
+ * the root finishes, then logged together with the root's sampling decision.
+ */
+export class TraceScope {
+  readonly traceId: string;
+  readonly traceFlags: string;
+  readonly traceState?: string;
+  /** Span id of the remote caller, when the trace was continued from one */
+  readonly remoteParentSpanId?: string;
+  readonly children: TelemetryRecord[] = [];
+  finished = false;
+  /** Weight from sampling the root; null when the trace was sampled out */
+  sampleWeight?: number | null;
+
+  constructor(remote?: RemoteTraceContext | null, ids: IdGenerator = randomIds) {
+    this.traceId = remote?.traceId ?? ids.traceId();
+    this.traceFlags = remote?.traceFlags ?? '01';
+    this.traceState = remote?.traceState;
+    this.remoteParentSpanId = remote?.parentSpanId;
+  }
+}
+
+export class ActiveSpan implements Span {
+  readonly invocationId: string;
+  readonly spanId: string;
+  readonly scope: TraceScope;
+  readonly attributes: Record<string, AttributeValue>;
+  error?: BaseRecord['error'];
+  /** Clock time of the first `markFirstResponse()` call */
+  firstResponseAt?: number;
+  private clock: Clock;
+
+  constructor(
+    scope: TraceScope,
+    attributes?: Record<string, AttributeValue>,
+    ids: IdGenerator = randomIds,
+    clock: Clock = systemClock
+  ) {
+    this.invocationId = ids.invocationId();
+    this.spanId = ids.spanId();
+    this.scope = scope;
+    this.attributes = { ...attributes };
+    this.clock = clock;
+  }
+
+  get traceId(): string {
+    return this.scope.traceId;
+  }
+
+  get traceparent(): string {
+    return formatTraceparent(this.scope.traceId, this.spanId, this.scope.traceFlags);
+  }
+
+  setAttribute(key: string, value: AttributeValue): void {
+    this.attributes[key] = value;
+  }
+
+  setAttributes(attributes: Record<string, AttributeValue>): void {
+    Object.assign(this.attributes, attributes);
+  }
+
+  setError(error: { message: string; code?: string }): void {
+    this.error = { message: error.message, code: error.code };
+  }
+
+  markFirstResponse(): void {
+    this.firstResponseAt ??= this.clock.now();
+  }
+}
+
+interface Frame {
+  span?: ActiveSpan;
+  context: InvocationContext;
+}
+
+export class ContextManager {
+  private storage = new AsyncLocalStorage<Frame>();
+
+  /**
+   * The invocation or span currently running, if any
+   */
+  currentSpan(): ActiveSpan | undefined {
+    return this.storage.getStore()?.span;
+  }
+
+  /**
+   * Identity and attributes of the enclosing `withContext()` scopes
+   */
+  current(): InvocationContext {
+    return this.storage.getStore()?.context ?? {};
+  }
+
+  /**
+   * Run fn with context merged over the current one
+   */
+  withContext<T>(context: InvocationContext, fn: () => T): T {
+    const frame = this.storage.getStore();
+    return this.storage.run({ span: frame?.span, context: mergeContext(frame?.context, context) }, fn);
+  }
+
+  runSpan<T>(span: ActiveSpan, fn: () => T): T {
+    return this.storage.run({ span, context: this.current() }, fn);
+  }
+}
+
+/**
+ * Merge an inner context over an outer one. Undefined values don't
+ * override, and attributes are merged key by key.
+ */
+export function mergeContext(outer: InvocationContext = {}, inner: InvocationContext): InvocationContext {
+  return {
+    sessionId: inner.sessionId ?? outer.sessionId,
+    agentId: inner.agentId ?? outer.agentId,
+    userId: inner.userId ?? outer.userId,
+    attributes: outer.attributes || inner.attributes
+      ? { ...outer.attributes, ...inner.attributes }
+      : undefined,
+  };
+}
+
+const suppression = new AsyncLocalStorage<boolean>();
+
+/**
+ * Run fn without recording outbound requests it makes. Used for the SDK's
+ * own exports, so sending telemetry never produces more telemetry.
+ */
+export function suppressInstrumentation<T>(fn: () => T): T {
+  return suppression.run(true, fn);
+}
+
+export function isInstrumentationSuppressed(): boolean {
+  return suppression.getStore() === true;
+}
+
+export function newTraceId(): string {
+  return randomBytes(16).toString('hex');
+}
+
+export function newSpanId(): string {
+  return randomBytes(8).toString('hex');
+}
+
+export const randomIds: IdGenerator = {
+  invocationId: () => crypto.randomUUID(),
+  traceId: newTraceId,
+  spanId: newSpanId,
+};
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+};
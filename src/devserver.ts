@@ -0,0 +1,190 @@
+/**
+ * Local ingest server for development
+ *
+ * Accepts `TelemetryBatch` posts the way the Emcy backend does, checking
+ * them against the wire schema. Prints each invocation as it arrives and
+ * appends it to a JSONL file that `emcy tail` and `emcy stats` read.
+ * Failures, rate limiting and latency can be simulated to exercise the
+ * SDK's retry behaviour.
+ */
+
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { JsonlFileExporter, formatInvocation } from './exporters.js';
+import { SCHEMA_VERSION, isSupportedSchemaVersion, validateBatch } from './schema.js';
+import type { TelemetryBatch } from './types.js';
+
+export const DEFAULT_DEV_PORT = 4319;
+export const DEFAULT_DEV_FILE = 'emcy-dev.jsonl';
+
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+export interface DevServerOptions {
+  /** Port to listen on; 0 picks a free one (default: 4319) */
+  port?: number;
+  /** Interface to bind (default: 127.0.0.1) */
+  host?: string;
+  /** JSONL file invocations are appended to (default: emcy-dev.jsonl) */
+  file?: string;
+  /** Only accept this API key. Any bearer token is accepted when unset. */
+  apiKey?: string;
+  /** Fraction of batches (0..1) answered with `failStatus` */
+  failRate?: number;
+  /** Status for simulated failures (default: 503) */
+  failStatus?: number;
+  /** Fraction of batches (0..1) answered with 429 */
+  rateLimitRate?: number;
+  /** `Retry-After` seconds sent with simulated 429s (default: 1) */
+  retryAfter?: number;
+  /** Milliseconds to wait before answering each request */
+  latency?: number;
+  /** Where to print received invocations and rejections (default: stdout) */
+  write?: (line: string) => void;
+  /** Source of randomness for simulated failures */
+  random?: () => number;
+}
+
+export class DevServer {
+  private server: http.Server;
+  private store: JsonlFileExporter;
+  private write: (line: string) => void;
+  private options: DevServerOptions;
+  /** Invocations accepted since the server started */
+  received = 0;
+
+  constructor(options: DevServerOptions = {}) {
+    this.options = options;
+    this.store = new JsonlFileExporter({ path: options.file ?? DEFAULT_DEV_FILE });
+    this.write = options.write ?? (line => process.stdout.write(line + '\n'));
+    this.server = http.createServer((request, response) => {
+      this.handle(request, response).catch(error => {
+        this.write(`[emcy] Failed to handle request: ${error instanceof Error ? error.message : String(error)}`);
+        reply(response, 500, { error: 'Internal error' });
+      });
+    });
+  }
+
+  /**
+   * Start listening. Resolves with the URL to use as the SDK `endpoint`.
+   */
+  listen(): Promise<string> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(this.options.port ?? DEFAULT_DEV_PORT, this.options.host ?? '127.0.0.1', () => {
+        this.server.off('error', reject);
+        resolve(this.url);
+      });
+    });
+  }
+
+  get url(): string {
+    const address = this.server.address() as AddressInfo | null;
+    if (!address) return '';
+    const host = address.family === 'IPv6' ? `[${address.address}]` : address.address;
+    return `http://${host}:${address.port}/api/v1/telemetry`;
+  }
+
+  close(): Promise<void> {
+    return new Promise(resolve => {
+      this.server.closeAllConnections();
+      this.server.close(() => resolve());
+    });
+  }
+
+  private async handle(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+    if (request.method !== 'POST') {
+      reply(response, 405, { error: 'Only POST is supported' });
+      return;
+    }
+
+    const body = await readBody(request);
+    if (this.options.latency) {
+      await new Promise(resolve => setTimeout(resolve, this.options.latency));
+    }
+
+    if (body === null) {
+      this.reject(response, 413, `Body larger than ${MAX_BODY_BYTES} bytes`);
+      return;
+    }
+
+    const token = /^Bearer (.+)$/.exec(request.headers.authorization ?? '')?.[1];
+    if (!token) {
+      this.reject(response, 401, 'Missing bearer token');
+      return;
+    }
+    if (this.options.apiKey !== undefined && token !== this.options.apiKey) {
+      this.reject(response, 401, 'Invalid API key');
+      return;
+    }
+
+    // One draw, so the two rates add up rather than overlap
+    const draw = (this.options.random ?? Math.random)();
+    const rateLimitRate = this.options.rateLimitRate ?? 0;
+    if (draw < rateLimitRate) {
+      const retryAfter = this.options.retryAfter ?? 1;
+      response.setHeader('Retry-After', String(retryAfter));
+      this.reject(response, 429, `Simulated rate limit, retry after ${retryAfter}s`);
+      return;
+    }
+    if (draw < rateLimitRate + (this.options.failRate ?? 0)) {
+      this.reject(response, this.options.failStatus ?? 503, 'Simulated failure');
+      return;
+    }
+
+    let batch: unknown;
+    try {
+      batch = JSON.parse(body);
+    } catch {
+      this.reject(response, 400, 'Body is not valid JSON');
+      return;
+    }
+
+    const errors = validateBatch(batch);
+    if (errors.length > 0) {
+      this.reject(response, 400, 'Invalid batch', errors);
+      return;
+    }
+
+    const accepted = batch as TelemetryBatch;
+    if (!isSupportedSchemaVersion(accepted.schemaVersion)) {
+      this.reject(response, 400, `Unsupported schemaVersion ${accepted.schemaVersion}, expected ${SCHEMA_VERSION.split('.')[0]}.x`);
+      return;
+    }
+    if (accepted.apiKey !== token) {
+      this.reject(response, 401, 'apiKey does not match the Authorization header');
+      return;
+    }
+
+    await this.store.send(accepted);
+    for (const invocation of accepted.invocations) {
+      this.write(formatInvocation(invocation));
+    }
+    this.received += accepted.invocations.length;
+    reply(response, 200, { accepted: accepted.invocations.length });
+  }
+
+  private reject(response: http.ServerResponse, status: number, message: string, errors?: string[]): void {
+    this.write(`[emcy] Rejected batch with ${status}: ${message}${errors ? `\n  ${errors.join('\n  ')}` : ''}`);
+    reply(response, status, errors ? { error: message, errors } : { error: message });
+  }
+}
+
+/**
+ * Read the request body, or null once it exceeds the size limit
+ */
+async function readBody(request: http.IncomingMessage): Promise<string | null> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) return null;
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+function reply(response: http.ServerResponse, status: number, body: unknown): void {
+  if (response.headersSent) return;
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
@@ -0,0 +1,51 @@
+/**
+ * Minimal typed event emitter
+ *
+ * Unlike Node's `EventEmitter`, an `error` event without listeners is
+ * ignored instead of thrown, and a throwing listener never reaches the
+ * code that emitted the event.
+ */
+
+import type { Logger } from './types.js';
+
+type Listener<T> = (payload: T) => void;
+
+export class TypedEmitter<Events extends object> {
+  private listeners = new Map<keyof Events, Set<Listener<never>>>();
+  private logger: Logger;
+
+  constructor(logger: Logger) {
+    this.logger = logger;
+  }
+
+  /**
+   * Returns a function that removes the listener
+   */
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  off<K extends keyof Events>(event: K, listener: Listener<Events[K]>): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    for (const listener of this.listeners.get(event) ?? []) {
+      try {
+        (listener as Listener<Events[K]>)(payload);
+      } catch (error) {
+        this.logger.error(`[emcy] ${String(event)} listener threw:`, error);
+      }
+    }
+  }
+}
+
+export function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
@@ -0,0 +1,64 @@
+/**
+ * Built-in exporters for local destinations
+ */
+
+import * as fsp from 'node:fs/promises';
+import * as path from 'node:path';
+import type { ConsoleExporterOptions, Exporter, JsonlFileExporterOptions, TelemetryBatch, TelemetryRecord } from './types.js';
+
+/**
+ * One-line summary of an invocation, as printed by the console exporter
+ */
+export function formatInvocation(invocation: TelemetryRecord): string {
+  const outcome = invocation.success ? 'ok' : `error: ${invocation.error?.message ?? 'unknown'}`;
+  return `[emcy] ${invocation.timestamp} ${invocation.toolName} ${invocation.duration}ms ${outcome}`;
+}
+
+/**
+ * Prints one line per invocation. Writes to stderr by default, since stdout
+ * carries the protocol for stdio MCP servers.
+ */
+export class ConsoleExporter implements Exporter {
+  readonly name = 'console';
+  private format: 'pretty' | 'json';
+  private write: (line: string) => void;
+
+  constructor(options: ConsoleExporterOptions = {}) {
+    this.format = options.format ?? 'pretty';
+    this.write = options.write ?? (line => process.stderr.write(line + '\n'));
+  }
+
+  async send(batch: TelemetryBatch): Promise<boolean> {
+    for (const invocation of batch.invocations) {
+      if (this.format === 'json') {
+        this.write(JSON.stringify(invocation));
+        continue;
+      }
+
+      this.write(formatInvocation(invocation));
+    }
+    return true;
+  }
+}
+
+/**
+ * Appends each invocation as a JSON line to a file. The batch envelope,
+ * including the API key, is not written.
+ */
+export class JsonlFileExporter implements Exporter {
+  readonly name = 'jsonl';
+  private file: string;
+
+  constructor(options: JsonlFileExporterOptions) {
+    this.file = options.path;
+  }
+
+  async send(batch: TelemetryBatch): Promise<boolean> {
+    if (batch.invocations.length === 0) return true;
+
+    await fsp.mkdir(path.dirname(this.file), { recursive: true });
+    const lines = batch.invocations.map(invocation => JSON.stringify(invocation)).join('\n') + '\n';
+    await fsp.appendFile(this.file, lines, 'utf8');
+    return true;
+  }
+}
@@ -3,11 +3,87 @@
  */
 
 export { EmcyTelemetry } from './telemetry.js';
+export { EmcyConfigError, resolveConfig } from './config.js';
 export { TelemetryTransport } from './transport.js';
+export { OtlpExporter, toOtlpTraceRequest } from './otlp.js';
+export { ConsoleExporter, JsonlFileExporter } from './exporters.js';
+export { instrumentClient, instrumentServer } from './instrument.js';
+export { instrumentFetch, instrumentHttp } from './outbound.js';
+export { parseTraceparent, formatTraceparent } from './tracecontext.js';
+export type { RemoteTraceContext } from './tracecontext.js';
+export { Redactor, DEFAULT_REDACT_KEYS } from './redaction.js';
+export { DiskSpool } from './spool.js';
+export { Sampler } from './sampling.js';
+export { consoleLogger } from './logger.js';
+export { DevServer } from './devserver.js';
+export type { DevServerOptions } from './devserver.js';
+export {
+  SCHEMA_VERSION,
+  EmcyValidationError,
+  validateBatch,
+  validateInvocation,
+  isSupportedSchemaVersion,
+} from './schema.js';
+export type { JsonSchema } from './schema.js';
+export { TELEMETRY_BATCH_SCHEMA, TELEMETRY_RECORD_SCHEMA, TOOL_INVOCATION_SCHEMA } from './schema.generated.js';
+export { LatencyHistogram, LATENCY_BOUNDS } from './stats.js';
 
 export type {
   EmcyConfig,
+  ResolveConfigOptions,
   ToolInvocation,
+  BaseRecord,
+  ResourceInvocation,
+  PromptInvocation,
+  RequestInvocation,
+  SessionEvent,
+  TelemetryRecord,
+  RecordKind,
+  SessionInfo,
+  SessionOptions,
   TelemetryBatch,
+  TraceOptions,
+  Span,
+  SpanOptions,
+  AttributeValue,
+  InvocationContext,
+  ResultClassification,
+  ResultClassifier,
+  BeforeLogHook,
+  BeforeSendHook,
+  Logger,
+  TelemetryEvents,
+  BatchEvent,
+  BatchFailedEvent,
+  DroppedEvent,
+  ContentBlockSummary,
+  RedactionConfig,
+  RedactionRules,
+  RedactionPattern,
+  PayloadLimits,
+  TruncatedValue,
+  SpoolConfig,
+  OverflowPolicy,
+  DropReason,
+  DropCounts,
+  SamplingConfig,
+  RetryPolicy,
+  CircuitBreakerConfig,
+  CircuitState,
+  TransportOptions,
+  StatsConfig,
+  StatsSnapshot,
+  ToolStats,
+  ToolAggregate,
+  LatencySummary,
+  IdGenerator,
+  Clock,
+  OtlpExporterOptions,
+  Exporter,
+  ExportResult,
+  ConsoleExporterOptions,
+  JsonlFileExporterOptions,
+  InstrumentServerOptions,
+  OutboundInstrumentationOptions,
 } from './types.js';
 
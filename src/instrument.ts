@@ -0,0 +1,314 @@
+/**
+ * Automatic instrumentation for MCP servers
+ *
+ * Hooks the request handler table of an `@modelcontextprotocol/sdk` Server
+ * (or McpServer) so every handled request is traced without touching the
+ * handlers themselves, along with the requests the server sends to the
+ * client and the session's start and end. On the other end, wraps the
+ * call methods of a `Client` to record calls to servers we don't run. The
+ * SDK is only used structurally, so it remains an optional peer dependency.
+ */
+
+import type { EmcyTelemetry } from './telemetry.js';
+import type { InstrumentServerOptions, SessionInfo, Span, TraceOptions } from './types.js';
+
+const DEFAULT_METHODS = [
+  'initialize',
+  'tools/call',
+  'tools/list',
+  'resources/read',
+  'resources/subscribe',
+  'resources/unsubscribe',
+  'resources/list',
+  'resources/templates/list',
+  'prompts/get',
+  'prompts/list',
+  'completion/complete',
+  // Sent by the server to the client
+  'sampling/createMessage',
+  'elicitation/create',
+  'roots/list',
+];
+
+const RESOURCE_METHODS = new Set(['resources/read', 'resources/subscribe', 'resources/unsubscribe']);
+
+const INSTRUMENTED = Symbol.for('emcy.instrumented');
+
+interface McpRequest {
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+interface McpRequestExtra {
+  requestId?: string | number;
+  sessionId?: string;
+}
+
+type RequestHandler = (request: McpRequest, extra?: McpRequestExtra) => Promise<unknown>;
+
+type SendRequest = (request: McpRequest, ...rest: unknown[]) => Promise<unknown>;
+
+interface ProtocolLike {
+  _requestHandlers: Map<string, RequestHandler>;
+  _onclose?: () => void;
+  request?: SendRequest;
+  transport?: { sessionId?: string };
+  [INSTRUMENTED]?: boolean;
+}
+
+/**
+ * Record every MCP request handled by `server` with `telemetry`.
+ * Accepts a low-level `Server` or a high-level `McpServer`.
+ *
+ * Handlers registered before and after this call are both covered.
+ * Calling it twice on the same server is a no-op.
+ */
+export function instrumentServer<S extends object>(
+  server: S,
+  telemetry: EmcyTelemetry,
+  options?: InstrumentServerOptions
+): S {
+  const protocol = resolveProtocol(server);
+  if (protocol[INSTRUMENTED]) return server;
+  protocol[INSTRUMENTED] = true;
+
+  const methods = new Set(options?.methods ?? DEFAULT_METHODS);
+  const handlers = protocol._requestHandlers;
+  const originalSet = handlers.set.bind(handlers);
+
+  const wrapEntry = (method: string, handler: RequestHandler): RequestHandler =>
+    methods.has(method) ? wrapHandler(method, handler, telemetry) : handler;
+
+  for (const [method, handler] of handlers) {
+    originalSet(method, wrapEntry(method, handler));
+  }
+
+  handlers.set = (method: string, handler: RequestHandler) =>
+    originalSet(method, wrapEntry(method, handler));
+
+  const originalRequest = protocol.request;
+  if (typeof originalRequest === 'function') {
+    protocol.request = function (this: ProtocolLike, request, ...rest) {
+      const send = () => originalRequest.call(this, request, ...rest);
+      if (!methods.has(request?.method)) return send();
+      return telemetry.traceRequest(request.method, send, { input: inputOf(withoutMeta(request.params)) });
+    };
+  }
+
+  // Read the session id before the protocol forgets its transport
+  const originalClose = protocol._onclose;
+  if (methods.has('initialize') && typeof originalClose === 'function') {
+    protocol._onclose = function (this: ProtocolLike) {
+      telemetry.endSession({ sessionId: this.transport?.sessionId });
+      return originalClose.call(this);
+    };
+  }
+
+  return server;
+}
+
+interface RequestOptionsLike {
+  onprogress?: (progress: unknown) => void;
+  [key: string]: unknown;
+}
+
+type ClientCall = (params: Record<string, unknown>, ...rest: unknown[]) => Promise<unknown>;
+
+interface ClientLike {
+  callTool: ClientCall;
+  readResource: ClientCall;
+  getPrompt: ClientCall;
+  getServerVersion?: () => { name?: unknown; version?: unknown } | undefined;
+  [INSTRUMENTED]?: boolean;
+}
+
+/**
+ * Record every `callTool`, `readResource` and `getPrompt` made through an
+ * MCP `client` with `telemetry`, marked `side: 'client'` and with the
+ * server's advertised name and version.
+ *
+ * Calls carry the trace to the server in `_meta.traceparent`. Calling it
+ * twice on the same client is a no-op.
+ */
+export function instrumentClient<C extends object>(client: C, telemetry: EmcyTelemetry): C {
+  if (!isClientLike(client)) {
+    throw new TypeError('[emcy] instrumentClient() expects an MCP Client instance');
+  }
+  if (client[INSTRUMENTED]) return client;
+  client[INSTRUMENTED] = true;
+
+  const { callTool, readResource, getPrompt } = client;
+
+  client.callTool = function (this: ClientLike, params, resultSchema, options) {
+    const args = params?.arguments;
+    return traceCall(this, 'tools/call', params, options, telemetry, (call, recordOptions) =>
+      telemetry.trace(typeof params?.name === 'string' ? params.name : 'tools/call', call, {
+        ...recordOptions,
+        input: args && typeof args === 'object' ? args as Record<string, unknown> : undefined,
+      }),
+      (params, requestOptions) => callTool.call(this, params, resultSchema, requestOptions)
+    );
+  };
+
+  client.readResource = function (this: ClientLike, params, options) {
+    return traceCall(this, 'resources/read', params, options, telemetry, (call, recordOptions) =>
+      typeof params?.uri === 'string'
+        ? telemetry.traceResource(params.uri, call, recordOptions)
+        : telemetry.traceRequest('resources/read', call, recordOptions),
+      (params, requestOptions) => readResource.call(this, params, requestOptions)
+    );
+  };
+
+  client.getPrompt = function (this: ClientLike, params, options) {
+    const args = params?.arguments as Record<string, unknown> | undefined;
+    return traceCall(this, 'prompts/get', params, options, telemetry, (call, recordOptions) =>
+      typeof params?.name === 'string'
+        ? telemetry.tracePrompt(params.name, call, { ...recordOptions, input: args })
+        : telemetry.traceRequest('prompts/get', call, { ...recordOptions, input: args }),
+      (params, requestOptions) => getPrompt.call(this, params, requestOptions)
+    );
+  };
+
+  return client;
+}
+
+/**
+ * Trace one client call, propagating the trace in `_meta` and marking the
+ * first response on the result, or on the first progress notification when
+ * the caller asked for progress. Asking for it ourselves would change the
+ * request the server sees.
+ */
+function traceCall(
+  client: ClientLike,
+  method: string,
+  params: Record<string, unknown> | undefined,
+  options: unknown,
+  telemetry: EmcyTelemetry,
+  trace: (call: (span: Span) => Promise<unknown>, options: TraceOptions) => Promise<unknown>,
+  send: (params: Record<string, unknown>, options: RequestOptionsLike) => Promise<unknown>
+): Promise<unknown> {
+  const server = client.getServerVersion?.();
+  const recordOptions: TraceOptions = {
+    method,
+    side: 'client',
+    targetServer: typeof server?.name === 'string'
+      ? { name: server.name, version: typeof server.version === 'string' ? server.version : undefined }
+      : undefined,
+  };
+
+  return trace(async span => {
+    const requestOptions = (options ?? {}) as RequestOptionsLike;
+    const { onprogress } = requestOptions;
+    const meta = params?._meta as Record<string, unknown> | undefined;
+    try {
+      return await send(
+        { ...params, _meta: { traceparent: span.traceparent, ...meta } },
+        onprogress
+          ? {
+            ...requestOptions,
+            onprogress: progress => {
+              span.markFirstResponse();
+              onprogress(progress);
+            },
+          }
+          : requestOptions
+      );
+    } finally {
+      span.markFirstResponse();
+    }
+  }, recordOptions);
+}
+
+function isClientLike(value: object): value is ClientLike {
+  const client = value as Partial<ClientLike>;
+  return typeof client.callTool === 'function'
+    && typeof client.readResource === 'function'
+    && typeof client.getPrompt === 'function';
+}
+
+function resolveProtocol(server: object): ProtocolLike {
+  if (isProtocolLike(server)) return server;
+
+  const inner = (server as { server?: unknown }).server;
+  if (inner && typeof inner === 'object' && isProtocolLike(inner)) return inner;
+
+  throw new TypeError('[emcy] instrumentServer() expects an MCP Server or McpServer instance');
+}
+
+function isProtocolLike(value: object): value is ProtocolLike {
+  return (value as { _requestHandlers?: unknown })._requestHandlers instanceof Map;
+}
+
+function wrapHandler(method: string, handler: RequestHandler, telemetry: EmcyTelemetry): RequestHandler {
+  if (method === 'initialize') {
+    return async (request, extra) => {
+      const result = await handler(request, extra);
+      telemetry.startSession(describeSession(request, result), { sessionId: extra?.sessionId });
+      return result;
+    };
+  }
+
+  return (request, extra) => {
+    const params = withoutMeta(request.params) ?? {};
+    const options = traceOptions(method, request, extra);
+    const run = () => handler(request, extra);
+
+    if (method === 'tools/call') {
+      const args = params.arguments;
+      return telemetry.trace(typeof params.name === 'string' ? params.name : method, run, {
+        ...options,
+        input: args && typeof args === 'object' ? args as Record<string, unknown> : undefined,
+      });
+    }
+    if (RESOURCE_METHODS.has(method) && typeof params.uri === 'string') {
+      return telemetry.traceResource(params.uri, run, options);
+    }
+    if (method === 'prompts/get' && typeof params.name === 'string') {
+      const args = params.arguments as Record<string, unknown> | undefined;
+      return telemetry.tracePrompt(params.name, run, { ...options, input: args });
+    }
+    return telemetry.traceRequest(method, run, { ...options, input: inputOf(params) });
+  };
+}
+
+function traceOptions(method: string, request: McpRequest, extra?: McpRequestExtra): TraceOptions {
+  const options: TraceOptions = {
+    method,
+    requestId: extra?.requestId,
+    sessionId: extra?.sessionId,
+  };
+
+  // Clients propagate W3C trace context through the request's _meta
+  const meta = request.params?._meta;
+  if (meta && typeof meta === 'object') {
+    const { traceparent, tracestate } = meta as Record<string, unknown>;
+    if (typeof traceparent === 'string') options.traceparent = traceparent;
+    if (typeof tracestate === 'string') options.tracestate = tracestate;
+  }
+  return options;
+}
+
+/**
+ * Client and protocol version from an `initialize` request and its result
+ */
+function describeSession(request: McpRequest, result: unknown): SessionInfo {
+  const clientInfo = request.params?.clientInfo as { name?: unknown; version?: unknown } | undefined;
+  const agreed = (result as { protocolVersion?: unknown } | undefined)?.protocolVersion;
+  const requested = request.params?.protocolVersion;
+  const protocolVersion = typeof agreed === 'string' ? agreed : requested;
+  return {
+    clientName: typeof clientInfo?.name === 'string' ? clientInfo.name : undefined,
+    clientVersion: typeof clientInfo?.version === 'string' ? clientInfo.version : undefined,
+    protocolVersion: typeof protocolVersion === 'string' ? protocolVersion : undefined,
+  };
+}
+
+function inputOf(params?: Record<string, unknown>): Record<string, unknown> | undefined {
+  return params && Object.keys(params).length > 0 ? params : undefined;
+}
+
+function withoutMeta(params?: Record<string, unknown>): Record<string, unknown> | undefined {
+  if (!params) return undefined;
+  const { _meta, ...rest } = params;
+  return rest;
+}
@@ -0,0 +1,117 @@
+/**
+ * Process lifecycle handling shared by every `EmcyTelemetry` instance
+ *
+ * One set of `SIGINT`/`SIGTERM`/`beforeExit`/`exit` listeners is installed
+ * while at least one instance is registered, and removed once the last one
+ * shuts down. On a signal, instances get a bounded time to flush, then the
+ * signal is raised again so the process exits as it would without the SDK.
+ */
+
+import type { Logger } from './types.js';
+
+const SIGNALS = ['SIGINT', 'SIGTERM'] as const;
+
+export interface LifecycleRegistration {
+  /** Flush and stop; given at most `timeout` ms when the process is exiting */
+  shutdown(): Promise<void>;
+  /** Persist what's left synchronously, for when shutdown can't finish */
+  persistSync(): void;
+  timeout: number;
+  logger: Logger;
+}
+
+export class LifecycleManager {
+  private registrations = new Set<LifecycleRegistration>();
+  private installed = false;
+  private exiting = false;
+
+  /**
+   * Returns a function that unregisters, removing the process listeners
+   * once nothing is registered
+   */
+  register(registration: LifecycleRegistration): () => void {
+    this.registrations.add(registration);
+    this.install();
+
+    return () => {
+      this.registrations.delete(registration);
+      if (this.registrations.size === 0) {
+        this.uninstall();
+      }
+    };
+  }
+
+  private install(): void {
+    if (this.installed) return;
+    this.installed = true;
+    for (const signal of SIGNALS) {
+      process.on(signal, this.onSignal);
+    }
+    process.on('beforeExit', this.onBeforeExit);
+    process.on('exit', this.onExit);
+  }
+
+  private uninstall(): void {
+    if (!this.installed) return;
+    this.installed = false;
+    for (const signal of SIGNALS) {
+      process.off(signal, this.onSignal);
+    }
+    process.off('beforeExit', this.onBeforeExit);
+    process.off('exit', this.onExit);
+  }
+
+  private onSignal = async (signal: NodeJS.Signals): Promise<void> => {
+    // Listening suppresses Node's default exit, so only re-raise when nobody else handles the signal
+    const handledElsewhere = process.listenerCount(signal) > 1;
+
+    // A second signal while flushing means "exit now"
+    if (!this.exiting) {
+      this.exiting = true;
+      await this.shutdownAll();
+    }
+
+    this.uninstall();
+    this.exiting = false;
+    if (!handledElsewhere) {
+      process.kill(process.pid, signal);
+    }
+  };
+
+  private onBeforeExit = (): void => {
+    // Instances unregister in shutdown(), so this doesn't re-arm the event loop forever
+    if (this.exiting) return;
+    void this.shutdownAll();
+  };
+
+  private onExit = (): void => {
+    for (const registration of this.registrations) {
+      registration.persistSync();
+    }
+  };
+
+  private async shutdownAll(): Promise<void> {
+    await Promise.all([...this.registrations].map(async registration => {
+      let timer: NodeJS.Timeout | undefined;
+      const finished = await Promise.race([
+        registration.shutdown().then(() => true, error => {
+          registration.logger.error('[emcy] Shutdown failed:', error);
+          return true;
+        }),
+        new Promise<false>(resolve => {
+          timer = setTimeout(() => resolve(false), registration.timeout);
+          timer.unref();
+        }),
+      ]);
+      clearTimeout(timer);
+
+      if (!finished) {
+        registration.logger.warn(`[emcy] Shutdown did not finish within ${registration.timeout}ms`);
+        registration.persistSync();
+      }
+    }));
+  }
+}
+
+/** The manager every `EmcyTelemetry` registers with */
+export const lifecycle = new LifecycleManager();
@@ -0,0 +1,15 @@
+/**
+ * Where the SDK writes its own diagnostics
+ */
+
+import type { Logger } from './types.js';
+
+/**
+ * Writes everything to stderr, since stdout carries the protocol for stdio
+ * MCP servers
+ */
+export const consoleLogger: Logger = {
+  debug: (message, ...args) => console.error(message, ...args),
+  warn: (message, ...args) => console.error(message, ...args),
+  error: (message, ...args) => console.error(message, ...args),
+};
@@ -0,0 +1,352 @@
+/**
+ * OpenTelemetry OTLP/HTTP exporter
+ *
+ * Maps each `TelemetryRecord` to a span following the GenAI and MCP
+ * semantic conventions and sends it to an OpenTelemetry Collector, as
+ * OTLP/JSON or OTLP/protobuf. Encoding is self-contained, so no
+ * OpenTelemetry packages are required.
+ */
+
+import { createHash } from 'node:crypto';
+import { TelemetryTransport } from './transport.js';
+import type { ExportResult, OtlpExporterOptions, RecordKind, TelemetryBatch, TelemetryRecord } from './types.js';
+
+const DEFAULT_OTLP_ENDPOINT = 'http://localhost:4318/v1/traces';
+const SCOPE_NAME = '@emcy/sdk';
+
+const SPAN_KIND_INTERNAL = 1;
+const SPAN_KIND_SERVER = 2;
+const SPAN_KIND_CLIENT = 3;
+const STATUS_CODE_UNSET = 0;
+const STATUS_CODE_ERROR = 2;
+
+/** Method assumed for records without one. Requests always carry theirs; sessions have none. */
+const DEFAULT_METHODS: Record<RecordKind, string | undefined> = {
+  tool: 'tools/call',
+  resource: 'resources/read',
+  prompt: 'prompts/get',
+  request: undefined,
+  session: undefined,
+};
+
+type AnyValue =
+  | { stringValue: string }
+  | { boolValue: boolean }
+  | { intValue: string }
+  | { doubleValue: number };
+
+interface KeyValue {
+  key: string;
+  value: AnyValue;
+}
+
+interface OtlpSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: KeyValue[];
+  events: { timeUnixNano: string; name: string; attributes: KeyValue[] }[];
+  status: { code: number; message?: string };
+}
+
+interface OtlpResourceSpans {
+  resource: { attributes: KeyValue[] };
+  scopeSpans: { scope: { name: string }; spans: OtlpSpan[] }[];
+}
+
+export interface OtlpTraceRequest {
+  resourceSpans: OtlpResourceSpans[];
+}
+
+export class OtlpExporter extends TelemetryTransport {
+  readonly name: string = 'otlp';
+  private protocol: 'http/json' | 'http/protobuf';
+  private headers: Record<string, string>;
+
+  constructor(options: OtlpExporterOptions = {}) {
+    super(options.endpoint || DEFAULT_OTLP_ENDPOINT, options.debug, options);
+    this.protocol = options.protocol ?? 'http/json';
+    this.headers = options.headers ?? {};
+  }
+
+  async send(batch: TelemetryBatch): Promise<boolean | ExportResult> {
+    // Aggregates have no span representation, so there is nothing to export
+    if (batch.invocations.length === 0) return true;
+    return super.send(batch);
+  }
+
+  protected encode(batch: TelemetryBatch): { headers: Record<string, string>; body: string | Uint8Array } {
+    const request = toOtlpTraceRequest(batch);
+
+    if (this.protocol === 'http/protobuf') {
+      return {
+        headers: { 'Content-Type': 'application/x-protobuf', ...this.headers },
+        body: encodeTraceRequest(request),
+      };
+    }
+    return {
+      headers: { 'Content-Type': 'application/json', ...this.headers },
+      body: JSON.stringify(request),
+    };
+  }
+}
+
+/**
+ * Convert a batch to an OTLP `ExportTraceServiceRequest` in its JSON form.
+ * Invocations are grouped into one resource per server name and version.
+ */
+export function toOtlpTraceRequest(batch: TelemetryBatch): OtlpTraceRequest {
+  const resources = new Map<string, OtlpResourceSpans>();
+
+  for (const invocation of batch.invocations) {
+    const metadata = invocation.metadata ?? {};
+    const mcpServerId = metadata.mcpServerId ?? batch.mcpServerId;
+    const key = JSON.stringify([metadata.serverName, metadata.serverVersion, mcpServerId]);
+
+    let resource = resources.get(key);
+    if (!resource) {
+      resource = {
+        resource: {
+          attributes: attributes({
+            'service.name': metadata.serverName ?? 'unknown_service',
+            'service.version': metadata.serverVersion,
+            'emcy.mcp_server.id': mcpServerId,
+          }),
+        },
+        scopeSpans: [{ scope: { name: SCOPE_NAME }, spans: [] }],
+      };
+      resources.set(key, resource);
+    }
+    resource.scopeSpans[0].spans.push(toSpan(invocation));
+  }
+
+  return { resourceSpans: [...resources.values()] };
+}
+
+function toSpan(invocation: TelemetryRecord): OtlpSpan {
+  const end = Date.parse(invocation.timestamp) || Date.now();
+  const start = end - invocation.duration;
+  const method = invocation.method ?? DEFAULT_METHODS[invocation.kind ?? 'tool'];
+  const metadata = invocation.metadata ?? {};
+  const ids = deriveIds(invocation.invocationId, invocation.traceId);
+  const isChild = invocation.parentInvocationId !== undefined;
+  const parentSpanId = invocation.parentSpanId
+    ?? (isChild ? deriveIds(invocation.parentInvocationId!).spanId : undefined);
+
+  const span: OtlpSpan = {
+    traceId: ids.traceId,
+    spanId: invocation.spanId ?? ids.spanId,
+    ...(parentSpanId && { parentSpanId }),
+    name: isChild || !method || method === invocation.toolName ? invocation.toolName : `${method} ${invocation.toolName}`,
+    kind: isChild ? SPAN_KIND_INTERNAL : invocation.side === 'client' ? SPAN_KIND_CLIENT : SPAN_KIND_SERVER,
+    startTimeUnixNano: toUnixNano(start),
+    endTimeUnixNano: toUnixNano(end),
+    attributes: attributes({
+      ...invocation.attributes,
+      'gen_ai.operation.name': !isChild && method === 'tools/call' ? 'execute_tool' : undefined,
+      'gen_ai.tool.name': !isChild && method === 'tools/call' ? invocation.toolName : undefined,
+      'gen_ai.tool.call.id': isChild ? undefined : invocation.invocationId,
+      'gen_ai.agent.id': metadata.agentId,
+      'mcp.method.name': isChild ? undefined : method,
+      'mcp.resource.uri': invocation.kind === 'resource' ? invocation.uri : undefined,
+      'gen_ai.prompt.name': invocation.kind === 'prompt' ? invocation.promptName : undefined,
+      'mcp.protocol.version': invocation.kind === 'session' ? invocation.protocolVersion : undefined,
+      'emcy.session.event': invocation.kind === 'session' ? invocation.event : undefined,
+      'emcy.client.name': invocation.kind === 'session' ? invocation.client?.name : undefined,
+      'emcy.client.version': invocation.kind === 'session' ? invocation.client?.version : undefined,
+      'emcy.server.name': invocation.targetServer?.name,
+      'emcy.server.version': invocation.targetServer?.version,
+      'emcy.time_to_first_response_ms': invocation.timeToFirstResponse,
+      'mcp.session.id': metadata.sessionId,
+      'jsonrpc.request.id': invocation.requestId !== undefined ? String(invocation.requestId) : undefined,
+      'user.id': metadata.userId,
+      'error.type': invocation.success ? undefined : invocation.error?.code ?? '_OTHER',
+      'emcy.sample_weight': invocation.sampleWeight,
+    }),
+    events: [],
+    status: invocation.success
+      ? { code: STATUS_CODE_UNSET }
+      : { code: STATUS_CODE_ERROR, message: invocation.error?.message },
+  };
+
+  if (!invocation.success && invocation.error) {
+    span.events.push({
+      timeUnixNano: toUnixNano(end),
+      name: 'exception',
+      attributes: attributes({
+        'exception.message': invocation.error.message,
+        'exception.type': invocation.error.code,
+        'exception.stacktrace': invocation.error.stack,
+      }),
+    });
+  }
+  return span;
+}
+
+/**
+ * Trace id from the invocation's trace, or else its UUID when possible.
+ * Span id from the hash of the invocation id, for records without one.
+ */
+function deriveIds(invocationId: string, traceId?: string): { traceId: string; spanId: string } {
+  const digest = createHash('sha256').update(invocationId).digest('hex');
+  const hex = (traceId ?? invocationId).replace(/-/g, '').toLowerCase();
+  return {
+    traceId: /^[0-9a-f]{32}$/.test(hex) ? hex : digest.slice(0, 32),
+    spanId: digest.slice(32, 48),
+  };
+}
+
+function toUnixNano(ms: number): string {
+  return (BigInt(Math.round(ms)) * 1_000_000n).toString();
+}
+
+function attributes(values: Record<string, string | number | boolean | undefined>): KeyValue[] {
+  const result: KeyValue[] = [];
+  for (const [key, value] of Object.entries(values)) {
+    if (value === undefined) continue;
+    result.push({ key, value: toAnyValue(value) });
+  }
+  return result;
+}
+
+function toAnyValue(value: string | number | boolean): AnyValue {
+  if (typeof value === 'string') return { stringValue: value };
+  if (typeof value === 'boolean') return { boolValue: value };
+  return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+}
+
+// --- Protobuf encoding (opentelemetry/proto/collector/trace/v1) ---
+
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_LENGTH_DELIMITED = 2;
+
+/**
+ * Minimal protobuf writer covering the field types OTLP traces use.
+ */
+class ProtoWriter {
+  private bytes: number[] = [];
+
+  varint(field: number, value: number | bigint): this {
+    this.tag(field, WIRE_VARINT);
+    this.rawVarint(BigInt.asUintN(64, BigInt(value)));
+    return this;
+  }
+
+  fixed64(field: number, value: bigint): this {
+    this.tag(field, WIRE_FIXED64);
+    const buffer = Buffer.alloc(8);
+    buffer.writeBigUInt64LE(value);
+    this.bytes.push(...buffer);
+    return this;
+  }
+
+  double(field: number, value: number): this {
+    this.tag(field, WIRE_FIXED64);
+    const buffer = Buffer.alloc(8);
+    buffer.writeDoubleLE(value);
+    this.bytes.push(...buffer);
+    return this;
+  }
+
+  string(field: number, value: string): this {
+    return this.raw(field, Buffer.from(value, 'utf8'));
+  }
+
+  hex(field: number, value: string): this {
+    return this.raw(field, Buffer.from(value, 'hex'));
+  }
+
+  message(field: number, write: (writer: ProtoWriter) => void): this {
+    const writer = new ProtoWriter();
+    write(writer);
+    return this.raw(field, writer.finish());
+  }
+
+  finish(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+
+  private raw(field: number, data: Uint8Array): this {
+    this.tag(field, WIRE_LENGTH_DELIMITED);
+    this.rawVarint(BigInt(data.length));
+    for (const byte of data) this.bytes.push(byte);
+    return this;
+  }
+
+  private tag(field: number, wireType: number): void {
+    this.rawVarint(BigInt((field << 3) | wireType));
+  }
+
+  private rawVarint(value: bigint): void {
+    while (value > 0x7fn) {
+      this.bytes.push(Number(value & 0x7fn) | 0x80);
+      value >>= 7n;
+    }
+    this.bytes.push(Number(value));
+  }
+}
+
+/**
+ * Encode an `ExportTraceServiceRequest` as protobuf.
+ */
+export function encodeTraceRequest(request: OtlpTraceRequest): Uint8Array {
+  const writer = new ProtoWriter();
+  for (const resourceSpans of request.resourceSpans) {
+    writer.message(1, rs => {
+      rs.message(1, resource => writeAttributes(resource, 1, resourceSpans.resource.attributes));
+      for (const scopeSpans of resourceSpans.scopeSpans) {
+        rs.message(2, ss => {
+          ss.message(1, scope => scope.string(1, scopeSpans.scope.name));
+          for (const span of scopeSpans.spans) {
+            ss.message(2, w => writeSpan(w, span));
+          }
+        });
+      }
+    });
+  }
+  return writer.finish();
+}
+
+function writeSpan(writer: ProtoWriter, span: OtlpSpan): void {
+  writer
+    .hex(1, span.traceId)
+    .hex(2, span.spanId);
+  if (span.parentSpanId) writer.hex(4, span.parentSpanId);
+  writer
+    .string(5, span.name)
+    .varint(6, span.kind)
+    .fixed64(7, BigInt(span.startTimeUnixNano))
+    .fixed64(8, BigInt(span.endTimeUnixNano));
+  writeAttributes(writer, 9, span.attributes);
+
+  for (const event of span.events) {
+    writer.message(11, w => {
+      w.fixed64(1, BigInt(event.timeUnixNano)).string(2, event.name);
+      writeAttributes(w, 3, event.attributes);
+    });
+  }
+
+  writer.message(15, status => {
+    if (span.status.message) status.string(2, span.status.message);
+    if (span.status.code) status.varint(3, span.status.code);
+  });
+}
+
+function writeAttributes(writer: ProtoWriter, field: number, attributes: KeyValue[]): void {
+  for (const { key, value } of attributes) {
+    writer.message(field, kv => {
+      kv.string(1, key);
+      kv.message(2, any => {
+        if ('stringValue' in value) any.string(1, value.stringValue);
+        else if ('boolValue' in value) any.varint(2, value.boolValue ? 1 : 0);
+        else if ('intValue' in value) any.varint(3, BigInt(value.intValue));
+        else any.double(4, value.doubleValue);
+      });
+    });
+  }
+}
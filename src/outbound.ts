@@ -0,0 +1,342 @@
+/**
+ * Automatic instrumentation for outbound HTTP requests
+ *
+ * Records each request a traced tool makes through global `fetch` or
+ * `node:http`/`node:https` as a child span, with method, host, path
+ * template, status and latency, and propagates the trace to the callee with
+ * W3C `traceparent`/`tracestate` headers. Requests made outside a traced
+ * tool, and the SDK's own exports, are passed through untouched.
+ */
+
+import http from 'node:http';
+import https from 'node:https';
+import { syncBuiltinESMExports } from 'node:module';
+import { isInstrumentationSuppressed } from './context.js';
+import { DEFAULT_REDACT_KEYS, normalizeKey } from './redaction.js';
+import type { EmcyTelemetry } from './telemetry.js';
+import type { AttributeValue, OutboundInstrumentationOptions, Span } from './types.js';
+
+const INSTRUMENTED = Symbol.for('emcy.instrumented');
+const REDACTED = '[REDACTED]';
+
+type Fetch = typeof fetch;
+type AnyFunction = (...args: unknown[]) => unknown;
+
+interface OutboundRequest {
+  method: string;
+  url: URL;
+  headers: Record<string, string | string[] | number | undefined>;
+}
+
+/**
+ * Record `fetch` calls made inside traced tools. Returns a function that
+ * restores the original `fetch`. Calling it again while instrumented is a
+ * no-op.
+ */
+export function instrumentFetch(
+  telemetry: EmcyTelemetry,
+  options: OutboundInstrumentationOptions = {}
+): () => void {
+  const original = globalThis.fetch as Fetch & { [INSTRUMENTED]?: boolean };
+  if (original[INSTRUMENTED]) return () => {};
+
+  const recorder = new OutboundRecorder(telemetry, options);
+  const instrumented = Object.assign(
+    async function fetch(input: Parameters<Fetch>[0], init?: Parameters<Fetch>[1]): Promise<Response> {
+      const request = recorder.shouldRecord() ? describeFetch(input, init) : null;
+      if (!request || !recorder.accepts(request)) return original(input, init);
+
+      return recorder.record(request, async span => {
+        // Propagate the trace without touching the caller's own objects
+        const headers = new Headers(init?.headers ?? (input instanceof Request ? input.headers : undefined));
+        for (const [name, value] of Object.entries(recorder.traceHeaders())) {
+          if (!headers.has(name)) headers.set(name, value);
+        }
+
+        const response = await original(input, { ...init, headers });
+        recorder.setStatus(span, response.status);
+        return response;
+      });
+    },
+    { [INSTRUMENTED]: true }
+  );
+
+  globalThis.fetch = instrumented;
+  return () => {
+    if (globalThis.fetch === instrumented) {
+      globalThis.fetch = original;
+    }
+  };
+}
+
+/**
+ * Record `http.request`, `http.get`, `https.request` and `https.get` calls
+ * made inside traced tools. Returns a function that restores the originals.
+ */
+export function instrumentHttp(
+  telemetry: EmcyTelemetry,
+  options: OutboundInstrumentationOptions = {}
+): () => void {
+  const modules = [http, https] as unknown as Record<string, AnyFunction>[];
+  if (modules[0].request[INSTRUMENTED as never]) return () => {};
+
+  const recorder = new OutboundRecorder(telemetry, options);
+  const restores = [patchModule(modules[0], 'http:', recorder), patchModule(modules[1], 'https:', recorder)];
+
+  // Keep named ESM imports (`import { request } from 'node:http'`) in sync
+  syncBuiltinESMExports();
+  return () => {
+    restores.forEach(restore => restore());
+    syncBuiltinESMExports();
+  };
+}
+
+function patchModule(module: Record<string, AnyFunction>, protocol: string, recorder: OutboundRecorder): () => void {
+  const originalRequest = module.request;
+  const originalGet = module.get;
+
+  const request = Object.assign(function (this: unknown, ...args: unknown[]): http.ClientRequest {
+    const target = recorder.shouldRecord() ? describeHttpArgs(args, protocol) : null;
+    if (!target || !recorder.accepts(target)) {
+      return originalRequest.apply(this, args) as http.ClientRequest;
+    }
+
+    // span() calls its function synchronously, so the request is created
+    // before returning and anything Node throws reaches the caller as before
+    let clientRequest: http.ClientRequest | undefined;
+    let thrown: unknown;
+    recorder
+      .record(target, span => {
+        try {
+          clientRequest = originalRequest.apply(this, args) as http.ClientRequest;
+        } catch (error) {
+          thrown = error;
+          return Promise.reject(error);
+        }
+        return watch(clientRequest, span, recorder);
+      })
+      .catch(() => {
+        // The caller handles the request's own error event
+      });
+    if (!clientRequest) throw thrown;
+    return clientRequest;
+  }, { [INSTRUMENTED]: true });
+
+  module.request = request;
+  module.get = function (this: unknown, ...args: unknown[]) {
+    const clientRequest = request.apply(this, args);
+    clientRequest.end();
+    return clientRequest;
+  };
+
+  return () => {
+    module.request = originalRequest;
+    module.get = originalGet;
+  };
+}
+
+function injectTraceHeaders(request: http.ClientRequest, headers: Record<string, string>): void {
+  try {
+    for (const [name, value] of Object.entries(headers)) {
+      if (!request.headersSent && request.getHeader(name) === undefined) {
+        request.setHeader(name, value);
+      }
+    }
+  } catch {
+    // Never break the caller's request over propagation
+  }
+}
+
+/**
+ * Settle once the request gets a response, fails or closes
+ */
+function watch(request: http.ClientRequest, span: Span, recorder: OutboundRecorder): Promise<void> {
+  injectTraceHeaders(request, recorder.traceHeaders());
+  return new Promise<void>((resolve, reject) => {
+    observe(request, {
+      response: response => {
+        recorder.setStatus(span, response.statusCode ?? 0);
+        resolve();
+      },
+      error: reject,
+      close: () => {
+        span.setError({ message: 'Request closed before a response' });
+        resolve();
+      },
+    });
+  });
+}
+
+/**
+ * Watch request events by wrapping `emit`. Adding a `response` listener
+ * would change how Node handles responses nobody else listens for.
+ */
+function observe(
+  request: http.ClientRequest,
+  handlers: { response: (response: http.IncomingMessage) => void; error: (error: unknown) => void; close: () => void }
+): void {
+  const emit = request.emit;
+  let settled = false;
+
+  request.emit = function (this: http.ClientRequest, event: string | symbol, ...args: unknown[]) {
+    if (!settled && (event === 'response' || event === 'error' || event === 'close')) {
+      settled = true;
+      if (event === 'response') handlers.response(args[0] as http.IncomingMessage);
+      else if (event === 'error') handlers.error(args[0]);
+      else handlers.close();
+    }
+    return emit.call(this, event, ...args);
+  } as typeof request.emit;
+}
+
+class OutboundRecorder {
+  private telemetry: EmcyTelemetry;
+  private options: OutboundInstrumentationOptions;
+  private redactKeys: Set<string>;
+  private captureHeaders: string[];
+
+  constructor(telemetry: EmcyTelemetry, options: OutboundInstrumentationOptions) {
+    this.telemetry = telemetry;
+    this.options = options;
+    this.redactKeys = new Set([...DEFAULT_REDACT_KEYS, ...(options.redactKeys ?? []).map(normalizeKey)]);
+    this.captureHeaders = (options.captureHeaders ?? []).map(name => name.toLowerCase());
+  }
+
+  /**
+   * Only requests made inside a traced tool, and not by the SDK itself
+   */
+  shouldRecord(): boolean {
+    return !isInstrumentationSuppressed() && this.telemetry.currentSpan() !== undefined;
+  }
+
+  accepts(request: OutboundRequest): boolean {
+    try {
+      return !this.options.ignore?.(request.url);
+    } catch {
+      return true;
+    }
+  }
+
+  record<T>(request: OutboundRequest, fn: (span: Span) => Promise<T>): Promise<T> {
+    const template = this.options.pathTemplate?.(request.url) ?? templatePath(request.url.pathname);
+    const attributes: Record<string, AttributeValue> = {
+      'http.request.method': request.method,
+      'server.address': request.url.hostname,
+      'url.scheme': request.url.protocol.replace(/:$/, ''),
+      'url.template': template,
+    };
+    if (request.url.port) {
+      attributes['server.port'] = Number(request.url.port);
+    }
+    if (request.url.search) {
+      attributes['url.query'] = this.redactQuery(request.url.searchParams);
+    }
+    for (const name of this.captureHeaders) {
+      const value = findHeader(request.headers, name);
+      if (value !== undefined) {
+        attributes[`http.request.header.${name}`] = this.isSecret(name) ? REDACTED : value;
+      }
+    }
+
+    return this.telemetry.span(`${request.method} ${template}`, fn, { attributes });
+  }
+
+  traceHeaders(): Record<string, string> {
+    return this.telemetry.traceHeaders();
+  }
+
+  setStatus(span: Span, status: number): void {
+    span.setAttribute('http.response.status_code', status);
+    if (status >= 400) {
+      span.setError({ message: `HTTP ${status}`, code: `HTTP_${status}` });
+    }
+  }
+
+  private redactQuery(params: URLSearchParams): string {
+    const redacted = new URLSearchParams();
+    for (const [key, value] of params) {
+      redacted.append(key, this.isSecret(key) ? REDACTED : value);
+    }
+    return redacted.toString();
+  }
+
+  private isSecret(name: string): boolean {
+    return this.redactKeys.has(normalizeKey(name));
+  }
+}
+
+function describeFetch(input: Parameters<Fetch>[0], init?: Parameters<Fetch>[1]): OutboundRequest | null {
+  try {
+    const request = input instanceof Request ? input : null;
+    const url = new URL(request ? request.url : String(input));
+    const headers: OutboundRequest['headers'] = {};
+    new Headers(init?.headers ?? request?.headers).forEach((value, key) => {
+      headers[key] = value;
+    });
+    return {
+      method: (init?.method ?? request?.method ?? 'GET').toUpperCase(),
+      url,
+      headers,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse the `(url, options?, callback?)` or `(options, callback?)` forms
+ * of `http.request`.
+ */
+function describeHttpArgs(args: unknown[], defaultProtocol: string): OutboundRequest | null {
+  try {
+    let url: URL;
+    let options: http.RequestOptions = {};
+
+    if (typeof args[0] === 'string' || args[0] instanceof URL) {
+      url = new URL(args[0]);
+      if (args[1] && typeof args[1] === 'object') {
+        options = args[1] as http.RequestOptions;
+      }
+    } else if (args[0] && typeof args[0] === 'object') {
+      options = args[0] as http.RequestOptions;
+      const protocol = options.protocol ?? defaultProtocol;
+      const host = options.hostname ?? options.host ?? 'localhost';
+      const port = options.port ? `:${options.port}` : '';
+      url = new URL(`${protocol}//${host}${port}${options.path ?? '/'}`);
+    } else {
+      return null;
+    }
+
+    return {
+      method: (options.method ?? 'GET').toUpperCase(),
+      url,
+      headers: (options.headers ?? {}) as OutboundRequest['headers'],
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Replace id-like path segments so requests group by endpoint
+ */
+export function templatePath(pathname: string): string {
+  return pathname
+    .split('/')
+    .map(segment =>
+      /^\d+$/.test(segment)
+      || /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(segment)
+      || /^[0-9a-f]{16,}$/i.test(segment)
+        ? '{id}'
+        : segment)
+    .join('/');
+}
+
+function findHeader(headers: OutboundRequest['headers'], name: string): string | undefined {
+  for (const [key, value] of Object.entries(headers)) {
+    if (key.toLowerCase() === name && value !== undefined) {
+      return Array.isArray(value) ? value.join(', ') : String(value);
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,132 @@
+/**
+ * Structured capture of MCP tool results
+ *
+ * Instead of shipping raw results (including base64 images and audio) as
+ * `output.body`, MCP `CallToolResult`s are reduced to a summary of their
+ * content blocks with sizes and short text previews.
+ */
+
+import { byteSize } from './truncation.js';
+import type { BaseRecord, ContentBlockSummary } from './types.js';
+
+export const DEFAULT_PREVIEW_LENGTH = 200;
+
+interface ContentBlock {
+  type: string;
+  text?: unknown;
+  data?: unknown;
+  mimeType?: unknown;
+  uri?: unknown;
+  name?: unknown;
+  size?: unknown;
+  resource?: {
+    uri?: unknown;
+    mimeType?: unknown;
+    text?: unknown;
+    blob?: unknown;
+  };
+}
+
+interface CallToolResultLike {
+  content?: ContentBlock[];
+  structuredContent?: unknown;
+}
+
+/**
+ * Check whether a value has the shape of an MCP `CallToolResult`.
+ */
+export function isCallToolResult(result: unknown): result is CallToolResultLike {
+  if (!result || typeof result !== 'object') return false;
+  const { content, structuredContent } = result as { content?: unknown; structuredContent?: unknown };
+
+  if (Array.isArray(content)) {
+    return content.every(block => !!block && typeof block === 'object' && typeof block.type === 'string');
+  }
+  return content === undefined && structuredContent !== undefined && typeof structuredContent === 'object';
+}
+
+/**
+ * Summarize an MCP `CallToolResult` for `ToolInvocation.output`.
+ */
+export function summarizeCallToolResult(
+  result: CallToolResultLike,
+  previewLength = DEFAULT_PREVIEW_LENGTH
+): NonNullable<BaseRecord['output']> {
+  const blocks = (result.content ?? []).map(block => summarizeBlock(block, previewLength));
+  const contentCounts: Record<string, number> = {};
+  let contentBytes = 0;
+
+  for (const block of blocks) {
+    contentCounts[block.type] = (contentCounts[block.type] ?? 0) + 1;
+    contentBytes += block.bytes;
+  }
+
+  return {
+    content: blocks,
+    contentCounts,
+    contentBytes,
+    ...(result.structuredContent !== undefined && { structuredContent: result.structuredContent }),
+  };
+}
+
+function summarizeBlock(block: ContentBlock, previewLength: number): ContentBlockSummary {
+  switch (block.type) {
+    case 'text':
+      return summarizeText(block.type, asString(block.text), previewLength);
+
+    case 'image':
+    case 'audio':
+      return {
+        type: block.type,
+        bytes: base64Bytes(asString(block.data)),
+        mimeType: asOptionalString(block.mimeType),
+      };
+
+    case 'resource': {
+      const resource = block.resource ?? {};
+      const base = {
+        uri: asOptionalString(resource.uri),
+        mimeType: asOptionalString(resource.mimeType),
+      };
+      if (typeof resource.text === 'string') {
+        return { ...summarizeText(block.type, resource.text, previewLength), ...base };
+      }
+      return { type: block.type, bytes: base64Bytes(asString(resource.blob)), ...base };
+    }
+
+    case 'resource_link':
+      return {
+        type: block.type,
+        bytes: typeof block.size === 'number' ? block.size : 0,
+        uri: asOptionalString(block.uri),
+        mimeType: asOptionalString(block.mimeType),
+      };
+
+    default:
+      return { type: block.type, bytes: byteSize(block) };
+  }
+}
+
+function summarizeText(type: string, text: string, previewLength: number): ContentBlockSummary {
+  const truncated = text.length > previewLength;
+  return {
+    type,
+    bytes: Buffer.byteLength(text, 'utf8'),
+    preview: truncated ? text.slice(0, previewLength) : text,
+    ...(truncated && { truncated }),
+  };
+}
+
+function base64Bytes(data: string): number {
+  if (!data) return 0;
+  const padding = data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0;
+  return Math.floor((data.length * 3) / 4) - padding;
+}
+
+function asString(value: unknown): string {
+  return typeof value === 'string' ? value : '';
+}
+
+function asOptionalString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
@@ -0,0 +1,313 @@
+/**
+ * Per-exporter delivery pipeline
+ *
+ * Every exporter gets its own queue, batching, spool and drop accounting,
+ * so a slow or failing destination never holds back the others.
+ */
+
+import type {
+  BeforeSendHook,
+  DropCounts,
+  DropReason,
+  Exporter,
+  ExportResult,
+  Logger,
+  OverflowPolicy,
+  TelemetryBatch,
+  TelemetryEvents,
+  ToolAggregate,
+  TelemetryRecord,
+} from './types.js';
+import { BoundedQueue } from './queue.js';
+import { suppressInstrumentation } from './context.js';
+import { DiskSpool } from './spool.js';
+import { splitIntoBatches } from './truncation.js';
+import { toError, type TypedEmitter } from './events.js';
+
+/** Aggregates kept while an exporter is unreachable, oldest discarded first */
+const MAX_PENDING_AGGREGATES = 1000;
+
+/**
+ * `rejected` batches were refused for good and are not worth spooling
+ */
+type SendOutcome = 'sent' | 'failed' | 'rejected';
+
+export interface BatchExtras {
+  dropped?: DropCounts;
+  aggregates?: ToolAggregate[];
+}
+
+export interface ExportPipelineOptions {
+  batchSize: number;
+  maxBatchBytes: number;
+  maxQueueSize: number;
+  /** Batches sent concurrently while flushing */
+  maxInFlightBatches: number;
+  overflowPolicy?: OverflowPolicy;
+  spool: DiskSpool | null;
+  debug: boolean;
+  logger: Logger;
+  events: TypedEmitter<TelemetryEvents>;
+  beforeSend?: BeforeSendHook;
+  /** Wrap invocations in a batch envelope */
+  createBatch: (invocations: TelemetryRecord[], extras?: BatchExtras) => TelemetryBatch;
+}
+
+export class ExportPipeline {
+  readonly exporter: Exporter;
+  readonly batchSize: number;
+  private options: ExportPipelineOptions;
+  private queue: BoundedQueue;
+  private spool: DiskSpool | null;
+  private droppedTotal: DropCounts = emptyDropCounts();
+  private droppedUnreported: DropCounts = emptyDropCounts();
+  private pendingAggregates: ToolAggregate[] = [];
+  private activeFlush: Promise<void> | null = null;
+  private nextFlush: Promise<void> | null = null;
+
+  constructor(exporter: Exporter, options: ExportPipelineOptions) {
+    this.exporter = exporter;
+    this.options = options;
+    this.batchSize = exporter.batchSize ?? options.batchSize;
+    this.queue = new BoundedQueue(options.maxQueueSize, options.overflowPolicy);
+    this.spool = options.spool && this.openSpool(options.spool);
+
+    // Deliver batches left over from a previous run. It holds the flush slot,
+    // so its sends never overlap a flush's.
+    if (this.spool) {
+      this.activeFlush = this.replaySpool().finally(() => {
+        this.activeFlush = null;
+      });
+    }
+  }
+
+  get length(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Invocations this pipeline dropped since it was created
+   */
+  get dropped(): DropCounts {
+    return cloneDropCounts(this.droppedTotal);
+  }
+
+  enqueue(invocation: TelemetryRecord): void {
+    const dropped = this.queue.push(invocation);
+    if (dropped) {
+      this.recordDrop([dropped], 'queue_overflow');
+    }
+  }
+
+  /**
+   * Send aggregates with the next batch, or on their own if nothing else is queued
+   */
+  addAggregates(aggregates: ToolAggregate[]): void {
+    this.pendingAggregates.push(...aggregates);
+    if (this.pendingAggregates.length > MAX_PENDING_AGGREGATES) {
+      this.pendingAggregates.splice(0, this.pendingAggregates.length - MAX_PENDING_AGGREGATES);
+    }
+  }
+
+  /**
+   * Send everything queued so far. Flushes never overlap, with each other or
+   * with spool replay: a call made while one is running waits for it, and
+   * calls made in the meantime share the flush that follows.
+   */
+  flush(): Promise<void> {
+    if (!this.activeFlush) {
+      this.activeFlush = this.flushQueue().finally(() => {
+        this.activeFlush = null;
+      });
+      return this.activeFlush;
+    }
+
+    this.nextFlush ??= this.activeFlush.then(() => {
+      this.nextFlush = null;
+      return this.flush();
+    });
+    return this.nextFlush;
+  }
+
+  private async flushQueue(): Promise<void> {
+    if (this.queue.length === 0 && this.pendingAggregates.length === 0) return;
+
+    const invocations = this.queue.drain();
+    let delivered = false;
+
+    // Split by count and serialized size so one large batch can't be rejected as a whole
+    const batches = invocations.length > 0
+      ? splitIntoBatches(invocations, this.batchSize, this.options.maxBatchBytes)
+      : [[]];
+    const worker = async () => {
+      for (let batch = batches.shift(); batch; batch = batches.shift()) {
+        if (await this.deliver(batch)) delivered = true;
+      }
+    };
+    const workers = Math.min(this.options.maxInFlightBatches, batches.length);
+    await Promise.all(Array.from({ length: workers }, worker));
+
+    // The destination is reachable again, so deliver anything spooled earlier
+    if (delivered && this.spool) {
+      await this.replaySpool();
+    }
+  }
+
+  /**
+   * Send one batch, spooling it or counting it as dropped if that fails
+   */
+  private async deliver(batch: TelemetryRecord[]): Promise<boolean> {
+    const dropped = this.droppedUnreported.total > 0 ? this.droppedUnreported : undefined;
+    const aggregates = this.pendingAggregates.length > 0 ? this.pendingAggregates : undefined;
+    this.droppedUnreported = emptyDropCounts();
+    this.pendingAggregates = [];
+
+    const outcome = await this.send(batch, { dropped, aggregates });
+    if (outcome === 'sent') return true;
+
+    // Report these counts with a later batch instead
+    if (dropped) {
+      mergeDropCounts(this.droppedUnreported, dropped);
+    }
+    if (aggregates) {
+      this.addAggregates(aggregates);
+    }
+    if (batch.length === 0) return false;
+    if (outcome === 'rejected') {
+      this.recordDrop(batch, 'rejected');
+    } else if (this.spool) {
+      await this.spool.write(batch).catch(error => this.reportError('[emcy] Spool error:', error));
+    } else {
+      this.recordDrop(batch, 'send_failed');
+    }
+    return false;
+  }
+
+  async shutdown(): Promise<void> {
+    await this.flush();
+    try {
+      await this.exporter.shutdown?.();
+    } catch (error) {
+      this.reportError(`[emcy] Exporter ${this.name} failed to shut down:`, error);
+    }
+    this.spool?.release();
+  }
+
+  /**
+   * Write whatever is still queued to the spool. For process `exit`
+   * handlers, where asynchronous work never completes.
+   */
+  persistSync(): void {
+    if (!this.spool) return;
+    try {
+      this.spool.writeSync(this.queue.drain());
+    } catch (error) {
+      this.reportError('[emcy] Spool error:', error);
+    }
+    this.spool.release();
+  }
+
+  get name(): string {
+    return this.exporter.name ?? this.exporter.constructor.name;
+  }
+
+  private async send(invocations: TelemetryRecord[], extras?: BatchExtras): Promise<SendOutcome> {
+    let batch = this.options.createBatch(invocations, extras);
+    if (this.options.beforeSend) {
+      try {
+        const result = this.options.beforeSend(batch, this.name);
+        // Skipped on purpose, so it's neither retried nor spooled
+        if (result === null) return 'sent';
+        if (result) batch = result;
+      } catch (error) {
+        this.reportError('[emcy] beforeSend threw, skipping batch:', error);
+        return 'sent';
+      }
+    }
+
+    const { events } = this.options;
+    try {
+      const outcome = outcomeOf(await suppressInstrumentation(() => this.exporter.send(batch)));
+      events.emit(outcome === 'sent' ? 'batchSent' : 'batchFailed', { exporter: this.name, batch });
+      return outcome;
+    } catch (error) {
+      // A throwing exporter must not take the others down with it
+      this.reportError(`[emcy] Exporter ${this.name} failed:`, error);
+      events.emit('batchFailed', { exporter: this.name, batch, error: toError(error) });
+      return 'failed';
+    }
+  }
+
+  private recordDrop(invocations: TelemetryRecord[], reason: DropReason): void {
+    for (const counts of [this.droppedTotal, this.droppedUnreported]) {
+      counts.total += invocations.length;
+      counts.byReason[reason] = (counts.byReason[reason] ?? 0) + invocations.length;
+      for (const invocation of invocations) {
+        counts.byTool[invocation.toolName] = (counts.byTool[invocation.toolName] ?? 0) + 1;
+      }
+    }
+
+    if (this.options.debug) {
+      this.options.logger.debug(`[emcy] Dropped ${invocations.length} invocations for ${this.name} (${reason})`);
+    }
+    this.options.events.emit('dropped', { exporter: this.name, reason, invocations });
+  }
+
+  private openSpool(spool: DiskSpool): DiskSpool | null {
+    try {
+      if (!spool.acquire()) return null;
+    } catch (error) {
+      this.reportError('[emcy] Spool error:', error);
+      return null;
+    }
+    spool.onDiscard((invocations, reason) => this.recordDrop(invocations, reason));
+    return spool;
+  }
+
+  private replaySpool(): Promise<void> {
+    const spool = this.spool;
+    if (!spool) return Promise.resolve();
+
+    return spool
+      .replay(
+        async batch => {
+          const outcome = await this.send(batch);
+          // Settled either way; a rejected batch must not hold back the ones after it
+          if (outcome === 'rejected') this.recordDrop(batch, 'rejected');
+          return outcome !== 'failed';
+        },
+        invocations => splitIntoBatches(invocations, this.batchSize, this.options.maxBatchBytes)
+      )
+      .then(() => undefined, error => this.reportError('[emcy] Spool error:', error));
+  }
+
+  private reportError(message: string, error: unknown): void {
+    this.options.logger.error(message, error instanceof Error ? error.message : error);
+    this.options.events.emit('error', toError(error));
+  }
+}
+
+function outcomeOf(result: boolean | ExportResult): SendOutcome {
+  if (typeof result === 'boolean') return result ? 'sent' : 'failed';
+  if (result.success) return 'sent';
+  return result.retryable === false ? 'rejected' : 'failed';
+}
+
+export function emptyDropCounts(): DropCounts {
+  return { total: 0, byReason: {}, byTool: {} };
+}
+
+export function mergeDropCounts(target: DropCounts, source: DropCounts): DropCounts {
+  target.total += source.total;
+  for (const [reason, count] of Object.entries(source.byReason) as [DropReason, number][]) {
+    target.byReason[reason] = (target.byReason[reason] ?? 0) + count;
+  }
+  for (const [toolName, count] of Object.entries(source.byTool)) {
+    target.byTool[toolName] = (target.byTool[toolName] ?? 0) + count;
+  }
+  return target;
+}
+
+function cloneDropCounts(counts: DropCounts): DropCounts {
+  return mergeDropCounts(emptyDropCounts(), counts);
+}
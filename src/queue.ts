@@ -0,0 +1,61 @@
+/**
+ * Bounded invocation queue with a configurable overflow policy
+ */
+
+import type { OverflowPolicy, TelemetryRecord } from './types.js';
+
+export class BoundedQueue {
+  private items: TelemetryRecord[] = [];
+  private maxSize: number;
+  private policy: OverflowPolicy;
+
+  constructor(maxSize: number, policy: OverflowPolicy = 'dropOldest') {
+    this.maxSize = maxSize;
+    this.policy = policy;
+  }
+
+  get length(): number {
+    return this.items.length;
+  }
+
+  /**
+   * Add an invocation. Returns the invocation that was dropped to make
+   * room (which may be the one being added), or null if nothing was dropped.
+   */
+  push(invocation: TelemetryRecord): TelemetryRecord | null {
+    if (this.items.length < this.maxSize) {
+      this.items.push(invocation);
+      return null;
+    }
+
+    switch (this.policy) {
+      case 'dropNewest':
+        return invocation;
+
+      case 'dropSuccessesFirst': {
+        const index = this.items.findIndex(item => item.success);
+        if (index === -1 && invocation.success) {
+          return invocation;
+        }
+        return this.replace(Math.max(index, 0), invocation);
+      }
+
+      case 'dropOldest':
+      default:
+        return this.replace(0, invocation);
+    }
+  }
+
+  /**
+   * Remove and return everything in the queue.
+   */
+  drain(): TelemetryRecord[] {
+    return this.items.splice(0, this.items.length);
+  }
+
+  private replace(index: number, invocation: TelemetryRecord): TelemetryRecord {
+    const [dropped] = this.items.splice(index, 1);
+    this.items.push(invocation);
+    return dropped;
+  }
+}
@@ -0,0 +1,226 @@
+/**
+ * Redaction of secrets and PII in captured invocations
+ *
+ * Runs inside `EmcyTelemetry.log()` before an invocation is queued, so
+ * redacted values never reach the transport.
+ */
+
+import { createHash } from 'node:crypto';
+import { safeStringify } from './truncation.js';
+import type { RedactionConfig, RedactionPattern, RedactionRules, TelemetryRecord } from './types.js';
+
+const REDACTED = '[REDACTED]';
+
+/**
+ * Key names redacted by default, compared case-insensitively and ignoring
+ * `-` and `_` (so `api_key`, `apiKey` and `API-KEY` all match `apikey`).
+ */
+export const DEFAULT_REDACT_KEYS = [
+  'password',
+  'passwd',
+  'secret',
+  'clientsecret',
+  'token',
+  'accesstoken',
+  'refreshtoken',
+  'idtoken',
+  'sessiontoken',
+  'apikey',
+  'xapikey',
+  'authorization',
+  'cookie',
+  'setcookie',
+  'privatekey',
+];
+
+export const BUILTIN_PATTERNS: Record<'email' | 'creditCard' | 'bearerToken', RegExp> = {
+  email: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  creditCard: /\b\d(?:[ -]?\d){12,18}\b/g,
+  bearerToken: /\bBearer\s+[A-Za-z0-9\-._~+/]+=*/gi,
+};
+
+interface CompiledRules {
+  keys: Set<string>;
+  keyPatterns: RegExp[];
+  paths: string[][];
+  patterns: RegExp[];
+}
+
+export class Redactor {
+  private global: CompiledRules;
+  private perTool = new Map<string, CompiledRules>();
+  private strategy: 'drop' | 'hash';
+  private hashSalt: string;
+
+  constructor(config: RedactionConfig = {}) {
+    const useDefaults = config.useDefaults ?? true;
+    this.strategy = config.strategy ?? 'drop';
+    this.hashSalt = config.hashSalt ?? '';
+    this.global = compileRules(config, useDefaults);
+
+    for (const [toolName, rules] of Object.entries(config.tools ?? {})) {
+      this.perTool.set(toolName, mergeRules(this.global, compileRules(rules, false)));
+    }
+  }
+
+  /**
+   * Return a redacted copy of the invocation. The original is not modified.
+   */
+  redact(invocation: TelemetryRecord): TelemetryRecord {
+    const rules = this.perTool.get(invocation.toolName) ?? this.global;
+    const redacted = { ...invocation };
+
+    for (const field of ['input', 'output', 'error'] as const) {
+      if (invocation[field] !== undefined) {
+        (redacted as Record<string, unknown>)[field] = this.walkEntry(invocation[field], [field], rules, new WeakSet());
+      }
+    }
+    return redacted;
+  }
+
+  private walk(value: unknown, path: string[], rules: CompiledRules, seen: WeakSet<object>): unknown {
+    if (typeof value === 'string') {
+      return this.scrub(value, rules);
+    }
+    if (!value || typeof value !== 'object') {
+      return value;
+    }
+    if (seen.has(value)) {
+      return '[Circular]';
+    }
+
+    seen.add(value);
+    let result: unknown;
+    if (typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+      // Dates, Buffers and the like are sent as whatever toJSON returns
+      result = this.walk(toJson(value as { toJSON(): unknown }), path, rules, seen);
+    } else if (Array.isArray(value)) {
+      result = value.map((item, index) => this.walkEntry(item, [...path, String(index)], rules, seen));
+    } else {
+      // Class instances too: JSON.stringify sends their own enumerable fields
+      const copy: Record<string, unknown> = {};
+      for (const [key, child] of Object.entries(value)) {
+        copy[key] = this.matchesKey(key, rules)
+          ? this.replace(child)
+          : this.walkEntry(child, [...path, key], rules, seen);
+      }
+      result = copy;
+    }
+    seen.delete(value);
+    return result;
+  }
+
+  private walkEntry(value: unknown, path: string[], rules: CompiledRules, seen: WeakSet<object>): unknown {
+    if (rules.paths.some(pattern => matchesPath(pattern, path))) {
+      return this.replace(value);
+    }
+    return this.walk(value, path, rules, seen);
+  }
+
+  private matchesKey(key: string, rules: CompiledRules): boolean {
+    return rules.keys.has(normalizeKey(key)) || rules.keyPatterns.some(pattern => {
+      pattern.lastIndex = 0;
+      return pattern.test(key);
+    });
+  }
+
+  private scrub(value: string, rules: CompiledRules): string {
+    let result = value;
+    for (const pattern of rules.patterns) {
+      pattern.lastIndex = 0;
+      result = result.replace(pattern, match =>
+        pattern === BUILTIN_PATTERNS.creditCard && !passesLuhn(match) ? match : this.replace(match)
+      );
+    }
+    return result;
+  }
+
+  private replace(value: unknown): string {
+    if (this.strategy === 'hash') {
+      const serialized = typeof value === 'string' ? value : safeStringify(value) ?? '';
+      const digest = createHash('sha256').update(this.hashSalt + serialized).digest('hex');
+      return `sha256:${digest.slice(0, 16)}`;
+    }
+    return REDACTED;
+  }
+}
+
+function compileRules(rules: RedactionRules, useDefaults: boolean): CompiledRules {
+  const keys = new Set(useDefaults ? DEFAULT_REDACT_KEYS : []);
+  const keyPatterns: RegExp[] = [];
+  for (const key of rules.keys ?? []) {
+    if (typeof key === 'string') {
+      keys.add(normalizeKey(key));
+    } else {
+      keyPatterns.push(key);
+    }
+  }
+
+  const patternNames = rules.patterns ?? (useDefaults ? ['email', 'creditCard', 'bearerToken'] as const : []);
+
+  return {
+    keys,
+    keyPatterns,
+    paths: (rules.paths ?? []).map(parsePath),
+    patterns: patternNames.map(resolvePattern),
+  };
+}
+
+function mergeRules(base: CompiledRules, extra: CompiledRules): CompiledRules {
+  return {
+    keys: new Set([...base.keys, ...extra.keys]),
+    keyPatterns: [...base.keyPatterns, ...extra.keyPatterns],
+    paths: [...base.paths, ...extra.paths],
+    patterns: [...new Set([...base.patterns, ...extra.patterns])],
+  };
+}
+
+function resolvePattern(pattern: RedactionPattern): RegExp {
+  if (typeof pattern === 'string') {
+    const builtin = BUILTIN_PATTERNS[pattern];
+    if (!builtin) {
+      throw new Error(`[emcy] Unknown redaction pattern: ${pattern}`);
+    }
+    return builtin;
+  }
+  // Scrubbing replaces every occurrence, which requires the global flag
+  return pattern.global ? pattern : new RegExp(pattern.source, pattern.flags + 'g');
+}
+
+function toJson(value: { toJSON(): unknown }): unknown {
+  try {
+    return value.toJSON();
+  } catch {
+    return '[Unserializable]';
+  }
+}
+
+export function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[-_]/g, '');
+}
+
+/**
+ * Parse `input.user.email` or `output.body.items[*].ssn` into segments.
+ */
+function parsePath(path: string): string[] {
+  return path.replace(/\[(\*|\d+)\]/g, '.$1').split('.').filter(Boolean);
+}
+
+function matchesPath(pattern: string[], path: string[]): boolean {
+  return pattern.length === path.length
+    && pattern.every((segment, index) => segment === '*' || segment === path[index]);
+}
+
+function passesLuhn(candidate: string): boolean {
+  const digits = candidate.replace(/\D/g, '');
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
@@ -0,0 +1,124 @@
+/**
+ * Retry backoff and circuit breaking for HTTP exporters
+ */
+
+import type { CircuitBreakerConfig, CircuitState, Logger, RetryPolicy } from './types.js';
+import { consoleLogger } from './logger.js';
+
+export type ResolvedRetryPolicy = Required<Omit<RetryPolicy, 'retryableStatuses'>> & Pick<RetryPolicy, 'retryableStatuses'>;
+
+const DEFAULT_RETRY_POLICY: ResolvedRetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  maxElapsedMs: 60000,
+};
+const RETRYABLE_CLIENT_ERRORS = [408, 429];
+
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_RESET_TIMEOUT = 30000;
+
+export function resolveRetryPolicy(policy: RetryPolicy = {}): ResolvedRetryPolicy {
+  return { ...DEFAULT_RETRY_POLICY, ...definedOnly(policy) };
+}
+
+/**
+ * Whether a response status is worth retrying. 5xx is retried unless the
+ * policy lists its own statuses.
+ */
+export function isRetryableStatus(status: number, policy: RetryPolicy): boolean {
+  if (policy.retryableStatuses) return policy.retryableStatuses.includes(status);
+  return status >= 500 || RETRYABLE_CLIENT_ERRORS.includes(status);
+}
+
+/**
+ * Exponential backoff with full jitter for the given retry (1 = first)
+ */
+export function backoffDelay(retry: number, policy: ResolvedRetryPolicy): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.initialDelayMs * 2 ** (retry - 1));
+  return Math.floor(Math.random() * ceiling);
+}
+
+/**
+ * Parse a `Retry-After` header, given in seconds or as an HTTP date, into
+ * milliseconds from now
+ */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Stops sending after `failureThreshold` consecutive failed batches. Once
+ * `resetTimeoutMs` has passed, the next batch goes through as a trial:
+ * success closes the circuit, failure opens it again.
+ */
+export class CircuitBreaker {
+  private failureThreshold: number;
+  private resetTimeoutMs: number;
+  private onStateChange?: CircuitBreakerConfig['onStateChange'];
+  private logger: Logger;
+  private current: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+
+  constructor(config: CircuitBreakerConfig = {}, logger: Logger = consoleLogger) {
+    this.failureThreshold = config.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+    this.resetTimeoutMs = config.resetTimeoutMs ?? DEFAULT_RESET_TIMEOUT;
+    this.onStateChange = config.onStateChange;
+    this.logger = logger;
+  }
+
+  get state(): CircuitState {
+    return this.current;
+  }
+
+  /**
+   * Whether a batch may be sent now. Only one trial runs while half open.
+   */
+  allowRequest(): boolean {
+    if (this.current === 'closed') return true;
+    if (this.current === 'open' && Date.now() - this.openedAt >= this.resetTimeoutMs) {
+      this.transition('half_open');
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    if (this.current !== 'closed') {
+      this.transition('closed');
+    }
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    if (this.current === 'half_open' || (this.current === 'closed' && this.failures >= this.failureThreshold)) {
+      this.openedAt = Date.now();
+      this.transition('open');
+    }
+  }
+
+  private transition(state: CircuitState): void {
+    const previous = this.current;
+    this.current = state;
+    try {
+      this.onStateChange?.(state, previous);
+    } catch (error) {
+      this.logger.error('[emcy] onStateChange threw:', error);
+    }
+  }
+}
+
+function definedOnly<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, entry]) => entry !== undefined)
+  ) as Partial<T>;
+}
@@ -0,0 +1,79 @@
+/**
+ * Sampling of invocations before they are queued
+ *
+ * The keep/drop draw is derived from the invocation id, so the decision for
+ * a given invocation is stable. Failures and slow calls can be kept
+ * regardless of rate. Kept invocations carry `sampleWeight` (1 / rate) so
+ * the backend can extrapolate counts.
+ */
+
+import type { SamplingConfig, TelemetryRecord } from './types.js';
+
+export class Sampler {
+  private rate: number;
+  private toolRates: { pattern: RegExp; rate: number }[];
+  private alwaysKeepErrors: boolean;
+  private slowThresholdMs?: number;
+  private custom?: SamplingConfig['sampler'];
+
+  constructor(config: SamplingConfig) {
+    this.rate = clampRate(config.rate ?? 1);
+    this.toolRates = Object.entries(config.tools ?? {}).map(([glob, rate]) => ({
+      pattern: globToRegExp(glob),
+      rate: clampRate(rate),
+    }));
+    this.alwaysKeepErrors = config.alwaysKeepErrors ?? true;
+    this.slowThresholdMs = config.slowThresholdMs;
+    this.custom = config.sampler;
+  }
+
+  /**
+   * Decide whether to keep an invocation. Returns its sample weight, or
+   * null if it should be dropped.
+   */
+  sample(invocation: TelemetryRecord): number | null {
+    if (this.alwaysKeepErrors && !invocation.success) return 1;
+    if (this.slowThresholdMs !== undefined && invocation.duration >= this.slowThresholdMs) return 1;
+
+    const rate = this.rateFor(invocation);
+    if (rate <= 0) return null;
+    if (rate >= 1) return 1;
+
+    return hashToUnit(invocation.invocationId) < rate ? 1 / rate : null;
+  }
+
+  private rateFor(invocation: TelemetryRecord): number {
+    const custom = this.custom?.(invocation);
+    if (typeof custom === 'number') return clampRate(custom);
+
+    const match = this.toolRates.find(({ pattern }) => pattern.test(invocation.toolName));
+    return match ? match.rate : this.rate;
+  }
+}
+
+/**
+ * Convert a glob (`*` any characters, `?` one character) to a RegExp.
+ */
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split('')
+    .map(char => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+function clampRate(rate: number): number {
+  return Number.isFinite(rate) ? Math.min(1, Math.max(0, rate)) : 1;
+}
+
+/**
+ * Map a string to a stable number in [0, 1) using FNV-1a.
+ */
+function hashToUnit(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
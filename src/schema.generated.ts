@@ -0,0 +1,2422 @@
+/**
+ * Wire format JSON Schemas, generated from types.ts by
+ * scripts/generate-schema.mjs. Do not edit; run `npm run schema`.
+ */
+
+import type { JsonSchema } from './schema.js';
+
+export const TELEMETRY_BATCH_SCHEMA: JsonSchema = {
+  "$schema": "https://json-schema.org/draft/2020-12/schema",
+  "$comment": "Generated from src/types.ts for schemaVersion 1.2. Do not edit.",
+  "title": "TelemetryBatch",
+  "description": "Request body sent to the telemetry endpoint. Published as JSON Schema in `schema/telemetry-batch.schema.json`.",
+  "type": "object",
+  "properties": {
+    "schemaVersion": {
+      "description": "Wire schema version, `major.minor`. Minor versions only add optional fields; a new major version may change or remove them.",
+      "type": "string",
+      "pattern": "^\\d+\\.\\d+$"
+    },
+    "apiKey": {
+      "type": "string"
+    },
+    "mcpServerId": {
+      "type": "string"
+    },
+    "timestamp": {
+      "description": "When the batch was created (ISO 8601)",
+      "type": "string",
+      "format": "date-time"
+    },
+    "invocations": {
+      "type": "array",
+      "items": {
+        "$ref": "#/$defs/TelemetryRecord"
+      }
+    },
+    "dropped": {
+      "description": "Invocations dropped since the last batch that was delivered, so the backend can account for gaps in the data.",
+      "$ref": "#/$defs/DropCounts"
+    },
+    "aggregates": {
+      "description": "Per-tool totals reported every `stats.reportInterval`. They count every invocation, including those removed by sampling.",
+      "type": "array",
+      "items": {
+        "$ref": "#/$defs/ToolAggregate"
+      }
+    }
+  },
+  "required": [
+    "schemaVersion",
+    "apiKey",
+    "timestamp",
+    "invocations"
+  ],
+  "$defs": {
+    "AttributeValue": {
+      "type": [
+        "boolean",
+        "string",
+        "number"
+      ]
+    },
+    "ContentBlockSummary": {
+      "type": "object",
+      "properties": {
+        "type": {
+          "description": "Block type: text, image, audio, resource or resource_link",
+          "type": "string"
+        },
+        "bytes": {
+          "description": "Decoded size of the block's payload in bytes",
+          "type": "number"
+        },
+        "mimeType": {
+          "type": "string"
+        },
+        "uri": {
+          "type": "string"
+        },
+        "preview": {
+          "description": "Leading characters of text content",
+          "type": "string"
+        },
+        "truncated": {
+          "description": "True when `preview` is shorter than the original text",
+          "type": "boolean"
+        }
+      },
+      "required": [
+        "type",
+        "bytes"
+      ]
+    },
+    "DropCounts": {
+      "type": "object",
+      "properties": {
+        "total": {
+          "type": "number"
+        },
+        "byReason": {
+          "type": "object",
+          "properties": {
+            "queue_overflow": {
+              "type": "number"
+            },
+            "send_failed": {
+              "type": "number"
+            },
+            "rejected": {
+              "type": "number"
+            },
+            "spool_expired": {
+              "type": "number"
+            },
+            "spool_full": {
+              "type": "number"
+            }
+          }
+        },
+        "byTool": {
+          "type": "object",
+          "additionalProperties": {
+            "type": "number"
+          }
+        }
+      },
+      "required": [
+        "total",
+        "byReason",
+        "byTool"
+      ]
+    },
+    "PromptInvocation": {
+      "description": "A `prompts/get` request",
+      "type": "object",
+      "properties": {
+        "kind": {
+          "const": "prompt"
+        },
+        "promptName": {
+          "type": "string"
+        },
+        "invocationId": {
+          "type": "string"
+        },
+        "toolName": {
+          "description": "Name of the record: the tool or span name, resource URI, prompt name, MCP method, or `session/start` and `session/end`. Kept on every kind so readers of schema 1.0 can still group records by name.",
+          "type": "string"
+        },
+        "traceId": {
+          "description": "Id shared by a traced tool call and every span inside it (32 lowercase hex characters).",
+          "type": "string",
+          "pattern": "^[0-9a-f]{32}$"
+        },
+        "parentInvocationId": {
+          "description": "`invocationId` of the enclosing invocation or span. Set on child records.",
+          "type": "string"
+        },
+        "spanId": {
+          "description": "W3C span id of this record (16 lowercase hex characters).",
+          "type": "string",
+          "pattern": "^[0-9a-f]{16}$"
+        },
+        "parentSpanId": {
+          "description": "W3C span id of the parent: the enclosing span for child records, or the remote caller from an incoming `traceparent` for the root.",
+          "type": "string",
+          "pattern": "^[0-9a-f]{16}$"
+        },
+        "method": {
+          "description": "MCP method that produced this invocation (e.g. `tools/call`, `resources/read`). Set by `instrumentServer()`; omitted for manually traced calls.",
+          "type": "string"
+        },
+        "requestId": {
+          "description": "JSON-RPC id of the MCP request that produced this invocation.",
+          "type": [
+            "string",
+            "number"
+          ]
+        },
+        "side": {
+          "description": "Which end of the MCP connection recorded this. Absent for the server side; `client` for calls recorded by `instrumentClient()`.",
+          "enum": [
+            "server",
+            "client"
+          ]
+        },
+        "targetServer": {
+          "description": "The server a client-side record called, as it advertised itself when the connection was initialized.",
+          "type": "object",
+          "properties": {
+            "name": {
+              "type": "string"
+            },
+            "version": {
+              "type": "string"
+            }
+          },
+          "required": [
+            "name"
+          ]
+        },
+        "timestamp": {
+          "description": "When the invocation finished (ISO 8601)",
+          "type": "string",
+          "format": "date-time"
+        },
+        "duration": {
+          "description": "Milliseconds from start to finish",
+          "type": "number",
+          "minimum": 0
+        },
+        "timeToFirstResponse": {
+          "description": "Milliseconds from start until the first message of the response, such as a progress notification or the result itself. Set by `Span.markFirstResponse()`.",
+          "type": "number",
+          "minimum": 0
+        },
+        "success": {
+          "type": "boolean"
+        },
+        "input": {
+          "type": "object"
+        },
+        "output": {
+          "type": "object",
+          "properties": {
+            "status": {
+              "type": "number"
+            },
+            "body": {},
+            "content": {
+              "description": "Summary of each content block of an MCP `CallToolResult`. When present, the raw result is not sent as `body`.",
+              "type": "array",
+              "items": {
+                "$ref": "#/$defs/ContentBlockSummary"
+              }
+            },
+            "contentCounts": {
+              "description": "Number of content blocks per block type",
+              "type": "object",
+              "additionalProperties": {
+                "type": "number"
+              }
+            },
+            "contentBytes": {
+              "description": "Total size of all content blocks in bytes",
+              "type": "number"
+            },
+            "structuredContent": {}
+          }
+        },
+        "error": {
+          "type": "object",
+          "properties": {
+            "message": {
+              "type": "string"
+            },
+            "code": {
+              "type": "string"
+            },
+            "stack": {
+              "type": "string"
+            }
+          },
+          "required": [
+            "message"
+          ]
+        },
+        "metadata": {
+          "type": "object",
+          "properties": {
+            "sessionId": {
+              "type": "string"
+            },
+            "agentId": {
+              "type": "string"
+            },
+            "userId": {
+              "type": "string"
+            },
+            "serverName": {
+              "type": "string"
+            },
+            "serverVersion": {
+              "type": "string"
+            },
+            "mcpServerId": {
+              "type": "string"
+            }
+          }
+        },
+        "truncated": {
+          "description": "Paths of fields that were truncated to fit the payload limits, e.g. `input`, `output.body`, `error.stack`.",
+          "type": "array",
+          "items": {
+            "type": "string"
+          }
+        },
+        "sampleWeight": {
+          "description": "Number of invocations this one represents (1 / sample rate). Set when sampling is configured.",
+          "type": "number"
+        },
+        "attributes": {
+          "description": "Custom attributes set through `SpanOptions.attributes` or `Span.setAttribute()`.",
+          "type": "object",
+          "additionalProperties": {
+            "$ref": "#/$defs/AttributeValue"
+          }
+        }
+      },
+      "required": [
+        "kind",
+        "promptName",
+        "invocationId",
+        "toolName",
+        "timestamp",
+        "duration",
+        "success"
+      ]
+    },
+    "RequestInvocation": {
+      "description": "Any other MCP request, such as a list, a completion, or a sampling request sent to the client",
+      "type": "object",
+      "properties": {
+        "kind": {
+          "const": "request"
+        },
+        "method": {
+          "description": "MCP method that produced this invocation (e.g. `tools/call`, `resources/read`). Set by `instrumentServer()`; omitted for manually traced calls.",
+          "type": "string"
+        },
+        "invocationId": {
+          "type": "string"
+        },
+        "toolName": {
+          "description": "Name of the record: the tool or span name, resource URI, prompt name, MCP method, or `session/start` and `session/end`. Kept on every kind so readers of schema 1.0 can still group records by name.",
+          "type": "string"
+        },
+        "traceId": {
+          "description": "Id shared by a traced tool call and every span inside it (32 lowercase hex characters).",
+          "type": "string",
+          "pattern": "^[0-9a-f]{32}$"
+        },
+        "parentInvocationId": {
+          "description": "`invocationId` of the enclosing invocation or span. Set on child records.",
+          "type": "string"
+        },
+        "spanId": {
+          "description": "W3C span id of this record (16 lowercase hex characters).",
+          "type": "string",
+          "pattern": "^[0-9a-f]{16}$"
+        },
+        "parentSpanId": {
+          "description": "W3C span id of the parent: the enclosing span for child records, or the remote caller from an incoming `traceparent` for the root.",
+          "type": "string",
+          "pattern": "^[0-9a-f]{16}$"
+        },
+        "requestId": {
+          "description": "JSON-RPC id of the MCP request that produced this invocation.",
+          "type": [
+            "string",
+            "number"
+          ]
+        },
+        "side": {
+          "description": "Which end of the MCP connection recorded this. Absent for the server side; `client` for calls recorded by `instrumentClient()`.",
+          "enum": [
+            "server",
+            "client"
+          ]
+        },
+        "targetServer": {
+          "description": "The server a client-side record called, as it advertised itself when the connection was initialized.",
+          "type": "object",
+          "properties": {
+            "name": {
+              "type": "string"
+            },
+            "version": {
+              "type": "string"
+            }
+          },
+          "required": [
+            "name"
+          ]
+        },
+        "timestamp": {
+          "description": "When the invocation finished (ISO 8601)",
+          "type": "string",
+          "format": "date-time"
+        },
+        "duration": {
+          "description": "Milliseconds from start to finish",
+          "type": "number",
+          "minimum": 0
+        },
+        "timeToFirstResponse": {
+          "description": "Milliseconds from start until the first message of the response, such as a progress notification or the result itself. Set by `Span.markFirstResponse()`.",
+          "type": "number",
+          "minimum": 0
+        },
+        "success": {
+          "type": "boolean"
+        },
+        "input": {
+          "type": "object"
+        },
+        "output": {
+          "type": "object",
+          "properties": {
+            "status": {
+              "type": "number"
+            },
+            "body": {},
+            "content": {
+              "description": "Summary of each content block of an MCP `CallToolResult`. When present, the raw result is not sent as `body`.",
+              "type": "array",
+              "items": {
+                "$ref": "#/$defs/ContentBlockSummary"
+              }
+            },
+            "contentCounts": {
+              "description": "Number of content blocks per block type",
+              "type": "object",
+              "additionalProperties": {
+                "type": "number"
+              }
+            },
+            "contentBytes": {
+              "description": "Total size of all content blocks in bytes",
+              "type": "number"
+            },
+            "structuredContent": {}
+          }
+        },
+        "error": {
+          "type": "object",
+          "properties": {
+            "message": {
+              "type": "string"
+            },
+            "code": {
+              "type": "string"
+            },
+            "stack": {
+              "type": "string"
+            }
+          },
+          "required": [
+            "message"
+          ]
+        },
+        "metadata": {
+          "type": "object",
+          "properties": {
+            "sessionId": {
+              "type": "string"
+            },
+            "agentId": {
+              "type": "string"
+            },
+            "userId": {
+              "type": "string"
+            },
+            "serverName": {
+              "type": "string"
+            },
+            "serverVersion": {
+              "type": "string"
+            },
+            "mcpServerId": {
+              "type": "string"
+            }
+          }
+        },
+        "truncated": {
+          "description": "Paths of fields that were truncated to fit the payload limits, e.g. `input`, `output.body`, `error.stack`.",
+          "type": "array",
+          "items": {
+            "type": "string"
+          }
+        },
+        "sampleWeight": {
+          "description": "Number of invocations this one represents (1 / sample rate). Set when sampling is configured.",
+          "type": "number"
+        },
+        "attributes": {
+          "description": "Custom attributes set through `SpanOptions.attributes` or `Span.setAttribute()`.",
+          "type": "object",
+          "additionalProperties": {
+            "$ref": "#/$defs/AttributeValue"
+          }
+        }
+      },
+      "required": [
+        "kind",
+        "method",
+        "invocationId",
+        "toolName",
+        "timestamp",
+        "duration",
+        "success"
+      ]
+    },
+    "ResourceInvocation": {
+      "description": "A read of, or subscription to, one resource",
+      "type": "object",
+      "properties": {
+        "kind": {
+          "const": "resource"
+        },
+        "uri": {
+          "type": "string"
+        },
+        "invocationId": {
+          "type": "string"
+        },
+        "toolName": {
+          "description": "Name of the record: the tool or span name, resource URI, prompt name, MCP method, or `session/start` and `session/end`. Kept on every kind so readers of schema 1.0 can still group records by name.",
+          "type": "string"
+        },
+        "traceId": {
+          "description": "Id shared by a traced tool call and every span inside it (32 lowercase hex characters).",
+          "type": "string",
+          "pattern": "^[0-9a-f]{32}$"
+        },
+        "parentInvocationId": {
+          "description": "`invocationId` of the enclosing invocation or span. Set on child records.",
+          "type": "string"
+        },
+        "spanId": {
+          "description": "W3C span id of this record (16 lowercase hex characters).",
+          "type": "string",
+          "pattern": "^[0-9a-f]{16}$"
+        },
+        "parentSpanId": {
+          "description": "W3C span id of the parent: the enclosing span for child records, or the remote caller from an incoming `traceparent` for the root.",
+          "type": "string",
+          "pattern": "^[0-9a-f]{16}$"
+        },
+        "method": {
+          "description": "MCP method that produced this invocation (e.g. `tools/call`, `resources/read`). Set by `instrumentServer()`; omitted for manually traced calls.",
+          "type": "string"
+        },
+        "requestId": {
+          "description": "JSON-RPC id of the MCP request that produced this invocation.",
+          "type": [
+            "string",
+            "number"
+          ]
+        },
+        "side": {
+          "description": "Which end of the MCP connection recorded this. Absent for the server side; `client` for calls recorded by `instrumentClient()`.",
+          "enum": [
+            "server",
+            "client"
+          ]
+        },
+        "targetServer": {
+          "description": "The server a client-side record called, as it advertised itself when the connection was initialized.",
+          "type": "object",
+          "properties": {
+            "name": {
+              "type": "string"
+            },
+            "version": {
+              "type": "string"
+            }
+          },
+          "required": [
+            "name"
+          ]
+        },
+        "timestamp": {
+          "description": "When the invocation finished (ISO 8601)",
+          "type": "string",
+          "format": "date-time"
+        },
+        "duration": {
+          "description": "Milliseconds from start to finish",
+          "type": "number",
+          "minimum": 0
+        },
+        "timeToFirstResponse": {
+          "description": "Milliseconds from start until the first message of the response, such as a progress notification or the result itself. Set by `Span.markFirstResponse()`.",
+          "type": "number",
+          "minimum": 0
+        },
+        "success": {
+          "type": "boolean"
+        },
+        "input": {
+          "type": "object"
+        },
+        "output": {
+          "type": "object",
+          "properties": {
+            "status": {
+              "type": "number"
+            },
+            "body": {},
+            "content": {
+              "description": "Summary of each content block of an MCP `CallToolResult`. When present, the raw result is not sent as `body`.",
+              "type": "array",
+              "items": {
+                "$ref": "#/$defs/ContentBlockSummary"
+              }
+            },
+            "contentCounts": {
+              "description": "Number of content blocks per block type",
+              "type": "object",
+              "additionalProperties": {
+                "type": "number"
+              }
+            },
+            "contentBytes": {
+              "description": "Total size of all content blocks in bytes",
+              "type": "number"
+            },
+            "structuredContent": {}
+          }
+        },
+        "error": {
+          "type": "object",
+          "properties": {
+            "message": {
+              "type": "string"
+            },
+            "code": {
+              "type": "string"
+            },
+            "stack": {
+              "type": "string"
+            }
+          },
+          "required": [
+            "message"
+          ]
+        },
+        "metadata": {
+          "type": "object",
+          "properties": {
+            "sessionId": {
+              "type": "string"
+            },
+            "agentId": {
+              "type": "string"
+            },
+            "userId": {
+              "type": "string"
+            },
+            "serverName": {
+              "type": "string"
+            },
+            "serverVersion": {
+              "type": "string"
+            },
+            "mcpServerId": {
+              "type": "string"
+            }
+          }
+        },
+        "truncated": {
+          "description": "Paths of fields that were truncated to fit the payload limits, e.g. `input`, `output.body`, `error.stack`.",
+          "type": "array",
+          "items": {
+            "type": "string"
+          }
+        },
+        "sampleWeight": {
+          "description": "Number of invocations this one represents (1 / sample rate). Set when sampling is configured.",
+          "type": "number"
+        },
+        "attributes": {
+          "description": "Custom attributes set through `SpanOptions.attributes` or `Span.setAttribute()`.",
+          "type": "object",
+          "additionalProperties": {
+            "$ref": "#/$defs/AttributeValue"
+          }
+        }
+      },
+      "required": [
+        "kind",
+        "uri",
+        "invocationId",
+        "toolName",
+        "timestamp",
+        "duration",
+        "success"
+      ]
+    },
+    "SessionEvent": {
+      "description": "Start or end of a client session. `start` is recorded once `initialize` was answered; `end` when the connection closes, with the session's length as `duration`.",
+      "type": "object",
+      "properties": {
+        "kind": {
+          "const": "session"
+        },
+        "event": {
+          "enum": [
+            "start",
+            "end"
+          ]
+        },
+        "client": {
+          "type": "object",
+          "properties": {
+            "name": {
+              "type": "string"
+            },
+            "version": {
+              "type": "string"
+            }
+          },
+          "required": [
+            "name"
+          ]
+        },
+        "protocolVersion": {
+          "description": "Protocol version agreed in `initialize`",
+          "type": "string"
+        },
+        "invocationId": {
+          "type": "string"
+        },
+        "toolName": {
+          "description": "Name of the record: the tool or span name, resource URI, prompt name, MCP method, or `session/start` and `session/end`. Kept on every kind so readers of schema 1.0 can still group records by name.",
+          "type": "string"
+        },
+        "traceId": {
+          "description": "Id shared by a traced tool call and every span inside it (32 lowercase hex characters).",
+          "type": "string",
+          "pattern": "^[0-9a-f]{32}$"
+        },
+        "parentInvocationId": {
+          "description": "`invocationId` of the enclosing invocation or span. Set on child records.",
+          "type": "string"
+        },
+        "spanId": {
+          "description": "W3C span id of this record (16 lowercase hex characters).",
+          "type": "string",
+          "pattern": "^[0-9a-f]{16}$"
+        },
+        "parentSpanId": {
+          "description": "W3C span id of the parent: the enclosing span for child records, or the remote caller from an incoming `traceparent` for the root.",
+          "type": "string",
+          "pattern": "^[0-9a-f]{16}$"
+        },
+        "method": {
+          "description": "MCP method that produced this invocation (e.g. `tools/call`, `resources/read`). Set by `instrumentServer()`; omitted for manually traced calls.",
+          "type": "string"
+        },
+        "requestId": {
+          "description": "JSON-RPC id of the MCP request that produced this invocation.",
+          "type": [
+            "string",
+            "number"
+          ]
+        },
+        "side": {
+          "description": "Which end of the MCP connection recorded this. Absent for the server side; `client` for calls recorded by `instrumentClient()`.",
+          "enum": [
+            "server",
+            "client"
+          ]
+        },
+        "targetServer": {
+          "description": "The server a client-side record called, as it advertised itself when the connection was initialized.",
+          "type": "object",
+          "properties": {
+            "name": {
+              "type": "string"
+            },
+            "version": {
+              "type": "string"
+            }
+          },
+          "required": [
+            "name"
+          ]
+        },
+        "timestamp": {
+          "description": "When the invocation finished (ISO 8601)",
+          "type": "string",
+          "format": "date-time"
+        },
+        "duration": {
+          "description": "Milliseconds from start to finish",
+          "type": "number",
+          "minimum": 0
+        },
+        "timeToFirstResponse": {
+          "description": "Milliseconds from start until the first message of the response, such as a progress notification or the result itself. Set by `Span.markFirstResponse()`.",
+          "type": "number",
+          "minimum": 0
+        },
+        "success": {
+          "type": "boolean"
+        },
+        "input": {
+          "type": "object"
+        },
+        "output": {
+          "type": "object",
+          "properties": {
+            "status": {
+              "type": "number"
+            },
+            "body": {},
+            "content": {
+              "description": "Summary of each content block of an MCP `CallToolResult`. When present, the raw result is not sent as `body`.",
+              "type": "array",
+              "items": {
+                "$ref": "#/$defs/ContentBlockSummary"
+              }
+            },
+            "contentCounts": {
+              "description": "Number of content blocks per block type",
+              "type": "object",
+              "additionalProperties": {
+                "type": "number"
+              }
+            },
+            "contentBytes": {
+              "description": "Total size of all content blocks in bytes",
+              "type": "number"
+            },
+            "structuredContent": {}
+          }
+        },
+        "error": {
+          "type": "object",
+          "properties": {
+            "message": {
+              "type": "string"
+            },
+            "code": {
+              "type": "string"
+            },
+            "stack": {
+              "type": "string"
+            }
+          },
+          "required": [
+            "message"
+          ]
+        },
+        "metadata": {
+          "type": "object",
+          "properties": {
+            "sessionId": {
+              "type": "string"
+            },
+            "agentId": {
+              "type": "string"
+            },
+            "userId": {
+              "type": "string"
+            },
+            "serverName": {
+              "type": "string"
+            },
+            "serverVersion": {
+              "type": "string"
+            },
+            "mcpServerId": {
+              "type": "string"
+            }
+          }
+        },
+        "truncated": {
+          "description": "Paths of fields that were truncated to fit the payload limits, e.g. `input`, `output.body`, `error.stack`.",
+          "type": "array",
+          "items": {
+            "type": "string"
+          }
+        },
+        "sampleWeight": {
+          "description": "Number of invocations this one represents (1 / sample rate). Set when sampling is configured.",
+          "type": "number"
+        },
+        "attributes": {
+          "description": "Custom attributes set through `SpanOptions.attributes` or `Span.setAttribute()`.",
+          "type": "object",
+          "additionalProperties": {
+            "$ref": "#/$defs/AttributeValue"
+          }
+        }
+      },
+      "required": [
+        "kind",
+        "event",
+        "invocationId",
+        "toolName",
+        "timestamp",
+        "duration",
+        "success"
+      ]
+    },
+    "TelemetryRecord": {
+      "description": "One record, as sent in `TelemetryBatch.invocations` and passed to `log()`. Records without a `kind` are tool calls.",
+      "anyOf": [
+        {
+          "$ref": "#/$defs/ToolInvocation"
+        },
+        {
+          "$ref": "#/$defs/ResourceInvocation"
+        },
+        {
+          "$ref": "#/$defs/PromptInvocation"
+        },
+        {
+          "$ref": "#/$defs/RequestInvocation"
+        },
+        {
+          "$ref": "#/$defs/SessionEvent"
+        }
+      ]
+    },
+    "ToolAggregate": {
+      "type": "object",
+      "properties": {
+        "toolName": {
+          "type": "string"
+        },
+        "start": {
+          "description": "Start and end of the reporting interval (ISO 8601)",
+          "type": "string"
+        },
+        "end": {
+          "type": "string"
+        },
+        "count": {
+          "type": "number"
+        },
+        "errors": {
+          "type": "number"
+        },
+        "latency": {
+          "type": "object",
+          "properties": {
+            "min": {
+              "type": "number"
+            },
+            "max": {
+              "type": "number"
+            },
+            "mean": {
+              "type": "number"
+            },
+            "p50": {
+              "type": "number"
+            },
+            "p95": {
+              "type": "number"
+            },
+            "p99": {
+              "type": "number"
+            },
+            "sum": {
+              "type": "number"
+            },
+            "bounds": {
+              "description": "Upper bounds of the histogram buckets in milliseconds; the last bucket is unbounded",
+              "type": "array",
+              "items": {
+                "type": "number"
+              }
+            },
+            "counts": {
+              "type": "array",
+              "items": {
+                "type": "number"
+              }
+            }
+          },
+          "required": [
+            "min",
+            "max",
+            "mean",
+            "p50",
+            "p95",
+            "p99",
+            "sum",
+            "bounds",
+            "counts"
+          ]
+        }
+      },
+      "required": [
+        "toolName",
+        "start",
+        "end",
+        "count",
+        "errors",
+        "latency"
+      ]
+    },
+    "ToolInvocation": {
+      "description": "A tool call, or a span created with `span()`",
+      "type": "object",
+      "properties": {
+        "kind": {
+          "description": "Absent on records written before schema 1.1",
+          "const": "tool"
+        },
+        "invocationId": {
+          "type": "string"
+        },
+        "toolName": {
+          "description": "Name of the record: the tool or span name, resource URI, prompt name, MCP method, or `session/start` and `session/end`. Kept on every kind so readers of schema 1.0 can still group records by name.",
+          "type": "string"
+        },
+        "traceId": {
+          "description": "Id shared by a traced tool call and every span inside it (32 lowercase hex characters).",
+          "type": "string",
+          "pattern": "^[0-9a-f]{32}$"
+        },
+        "parentInvocationId": {
+          "description": "`invocationId` of the enclosing invocation or span. Set on child records.",
+          "type": "string"
+        },
+        "spanId": {
+          "description": "W3C span id of this record (16 lowercase hex characters).",
+          "type": "string",
+          "pattern": "^[0-9a-f]{16}$"
+        },
+        "parentSpanId": {
+          "description": "W3C span id of the parent: the enclosing span for child records, or the remote caller from an incoming `traceparent` for the root.",
+          "type": "string",
+          "pattern": "^[0-9a-f]{16}$"
+        },
+        "method": {
+          "description": "MCP method that produced this invocation (e.g. `tools/call`, `resources/read`). Set by `instrumentServer()`; omitted for manually traced calls.",
+          "type": "string"
+        },
+        "requestId": {
+          "description": "JSON-RPC id of the MCP request that produced this invocation.",
+          "type": [
+            "string",
+            "number"
+          ]
+        },
+        "side": {
+          "description": "Which end of the MCP connection recorded this. Absent for the server side; `client` for calls recorded by `instrumentClient()`.",
+          "enum": [
+            "server",
+            "client"
+          ]
+        },
+        "targetServer": {
+          "description": "The server a client-side record called, as it advertised itself when the connection was initialized.",
+          "type": "object",
+          "properties": {
+            "name": {
+              "type": "string"
+            },
+            "version": {
+              "type": "string"
+            }
+          },
+          "required": [
+            "name"
+          ]
+        },
+        "timestamp": {
+          "description": "When the invocation finished (ISO 8601)",
+          "type": "string",
+          "format": "date-time"
+        },
+        "duration": {
+          "description": "Milliseconds from start to finish",
+          "type": "number",
+          "minimum": 0
+        },
+        "timeToFirstResponse": {
+          "description": "Milliseconds from start until the first message of the response, such as a progress notification or the result itself. Set by `Span.markFirstResponse()`.",
+          "type": "number",
+          "minimum": 0
+        },
+        "success": {
+          "type": "boolean"
+        },
+        "input": {
+          "type": "object"
+        },
+        "output": {
+          "type": "object",
+          "properties": {
+            "status": {
+              "type": "number"
+            },
+            "body": {},
+            "content": {
+              "description": "Summary of each content block of an MCP `CallToolResult`. When present, the raw result is not sent as `body`.",
+              "type": "array",
+              "items": {
+                "$ref": "#/$defs/ContentBlockSummary"
+              }
+            },
+            "contentCounts": {
+              "description": "Number of content blocks per block type",
+              "type": "object",
+              "additionalProperties": {
+                "type": "number"
+              }
+            },
+            "contentBytes": {
+              "description": "Total size of all content blocks in bytes",
+              "type": "number"
+            },
+            "structuredContent": {}
+          }
+        },
+        "error": {
+          "type": "object",
+          "properties": {
+            "message": {
+              "type": "string"
+            },
+            "code": {
+              "type": "string"
+            },
+            "stack": {
+              "type": "string"
+            }
+          },
+          "required": [
+            "message"
+          ]
+        },
+        "metadata": {
+          "type": "object",
+          "properties": {
+            "sessionId": {
+              "type": "string"
+            },
+            "agentId": {
+              "type": "string"
+            },
+            "userId": {
+              "type": "string"
+            },
+            "serverName": {
+              "type": "string"
+            },
+            "serverVersion": {
+              "type": "string"
+            },
+            "mcpServerId": {
+              "type": "string"
+            }
+          }
+        },
+        "truncated": {
+          "description": "Paths of fields that were truncated to fit the payload limits, e.g. `input`, `output.body`, `error.stack`.",
+          "type": "array",
+          "items": {
+            "type": "string"
+          }
+        },
+        "sampleWeight": {
+          "description": "Number of invocations this one represents (1 / sample rate). Set when sampling is configured.",
+          "type": "number"
+        },
+        "attributes": {
+          "description": "Custom attributes set through `SpanOptions.attributes` or `Span.setAttribute()`.",
+          "type": "object",
+          "additionalProperties": {
+            "$ref": "#/$defs/AttributeValue"
+          }
+        }
+      },
+      "required": [
+        "invocationId",
+        "toolName",
+        "timestamp",
+        "duration",
+        "success"
+      ]
+    }
+  }
+};
+
+export const TELEMETRY_RECORD_SCHEMA: JsonSchema = {
+  "$schema": "https://json-schema.org/draft/2020-12/schema",
+  "$comment": "Generated from src/types.ts for schemaVersion 1.2. Do not edit.",
+  "title": "TelemetryRecord",
+  "description": "One record, as sent in `TelemetryBatch.invocations` and passed to `log()`. Records without a `kind` are tool calls.",
+  "anyOf": [
+    {
+      "$ref": "#/$defs/ToolInvocation"
+    },
+    {
+      "$ref": "#/$defs/ResourceInvocation"
+    },
+    {
+      "$ref": "#/$defs/PromptInvocation"
+    },
+    {
+      "$ref": "#/$defs/RequestInvocation"
+    },
+    {
+      "$ref": "#/$defs/SessionEvent"
+    }
+  ],
+  "$defs": {
+    "AttributeValue": {
+      "type": [
+        "boolean",
+        "string",
+        "number"
+      ]
+    },
+    "ContentBlockSummary": {
+      "type": "object",
+      "properties": {
+        "type": {
+          "description": "Block type: text, image, audio, resource or resource_link",
+          "type": "string"
+        },
+        "bytes": {
+          "description": "Decoded size of the block's payload in bytes",
+          "type": "number"
+        },
+        "mimeType": {
+          "type": "string"
+        },
+        "uri": {
+          "type": "string"
+        },
+        "preview": {
+          "description": "Leading characters of text content",
+          "type": "string"
+        },
+        "truncated": {
+          "description": "True when `preview` is shorter than the original text",
+          "type": "boolean"
+        }
+      },
+      "required": [
+        "type",
+        "bytes"
+      ]
+    },
+    "PromptInvocation": {
+      "description": "A `prompts/get` request",
+      "type": "object",
+      "properties": {
+        "kind": {
+          "const": "prompt"
+        },
+        "promptName": {
+          "type": "string"
+        },
+        "invocationId": {
+          "type": "string"
+        },
+        "toolName": {
+          "description": "Name of the record: the tool or span name, resource URI, prompt name, MCP method, or `session/start` and `session/end`. Kept on every kind so readers of schema 1.0 can still group records by name.",
+          "type": "string"
+        },
+        "traceId": {
+          "description": "Id shared by a traced tool call and every span inside it (32 lowercase hex characters).",
+          "type": "string",
+          "pattern": "^[0-9a-f]{32}$"
+        },
+        "parentInvocationId": {
+          "description": "`invocationId` of the enclosing invocation or span. Set on child records.",
+          "type": "string"
+        },
+        "spanId": {
+          "description": "W3C span id of this record (16 lowercase hex characters).",
+          "type": "string",
+          "pattern": "^[0-9a-f]{16}$"
+        },
+        "parentSpanId": {
+          "description": "W3C span id of the parent: the enclosing span for child records, or the remote caller from an incoming `traceparent` for the root.",
+          "type": "string",
+          "pattern": "^[0-9a-f]{16}$"
+        },
+        "method": {
+          "description": "MCP method that produced this invocation (e.g. `tools/call`, `resources/read`). Set by `instrumentServer()`; omitted for manually traced calls.",
+          "type": "string"
+        },
+        "requestId": {
+          "description": "JSON-RPC id of the MCP request that produced this invocation.",
+          "type": [
+            "string",
+            "number"
+          ]
+        },
+        "side": {
+          "description": "Which end of the MCP connection recorded this. Absent for the server side; `client` for calls recorded by `instrumentClient()`.",
+          "enum": [
+            "server",
+            "client"
+          ]
+        },
+        "targetServer": {
+          "description": "The server a client-side record called, as it advertised itself when the connection was initialized.",
+          "type": "object",
+          "properties": {
+            "name": {
+              "type": "string"
+            },
+            "version": {
+              "type": "string"
+            }
+          },
+          "required": [
+            "name"
+          ]
+        },
+        "timestamp": {
+          "description": "When the invocation finished (ISO 8601)",
+          "type": "string",
+          "format": "date-time"
+        },
+        "duration": {
+          "description": "Milliseconds from start to finish",
+          "type": "number",
+          "minimum": 0
+        },
+        "timeToFirstResponse": {
+          "description": "Milliseconds from start until the first message of the response, such as a progress notification or the result itself. Set by `Span.markFirstResponse()`.",
+          "type": "number",
+          "minimum": 0
+        },
+        "success": {
+          "type": "boolean"
+        },
+        "input": {
+          "type": "object"
+        },
+        "output": {
+          "type": "object",
+          "properties": {
+            "status": {
+              "type": "number"
+            },
+            "body": {},
+            "content": {
+              "description": "Summary of each content block of an MCP `CallToolResult`. When present, the raw result is not sent as `body`.",
+              "type": "array",
+              "items": {
+                "$ref": "#/$defs/ContentBlockSummary"
+              }
+            },
+            "contentCounts": {
+              "description": "Number of content blocks per block type",
+              "type": "object",
+              "additionalProperties": {
+                "type": "number"
+              }
+            },
+            "contentBytes": {
+              "description": "Total size of all content blocks in bytes",
+              "type": "number"
+            },
+            "structuredContent": {}
+          }
+        },
+        "error": {
+          "type": "object",
+          "properties": {
+            "message": {
+              "type": "string"
+            },
+            "code": {
+              "type": "string"
+            },
+            "stack": {
+              "type": "string"
+            }
+          },
+          "required": [
+            "message"
+          ]
+        },
+        "metadata": {
+          "type": "object",
+          "properties": {
+            "sessionId": {
+              "type": "string"
+            },
+            "agentId": {
+              "type": "string"
+            },
+            "userId": {
+              "type": "string"
+            },
+            "serverName": {
+              "type": "string"
+            },
+            "serverVersion": {
+              "type": "string"
+            },
+            "mcpServerId": {
+              "type": "string"
+            }
+          }
+        },
+        "truncated": {
+          "description": "Paths of fields that were truncated to fit the payload limits, e.g. `input`, `output.body`, `error.stack`.",
+          "type": "array",
+          "items": {
+            "type": "string"
+          }
+        },
+        "sampleWeight": {
+          "description": "Number of invocations this one represents (1 / sample rate). Set when sampling is configured.",
+          "type": "number"
+        },
+        "attributes": {
+          "description": "Custom attributes set through `SpanOptions.attributes` or `Span.setAttribute()`.",
+          "type": "object",
+          "additionalProperties": {
+            "$ref": "#/$defs/AttributeValue"
+          }
+        }
+      },
+      "required": [
+        "kind",
+        "promptName",
+        "invocationId",
+        "toolName",
+        "timestamp",
+        "duration",
+        "success"
+      ]
+    },
+    "RequestInvocation": {
+      "description": "Any other MCP request, such as a list, a completion, or a sampling request sent to the client",
+      "type": "object",
+      "properties": {
+        "kind": {
+          "const": "request"
+        },
+        "method": {
+          "description": "MCP method that produced this invocation (e.g. `tools/call`, `resources/read`). Set by `instrumentServer()`; omitted for manually traced calls.",
+          "type": "string"
+        },
+        "invocationId": {
+          "type": "string"
+        },
+        "toolName": {
+          "description": "Name of the record: the tool or span name, resource URI, prompt name, MCP method, or `session/start` and `session/end`. Kept on every kind so readers of schema 1.0 can still group records by name.",
+          "type": "string"
+        },
+        "traceId": {
+          "description": "Id shared by a traced tool call and every span inside it (32 lowercase hex characters).",
+          "type": "string",
+          "pattern": "^[0-9a-f]{32}$"
+        },
+        "parentInvocationId": {
+          "description": "`invocationId` of the enclosing invocation or span. Set on child records.",
+          "type": "string"
+        },
+        "spanId": {
+          "description": "W3C span id of this record (16 lowercase hex characters).",
+          "type": "string",
+          "pattern": "^[0-9a-f]{16}$"
+        },
+        "parentSpanId": {
+          "description": "W3C span id of the parent: the enclosing span for child records, or the remote caller from an incoming `traceparent` for the root.",
+          "type": "string",
+          "pattern": "^[0-9a-f]{16}$"
+        },
+        "requestId": {
+          "description": "JSON-RPC id of the MCP request that produced this invocation.",
+          "type": [
+            "string",
+            "number"
+          ]
+        },
+        "side": {
+          "description": "Which end of the MCP connection recorded this. Absent for the server side; `client` for calls recorded by `instrumentClient()`.",
+          "enum": [
+            "server",
+            "client"
+          ]
+        },
+        "targetServer": {
+          "description": "The server a client-side record called, as it advertised itself when the connection was initialized.",
+          "type": "object",
+          "properties": {
+            "name": {
+              "type": "string"
+            },
+            "version": {
+              "type": "string"
+            }
+          },
+          "required": [
+            "name"
+          ]
+        },
+        "timestamp": {
+          "description": "When the invocation finished (ISO 8601)",
+          "type": "string",
+          "format": "date-time"
+        },
+        "duration": {
+          "description": "Milliseconds from start to finish",
+          "type": "number",
+          "minimum": 0
+        },
+        "timeToFirstResponse": {
+          "description": "Milliseconds from start until the first message of the response, such as a progress notification or the result itself. Set by `Span.markFirstResponse()`.",
+          "type": "number",
+          "minimum": 0
+        },
+        "success": {
+          "type": "boolean"
+        },
+        "input": {
+          "type": "object"
+        },
+        "output": {
+          "type": "object",
+          "properties": {
+            "status": {
+              "type": "number"
+            },
+            "body": {},
+            "content": {
+              "description": "Summary of each content block of an MCP `CallToolResult`. When present, the raw result is not sent as `body`.",
+              "type": "array",
+              "items": {
+                "$ref": "#/$defs/ContentBlockSummary"
+              }
+            },
+            "contentCounts": {
+              "description": "Number of content blocks per block type",
+              "type": "object",
+              "additionalProperties": {
+                "type": "number"
+              }
+            },
+            "contentBytes": {
+              "description": "Total size of all content blocks in bytes",
+              "type": "number"
+            },
+            "structuredContent": {}
+          }
+        },
+        "error": {
+          "type": "object",
+          "properties": {
+            "message": {
+              "type": "string"
+            },
+            "code": {
+              "type": "string"
+            },
+            "stack": {
+              "type": "string"
+            }
+          },
+          "required": [
+            "message"
+          ]
+        },
+        "metadata": {
+          "type": "object",
+          "properties": {
+            "sessionId": {
+              "type": "string"
+            },
+            "agentId": {
+              "type": "string"
+            },
+            "userId": {
+              "type": "string"
+            },
+            "serverName": {
+              "type": "string"
+            },
+            "serverVersion": {
+              "type": "string"
+            },
+            "mcpServerId": {
+              "type": "string"
+            }
+          }
+        },
+        "truncated": {
+          "description": "Paths of fields that were truncated to fit the payload limits, e.g. `input`, `output.body`, `error.stack`.",
+          "type": "array",
+          "items": {
+            "type": "string"
+          }
+        },
+        "sampleWeight": {
+          "description": "Number of invocations this one represents (1 / sample rate). Set when sampling is configured.",
+          "type": "number"
+        },
+        "attributes": {
+          "description": "Custom attributes set through `SpanOptions.attributes` or `Span.setAttribute()`.",
+          "type": "object",
+          "additionalProperties": {
+            "$ref": "#/$defs/AttributeValue"
+          }
+        }
+      },
+      "required": [
+        "kind",
+        "method",
+        "invocationId",
+        "toolName",
+        "timestamp",
+        "duration",
+        "success"
+      ]
+    },
+    "ResourceInvocation": {
+      "description": "A read of, or subscription to, one resource",
+      "type": "object",
+      "properties": {
+        "kind": {
+          "const": "resource"
+        },
+        "uri": {
+          "type": "string"
+        },
+        "invocationId": {
+          "type": "string"
+        },
+        "toolName": {
+          "description": "Name of the record: the tool or span name, resource URI, prompt name, MCP method, or `session/start` and `session/end`. Kept on every kind so readers of schema 1.0 can still group records by name.",
+          "type": "string"
+        },
+        "traceId": {
+          "description": "Id shared by a traced tool call and every span inside it (32 lowercase hex characters).",
+          "type": "string",
+          "pattern": "^[0-9a-f]{32}$"
+        },
+        "parentInvocationId": {
+          "description": "`invocationId` of the enclosing invocation or span. Set on child records.",
+          "type": "string"
+        },
+        "spanId": {
+          "description": "W3C span id of this record (16 lowercase hex characters).",
+          "type": "string",
+          "pattern": "^[0-9a-f]{16}$"
+        },
+        "parentSpanId": {
+          "description": "W3C span id of the parent: the enclosing span for child records, or the remote caller from an incoming `traceparent` for the root.",
+          "type": "string",
+          "pattern": "^[0-9a-f]{16}$"
+        },
+        "method": {
+          "description": "MCP method that produced this invocation (e.g. `tools/call`, `resources/read`). Set by `instrumentServer()`; omitted for manually traced calls.",
+          "type": "string"
+        },
+        "requestId": {
+          "description": "JSON-RPC id of the MCP request that produced this invocation.",
+          "type": [
+            "string",
+            "number"
+          ]
+        },
+        "side": {
+          "description": "Which end of the MCP connection recorded this. Absent for the server side; `client` for calls recorded by `instrumentClient()`.",
+          "enum": [
+            "server",
+            "client"
+          ]
+        },
+        "targetServer": {
+          "description": "The server a client-side record called, as it advertised itself when the connection was initialized.",
+          "type": "object",
+          "properties": {
+            "name": {
+              "type": "string"
+            },
+            "version": {
+              "type": "string"
+            }
+          },
+          "required": [
+            "name"
+          ]
+        },
+        "timestamp": {
+          "description": "When the invocation finished (ISO 8601)",
+          "type": "string",
+          "format": "date-time"
+        },
+        "duration": {
+          "description": "Milliseconds from start to finish",
+          "type": "number",
+          "minimum": 0
+        },
+        "timeToFirstResponse": {
+          "description": "Milliseconds from start until the first message of the response, such as a progress notification or the result itself. Set by `Span.markFirstResponse()`.",
+          "type": "number",
+          "minimum": 0
+        },
+        "success": {
+          "type": "boolean"
+        },
+        "input": {
+          "type": "object"
+        },
+        "output": {
+          "type": "object",
+          "properties": {
+            "status": {
+              "type": "number"
+            },
+            "body": {},
+            "content": {
+              "description": "Summary of each content block of an MCP `CallToolResult`. When present, the raw result is not sent as `body`.",
+              "type": "array",
+              "items": {
+                "$ref": "#/$defs/ContentBlockSummary"
+              }
+            },
+            "contentCounts": {
+              "description": "Number of content blocks per block type",
+              "type": "object",
+              "additionalProperties": {
+                "type": "number"
+              }
+            },
+            "contentBytes": {
+              "description": "Total size of all content blocks in bytes",
+              "type": "number"
+            },
+            "structuredContent": {}
+          }
+        },
+        "error": {
+          "type": "object",
+          "properties": {
+            "message": {
+              "type": "string"
+            },
+            "code": {
+              "type": "string"
+            },
+            "stack": {
+              "type": "string"
+            }
+          },
+          "required": [
+            "message"
+          ]
+        },
+        "metadata": {
+          "type": "object",
+          "properties": {
+            "sessionId": {
+              "type": "string"
+            },
+            "agentId": {
+              "type": "string"
+            },
+            "userId": {
+              "type": "string"
+            },
+            "serverName": {
+              "type": "string"
+            },
+            "serverVersion": {
+              "type": "string"
+            },
+            "mcpServerId": {
+              "type": "string"
+            }
+          }
+        },
+        "truncated": {
+          "description": "Paths of fields that were truncated to fit the payload limits, e.g. `input`, `output.body`, `error.stack`.",
+          "type": "array",
+          "items": {
+            "type": "string"
+          }
+        },
+        "sampleWeight": {
+          "description": "Number of invocations this one represents (1 / sample rate). Set when sampling is configured.",
+          "type": "number"
+        },
+        "attributes": {
+          "description": "Custom attributes set through `SpanOptions.attributes` or `Span.setAttribute()`.",
+          "type": "object",
+          "additionalProperties": {
+            "$ref": "#/$defs/AttributeValue"
+          }
+        }
+      },
+      "required": [
+        "kind",
+        "uri",
+        "invocationId",
+        "toolName",
+        "timestamp",
+        "duration",
+        "success"
+      ]
+    },
+    "SessionEvent": {
+      "description": "Start or end of a client session. `start` is recorded once `initialize` was answered; `end` when the connection closes, with the session's length as `duration`.",
+      "type": "object",
+      "properties": {
+        "kind": {
+          "const": "session"
+        },
+        "event": {
+          "enum": [
+            "start",
+            "end"
+          ]
+        },
+        "client": {
+          "type": "object",
+          "properties": {
+            "name": {
+              "type": "string"
+            },
+            "version": {
+              "type": "string"
+            }
+          },
+          "required": [
+            "name"
+          ]
+        },
+        "protocolVersion": {
+          "description": "Protocol version agreed in `initialize`",
+          "type": "string"
+        },
+        "invocationId": {
+          "type": "string"
+        },
+        "toolName": {
+          "description": "Name of the record: the tool or span name, resource URI, prompt name, MCP method, or `session/start` and `session/end`. Kept on every kind so readers of schema 1.0 can still group records by name.",
+          "type": "string"
+        },
+        "traceId": {
+          "description": "Id shared by a traced tool call and every span inside it (32 lowercase hex characters).",
+          "type": "string",
+          "pattern": "^[0-9a-f]{32}$"
+        },
+        "parentInvocationId": {
+          "description": "`invocationId` of the enclosing invocation or span. Set on child records.",
+          "type": "string"
+        },
+        "spanId": {
+          "description": "W3C span id of this record (16 lowercase hex characters).",
+          "type": "string",
+          "pattern": "^[0-9a-f]{16}$"
+        },
+        "parentSpanId": {
+          "description": "W3C span id of the parent: the enclosing span for child records, or the remote caller from an incoming `traceparent` for the root.",
+          "type": "string",
+          "pattern": "^[0-9a-f]{16}$"
+        },
+        "method": {
+          "description": "MCP method that produced this invocation (e.g. `tools/call`, `resources/read`). Set by `instrumentServer()`; omitted for manually traced calls.",
+          "type": "string"
+        },
+        "requestId": {
+          "description": "JSON-RPC id of the MCP request that produced this invocation.",
+          "type": [
+            "string",
+            "number"
+          ]
+        },
+        "side": {
+          "description": "Which end of the MCP connection recorded this. Absent for the server side; `client` for calls recorded by `instrumentClient()`.",
+          "enum": [
+            "server",
+            "client"
+          ]
+        },
+        "targetServer": {
+          "description": "The server a client-side record called, as it advertised itself when the connection was initialized.",
+          "type": "object",
+          "properties": {
+            "name": {
+              "type": "string"
+            },
+            "version": {
+              "type": "string"
+            }
+          },
+          "required": [
+            "name"
+          ]
+        },
+        "timestamp": {
+          "description": "When the invocation finished (ISO 8601)",
+          "type": "string",
+          "format": "date-time"
+        },
+        "duration": {
+          "description": "Milliseconds from start to finish",
+          "type": "number",
+          "minimum": 0
+        },
+        "timeToFirstResponse": {
+          "description": "Milliseconds from start until the first message of the response, such as a progress notification or the result itself. Set by `Span.markFirstResponse()`.",
+          "type": "number",
+          "minimum": 0
+        },
+        "success": {
+          "type": "boolean"
+        },
+        "input": {
+          "type": "object"
+        },
+        "output": {
+          "type": "object",
+          "properties": {
+            "status": {
+              "type": "number"
+            },
+            "body": {},
+            "content": {
+              "description": "Summary of each content block of an MCP `CallToolResult`. When present, the raw result is not sent as `body`.",
+              "type": "array",
+              "items": {
+                "$ref": "#/$defs/ContentBlockSummary"
+              }
+            },
+            "contentCounts": {
+              "description": "Number of content blocks per block type",
+              "type": "object",
+              "additionalProperties": {
+                "type": "number"
+              }
+            },
+            "contentBytes": {
+              "description": "Total size of all content blocks in bytes",
+              "type": "number"
+            },
+            "structuredContent": {}
+          }
+        },
+        "error": {
+          "type": "object",
+          "properties": {
+            "message": {
+              "type": "string"
+            },
+            "code": {
+              "type": "string"
+            },
+            "stack": {
+              "type": "string"
+            }
+          },
+          "required": [
+            "message"
+          ]
+        },
+        "metadata": {
+          "type": "object",
+          "properties": {
+            "sessionId": {
+              "type": "string"
+            },
+            "agentId": {
+              "type": "string"
+            },
+            "userId": {
+              "type": "string"
+            },
+            "serverName": {
+              "type": "string"
+            },
+            "serverVersion": {
+              "type": "string"
+            },
+            "mcpServerId": {
+              "type": "string"
+            }
+          }
+        },
+        "truncated": {
+          "description": "Paths of fields that were truncated to fit the payload limits, e.g. `input`, `output.body`, `error.stack`.",
+          "type": "array",
+          "items": {
+            "type": "string"
+          }
+        },
+        "sampleWeight": {
+          "description": "Number of invocations this one represents (1 / sample rate). Set when sampling is configured.",
+          "type": "number"
+        },
+        "attributes": {
+          "description": "Custom attributes set through `SpanOptions.attributes` or `Span.setAttribute()`.",
+          "type": "object",
+          "additionalProperties": {
+            "$ref": "#/$defs/AttributeValue"
+          }
+        }
+      },
+      "required": [
+        "kind",
+        "event",
+        "invocationId",
+        "toolName",
+        "timestamp",
+        "duration",
+        "success"
+      ]
+    },
+    "ToolInvocation": {
+      "description": "A tool call, or a span created with `span()`",
+      "type": "object",
+      "properties": {
+        "kind": {
+          "description": "Absent on records written before schema 1.1",
+          "const": "tool"
+        },
+        "invocationId": {
+          "type": "string"
+        },
+        "toolName": {
+          "description": "Name of the record: the tool or span name, resource URI, prompt name, MCP method, or `session/start` and `session/end`. Kept on every kind so readers of schema 1.0 can still group records by name.",
+          "type": "string"
+        },
+        "traceId": {
+          "description": "Id shared by a traced tool call and every span inside it (32 lowercase hex characters).",
+          "type": "string",
+          "pattern": "^[0-9a-f]{32}$"
+        },
+        "parentInvocationId": {
+          "description": "`invocationId` of the enclosing invocation or span. Set on child records.",
+          "type": "string"
+        },
+        "spanId": {
+          "description": "W3C span id of this record (16 lowercase hex characters).",
+          "type": "string",
+          "pattern": "^[0-9a-f]{16}$"
+        },
+        "parentSpanId": {
+          "description": "W3C span id of the parent: the enclosing span for child records, or the remote caller from an incoming `traceparent` for the root.",
+          "type": "string",
+          "pattern": "^[0-9a-f]{16}$"
+        },
+        "method": {
+          "description": "MCP method that produced this invocation (e.g. `tools/call`, `resources/read`). Set by `instrumentServer()`; omitted for manually traced calls.",
+          "type": "string"
+        },
+        "requestId": {
+          "description": "JSON-RPC id of the MCP request that produced this invocation.",
+          "type": [
+            "string",
+            "number"
+          ]
+        },
+        "side": {
+          "description": "Which end of the MCP connection recorded this. Absent for the server side; `client` for calls recorded by `instrumentClient()`.",
+          "enum": [
+            "server",
+            "client"
+          ]
+        },
+        "targetServer": {
+          "description": "The server a client-side record called, as it advertised itself when the connection was initialized.",
+          "type": "object",
+          "properties": {
+            "name": {
+              "type": "string"
+            },
+            "version": {
+              "type": "string"
+            }
+          },
+          "required": [
+            "name"
+          ]
+        },
+        "timestamp": {
+          "description": "When the invocation finished (ISO 8601)",
+          "type": "string",
+          "format": "date-time"
+        },
+        "duration": {
+          "description": "Milliseconds from start to finish",
+          "type": "number",
+          "minimum": 0
+        },
+        "timeToFirstResponse": {
+          "description": "Milliseconds from start until the first message of the response, such as a progress notification or the result itself. Set by `Span.markFirstResponse()`.",
+          "type": "number",
+          "minimum": 0
+        },
+        "success": {
+          "type": "boolean"
+        },
+        "input": {
+          "type": "object"
+        },
+        "output": {
+          "type": "object",
+          "properties": {
+            "status": {
+              "type": "number"
+            },
+            "body": {},
+            "content": {
+              "description": "Summary of each content block of an MCP `CallToolResult`. When present, the raw result is not sent as `body`.",
+              "type": "array",
+              "items": {
+                "$ref": "#/$defs/ContentBlockSummary"
+              }
+            },
+            "contentCounts": {
+              "description": "Number of content blocks per block type",
+              "type": "object",
+              "additionalProperties": {
+                "type": "number"
+              }
+            },
+            "contentBytes": {
+              "description": "Total size of all content blocks in bytes",
+              "type": "number"
+            },
+            "structuredContent": {}
+          }
+        },
+        "error": {
+          "type": "object",
+          "properties": {
+            "message": {
+              "type": "string"
+            },
+            "code": {
+              "type": "string"
+            },
+            "stack": {
+              "type": "string"
+            }
+          },
+          "required": [
+            "message"
+          ]
+        },
+        "metadata": {
+          "type": "object",
+          "properties": {
+            "sessionId": {
+              "type": "string"
+            },
+            "agentId": {
+              "type": "string"
+            },
+            "userId": {
+              "type": "string"
+            },
+            "serverName": {
+              "type": "string"
+            },
+            "serverVersion": {
+              "type": "string"
+            },
+            "mcpServerId": {
+              "type": "string"
+            }
+          }
+        },
+        "truncated": {
+          "description": "Paths of fields that were truncated to fit the payload limits, e.g. `input`, `output.body`, `error.stack`.",
+          "type": "array",
+          "items": {
+            "type": "string"
+          }
+        },
+        "sampleWeight": {
+          "description": "Number of invocations this one represents (1 / sample rate). Set when sampling is configured.",
+          "type": "number"
+        },
+        "attributes": {
+          "description": "Custom attributes set through `SpanOptions.attributes` or `Span.setAttribute()`.",
+          "type": "object",
+          "additionalProperties": {
+            "$ref": "#/$defs/AttributeValue"
+          }
+        }
+      },
+      "required": [
+        "invocationId",
+        "toolName",
+        "timestamp",
+        "duration",
+        "success"
+      ]
+    }
+  }
+};
+
+export const TOOL_INVOCATION_SCHEMA: JsonSchema = {
+  "$schema": "https://json-schema.org/draft/2020-12/schema",
+  "$comment": "Generated from src/types.ts for schemaVersion 1.2. Do not edit.",
+  "title": "ToolInvocation",
+  "description": "A tool call, or a span created with `span()`",
+  "type": "object",
+  "properties": {
+    "kind": {
+      "description": "Absent on records written before schema 1.1",
+      "const": "tool"
+    },
+    "invocationId": {
+      "type": "string"
+    },
+    "toolName": {
+      "description": "Name of the record: the tool or span name, resource URI, prompt name, MCP method, or `session/start` and `session/end`. Kept on every kind so readers of schema 1.0 can still group records by name.",
+      "type": "string"
+    },
+    "traceId": {
+      "description": "Id shared by a traced tool call and every span inside it (32 lowercase hex characters).",
+      "type": "string",
+      "pattern": "^[0-9a-f]{32}$"
+    },
+    "parentInvocationId": {
+      "description": "`invocationId` of the enclosing invocation or span. Set on child records.",
+      "type": "string"
+    },
+    "spanId": {
+      "description": "W3C span id of this record (16 lowercase hex characters).",
+      "type": "string",
+      "pattern": "^[0-9a-f]{16}$"
+    },
+    "parentSpanId": {
+      "description": "W3C span id of the parent: the enclosing span for child records, or the remote caller from an incoming `traceparent` for the root.",
+      "type": "string",
+      "pattern": "^[0-9a-f]{16}$"
+    },
+    "method": {
+      "description": "MCP method that produced this invocation (e.g. `tools/call`, `resources/read`). Set by `instrumentServer()`; omitted for manually traced calls.",
+      "type": "string"
+    },
+    "requestId": {
+      "description": "JSON-RPC id of the MCP request that produced this invocation.",
+      "type": [
+        "string",
+        "number"
+      ]
+    },
+    "side": {
+      "description": "Which end of the MCP connection recorded this. Absent for the server side; `client` for calls recorded by `instrumentClient()`.",
+      "enum": [
+        "server",
+        "client"
+      ]
+    },
+    "targetServer": {
+      "description": "The server a client-side record called, as it advertised itself when the connection was initialized.",
+      "type": "object",
+      "properties": {
+        "name": {
+          "type": "string"
+        },
+        "version": {
+          "type": "string"
+        }
+      },
+      "required": [
+        "name"
+      ]
+    },
+    "timestamp": {
+      "description": "When the invocation finished (ISO 8601)",
+      "type": "string",
+      "format": "date-time"
+    },
+    "duration": {
+      "description": "Milliseconds from start to finish",
+      "type": "number",
+      "minimum": 0
+    },
+    "timeToFirstResponse": {
+      "description": "Milliseconds from start until the first message of the response, such as a progress notification or the result itself. Set by `Span.markFirstResponse()`.",
+      "type": "number",
+      "minimum": 0
+    },
+    "success": {
+      "type": "boolean"
+    },
+    "input": {
+      "type": "object"
+    },
+    "output": {
+      "type": "object",
+      "properties": {
+        "status": {
+          "type": "number"
+        },
+        "body": {},
+        "content": {
+          "description": "Summary of each content block of an MCP `CallToolResult`. When present, the raw result is not sent as `body`.",
+          "type": "array",
+          "items": {
+            "$ref": "#/$defs/ContentBlockSummary"
+          }
+        },
+        "contentCounts": {
+          "description": "Number of content blocks per block type",
+          "type": "object",
+          "additionalProperties": {
+            "type": "number"
+          }
+        },
+        "contentBytes": {
+          "description": "Total size of all content blocks in bytes",
+          "type": "number"
+        },
+        "structuredContent": {}
+      }
+    },
+    "error": {
+      "type": "object",
+      "properties": {
+        "message": {
+          "type": "string"
+        },
+        "code": {
+          "type": "string"
+        },
+        "stack": {
+          "type": "string"
+        }
+      },
+      "required": [
+        "message"
+      ]
+    },
+    "metadata": {
+      "type": "object",
+      "properties": {
+        "sessionId": {
+          "type": "string"
+        },
+        "agentId": {
+          "type": "string"
+        },
+        "userId": {
+          "type": "string"
+        },
+        "serverName": {
+          "type": "string"
+        },
+        "serverVersion": {
+          "type": "string"
+        },
+        "mcpServerId": {
+          "type": "string"
+        }
+      }
+    },
+    "truncated": {
+      "description": "Paths of fields that were truncated to fit the payload limits, e.g. `input`, `output.body`, `error.stack`.",
+      "type": "array",
+      "items": {
+        "type": "string"
+      }
+    },
+    "sampleWeight": {
+      "description": "Number of invocations this one represents (1 / sample rate). Set when sampling is configured.",
+      "type": "number"
+    },
+    "attributes": {
+      "description": "Custom attributes set through `SpanOptions.attributes` or `Span.setAttribute()`.",
+      "type": "object",
+      "additionalProperties": {
+        "$ref": "#/$defs/AttributeValue"
+      }
+    }
+  },
+  "required": [
+    "invocationId",
+    "toolName",
+    "timestamp",
+    "duration",
+    "success"
+  ],
+  "$defs": {
+    "AttributeValue": {
+      "type": [
+        "boolean",
+        "string",
+        "number"
+      ]
+    },
+    "ContentBlockSummary": {
+      "type": "object",
+      "properties": {
+        "type": {
+          "description": "Block type: text, image, audio, resource or resource_link",
+          "type": "string"
+        },
+        "bytes": {
+          "description": "Decoded size of the block's payload in bytes",
+          "type": "number"
+        },
+        "mimeType": {
+          "type": "string"
+        },
+        "uri": {
+          "type": "string"
+        },
+        "preview": {
+          "description": "Leading characters of text content",
+          "type": "string"
+        },
+        "truncated": {
+          "description": "True when `preview` is shorter than the original text",
+          "type": "boolean"
+        }
+      },
+      "required": [
+        "type",
+        "bytes"
+      ]
+    }
+  }
+};
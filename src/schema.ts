@@ -0,0 +1,207 @@
+/**
+ * Versioned wire schema and runtime validation
+ *
+ * The JSON Schemas in schema.generated.ts are generated from types.ts (see
+ * scripts/generate-schema.mjs) and published in `schema/`, so the SDK and
+ * backends check records against the same contract.
+ */
+
+import { TELEMETRY_BATCH_SCHEMA, TELEMETRY_RECORD_SCHEMA } from './schema.generated.js';
+
+/**
+ * Version of the wire format, sent as `TelemetryBatch.schemaVersion`. Bump
+ * the minor version when adding optional fields and the major version for
+ * anything a backend on the previous version could not read.
+ */
+export const SCHEMA_VERSION = '1.2';
+
+type JsonType = 'string' | 'number' | 'boolean' | 'object' | 'array';
+
+/** The subset of JSON Schema the generator emits */
+export interface JsonSchema {
+  $schema?: string;
+  $comment?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  title?: string;
+  description?: string;
+  type?: JsonType | JsonType[];
+  const?: unknown;
+  enum?: unknown[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: JsonSchema;
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+  minimum?: number;
+  maximum?: number;
+  pattern?: string;
+  format?: string;
+}
+
+/**
+ * Thrown or reported for a record that does not match the wire schema.
+ * `errors` has one message per problem.
+ */
+export class EmcyValidationError extends Error {
+  readonly errors: string[];
+
+  constructor(subject: string, errors: string[]) {
+    super(`[emcy] Invalid ${subject}: ${errors.join('; ')}`);
+    this.name = 'EmcyValidationError';
+    this.errors = errors;
+  }
+}
+
+/**
+ * Check a value against the `TelemetryRecord` schema, for any record kind.
+ * Returns one message per problem, or an empty array.
+ */
+export function validateInvocation(value: unknown): string[] {
+  return validate(TELEMETRY_RECORD_SCHEMA, value, 'invocation');
+}
+
+/**
+ * Check a value against the `TelemetryBatch` schema. Returns one message
+ * per problem, or an empty array.
+ */
+export function validateBatch(value: unknown): string[] {
+  return validate(TELEMETRY_BATCH_SCHEMA, value, 'batch');
+}
+
+/**
+ * Whether a batch with this `schemaVersion` can be read by code written
+ * against `SCHEMA_VERSION`: same major version, any minor
+ */
+export function isSupportedSchemaVersion(version: string): boolean {
+  return version.split('.')[0] === SCHEMA_VERSION.split('.')[0];
+}
+
+function validate(root: JsonSchema, value: unknown, subject: string): string[] {
+  const errors: string[] = [];
+  check(root, root, value, '', subject, errors);
+  return errors;
+}
+
+function check(root: JsonSchema, schema: JsonSchema, value: unknown, path: string, subject: string, errors: string[]): void {
+  const label = path || subject;
+
+  if (schema.$ref) {
+    const name = schema.$ref.replace('#/$defs/', '');
+    const target = root.$defs?.[name];
+    if (!target) throw new Error(`[emcy] Unknown schema reference ${schema.$ref}`);
+    check(root, target, value, path, subject, errors);
+    return;
+  }
+
+  if (schema.anyOf) {
+    // Records are checked against the shape their kind selects
+    const selected = selectByKind(root, schema.anyOf, value);
+    if (selected) {
+      check(root, selected, value, path, subject, errors);
+      return;
+    }
+
+    let closest: string[] | undefined;
+    for (const option of schema.anyOf) {
+      const optionErrors: string[] = [];
+      check(root, option, value, path, subject, optionErrors);
+      if (optionErrors.length === 0) return;
+      if (!closest || optionErrors.length < closest.length) closest = optionErrors;
+    }
+    errors.push(...closest ?? [`${label} does not match any allowed shape`]);
+    return;
+  }
+
+  if (schema.const !== undefined && value !== schema.const) {
+    errors.push(`${label} must be ${JSON.stringify(schema.const)}`);
+    return;
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${label} must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+    return;
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => hasType(value, type))) {
+      errors.push(`${label} must be ${types.map(withArticle).join(' or ')}`);
+      return;
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${label} must be at least ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${label} must be at most ${schema.maximum}`);
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${label} must match ${schema.pattern}`);
+    }
+    if (schema.format === 'date-time' && Number.isNaN(Date.parse(value))) {
+      errors.push(`${label} must be an ISO 8601 date-time`);
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => check(root, schema.items!, item, `${path}[${index}]`, subject, errors));
+  }
+
+  if (hasType(value, 'object')) {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (record[key] === undefined) errors.push(`${join(path, key)} is required`);
+    }
+    for (const [key, field] of Object.entries(record)) {
+      // Undefined fields are dropped by JSON.stringify, so they are the same as absent
+      if (field === undefined) continue;
+      const fieldSchema = schema.properties?.[key] ?? schema.additionalProperties;
+      if (fieldSchema) check(root, fieldSchema, field, join(path, key), subject, errors);
+    }
+  }
+}
+
+/**
+ * The one option whose `kind` matches the value's, treating an optional
+ * `kind` as matching records without one
+ */
+function selectByKind(root: JsonSchema, options: JsonSchema[], value: unknown): JsonSchema | undefined {
+  if (!hasType(value, 'object')) return undefined;
+  const kind = (value as Record<string, unknown>).kind;
+
+  const matching = options
+    .map(option => option.$ref ? root.$defs?.[option.$ref.replace('#/$defs/', '')] : option)
+    .filter(option => {
+      const declared = option?.properties?.kind?.const;
+      if (declared === undefined) return false;
+      return kind === undefined ? !option!.required?.includes('kind') : declared === kind;
+    });
+  return matching.length === 1 ? matching[0] : undefined;
+}
+
+function hasType(value: unknown, type: JsonType): boolean {
+  switch (type) {
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'number':
+      // NaN and Infinity have no JSON representation
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function withArticle(type: JsonType): string {
+  return type === 'object' || type === 'array' ? `an ${type}` : `a ${type}`;
+}
+
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
@@ -0,0 +1,260 @@
+/**
+ * Durable disk spool for batches that could not be delivered
+ *
+ * Failed batches are written as JSONL segments (one invocation per line)
+ * and replayed oldest-first on the next start or after a later send
+ * succeeds. A lock file ensures only one process uses a spool directory.
+ */
+
+import * as fs from 'node:fs';
+import * as fsp from 'node:fs/promises';
+import * as path from 'node:path';
+import type { DropReason, Logger, SpoolConfig, TelemetryRecord } from './types.js';
+import { consoleLogger } from './logger.js';
+
+const DEFAULT_MAX_BYTES = 50 * 1024 * 1024; // 50 MB
+const DEFAULT_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+const LOCK_FILE = 'spool.lock';
+const SEGMENT_PATTERN = /^(\d{13})-\d+-\d+\.jsonl$/;
+
+type DiscardReason = Extract<DropReason, 'spool_expired' | 'spool_full'>;
+type DiscardListener = (invocations: TelemetryRecord[], reason: DiscardReason) => void;
+
+export class DiskSpool {
+  private directory: string;
+  private maxBytes: number;
+  private maxAgeMs: number;
+  private debug: boolean;
+  private logger: Logger;
+  private locked = false;
+  private sequence = 0;
+  private discardListener: DiscardListener | null = null;
+
+  constructor(config: SpoolConfig, debug = false, logger: Logger = consoleLogger) {
+    this.directory = config.directory;
+    this.maxBytes = config.maxBytes ?? DEFAULT_MAX_BYTES;
+    this.maxAgeMs = config.maxAgeMs ?? DEFAULT_MAX_AGE_MS;
+    this.debug = debug;
+    this.logger = logger;
+  }
+
+  /**
+   * Take the spool lock. Returns false if another live process holds it.
+   * A lock left behind by a dead process is taken over.
+   */
+  acquire(): boolean {
+    if (this.locked) return true;
+
+    fs.mkdirSync(this.directory, { recursive: true });
+    const lockPath = path.join(this.directory, LOCK_FILE);
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        fs.writeFileSync(lockPath, String(process.pid), { flag: 'wx' });
+        this.locked = true;
+        return true;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+        if (isProcessAlive(readLockPid(lockPath))) {
+          if (this.debug) {
+            this.logger.warn(`[emcy] Spool ${this.directory} is locked by another process`);
+          }
+          return false;
+        }
+        fs.rmSync(lockPath, { force: true });
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Release the spool lock.
+   */
+  release(): void {
+    if (!this.locked) return;
+    fs.rmSync(path.join(this.directory, LOCK_FILE), { force: true });
+    this.locked = false;
+  }
+
+  /**
+   * Call `listener` with the invocations of each segment discarded for its
+   * age or to stay within `maxBytes`.
+   */
+  onDiscard(listener: DiscardListener): void {
+    this.discardListener = listener;
+  }
+
+  /**
+   * Append invocations as a new segment.
+   */
+  async write(invocations: TelemetryRecord[]): Promise<void> {
+    if (!this.locked || invocations.length === 0) return;
+
+    const target = this.nextSegmentPath();
+    await fsp.writeFile(`${target}.tmp`, serialize(invocations));
+    await fsp.rename(`${target}.tmp`, target);
+    await this.enforceLimits();
+
+    if (this.debug) {
+      this.logger.debug(`[emcy] Spooled ${invocations.length} invocations to ${target}`);
+    }
+  }
+
+  /**
+   * Synchronous variant of `write()` for use in process `exit` handlers,
+   * where asynchronous work never completes.
+   */
+  writeSync(invocations: TelemetryRecord[]): void {
+    if (!this.locked || invocations.length === 0) return;
+
+    const target = this.nextSegmentPath();
+    fs.writeFileSync(`${target}.tmp`, serialize(invocations));
+    fs.renameSync(`${target}.tmp`, target);
+  }
+
+  /**
+   * Whether any segments are waiting to be replayed.
+   */
+  async hasPending(): Promise<boolean> {
+    if (!this.locked) return false;
+    return (await this.listSegments()).length > 0;
+  }
+
+  /**
+   * Replay segments oldest-first. Each segment is cut into batches by
+   * `split` and passed to `send`, which resolves true once a batch is
+   * settled, whether delivered or rejected for good. After each settled
+   * batch the segment is rewritten with only what is left, so when `send`
+   * resolves false, replay stops and keeps just the unsettled invocations
+   * for the next replay.
+   * Malformed lines are skipped and segments past `maxAgeMs` are discarded.
+   */
+  async replay(
+    send: (invocations: TelemetryRecord[]) => Promise<boolean>,
+    split: (invocations: TelemetryRecord[]) => TelemetryRecord[][] = invocations => [invocations]
+  ): Promise<number> {
+    if (!this.locked) return 0;
+
+    let replayed = 0;
+    for (const segment of await this.listSegments()) {
+      const file = path.join(this.directory, segment.name);
+
+      if (Date.now() - segment.createdAt > this.maxAgeMs) {
+        await this.discard(file, 'spool_expired');
+        continue;
+      }
+
+      let remaining = await readSegment(file);
+      for (const batch of remaining.length > 0 ? split(remaining) : []) {
+        if (!(await send(batch))) {
+          this.logReplayed(replayed);
+          return replayed;
+        }
+
+        replayed += batch.length;
+        remaining = remaining.slice(batch.length);
+        if (remaining.length > 0) {
+          await fsp.writeFile(`${file}.tmp`, serialize(remaining));
+          await fsp.rename(`${file}.tmp`, file);
+        }
+      }
+
+      await fsp.rm(file, { force: true });
+    }
+
+    this.logReplayed(replayed);
+    return replayed;
+  }
+
+  private logReplayed(replayed: number): void {
+    if (this.debug && replayed > 0) {
+      this.logger.debug(`[emcy] Replayed ${replayed} spooled invocations`);
+    }
+  }
+
+  private nextSegmentPath(): string {
+    const name = `${String(Date.now()).padStart(13, '0')}-${process.pid}-${this.sequence++}.jsonl`;
+    return path.join(this.directory, name);
+  }
+
+  private async listSegments(): Promise<{ name: string; createdAt: number }[]> {
+    const names = await fsp.readdir(this.directory).catch(() => [] as string[]);
+    return names
+      .map(name => ({ name, match: SEGMENT_PATTERN.exec(name) }))
+      .filter((entry): entry is { name: string; match: RegExpExecArray } => entry.match !== null)
+      .map(({ name, match }) => ({ name, createdAt: Number(match[1]) }))
+      .sort((a, b) => a.name.localeCompare(b.name, 'en', { numeric: true }));
+  }
+
+  /**
+   * Delete the oldest segments until the spool fits in `maxBytes`.
+   */
+  private async enforceLimits(): Promise<void> {
+    const segments = await this.listSegments();
+    const sizes = await Promise.all(
+      segments.map(segment =>
+        fsp.stat(path.join(this.directory, segment.name)).then(stat => stat.size, () => 0)
+      )
+    );
+
+    let total = sizes.reduce((sum, size) => sum + size, 0);
+    for (let i = 0; i < segments.length && total > this.maxBytes; i++) {
+      await this.discard(path.join(this.directory, segments[i].name), 'spool_full');
+      total -= sizes[i];
+
+      if (this.debug) {
+        this.logger.warn(`[emcy] Spool over ${this.maxBytes} bytes, discarded ${segments[i].name}`);
+      }
+    }
+  }
+
+  private async discard(file: string, reason: DiscardReason): Promise<void> {
+    const invocations = this.discardListener ? await readSegment(file) : [];
+    await fsp.rm(file, { force: true });
+    if (invocations.length > 0) {
+      this.discardListener?.(invocations, reason);
+    }
+  }
+}
+
+function serialize(invocations: TelemetryRecord[]): string {
+  return invocations.map(invocation => JSON.stringify(invocation)).join('\n') + '\n';
+}
+
+async function readSegment(file: string): Promise<TelemetryRecord[]> {
+  const content = await fsp.readFile(file, 'utf8').catch(() => '');
+  const invocations: TelemetryRecord[] = [];
+
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const parsed = JSON.parse(line);
+      if (parsed && typeof parsed === 'object' && typeof parsed.toolName === 'string') {
+        invocations.push(parsed);
+      }
+    } catch {
+      // A torn write or corrupted line; skip it and keep the rest
+    }
+  }
+  return invocations;
+}
+
+function readLockPid(lockPath: string): number | null {
+  try {
+    const pid = Number(fs.readFileSync(lockPath, 'utf8').trim());
+    return Number.isInteger(pid) && pid > 0 ? pid : null;
+  } catch {
+    return null;
+  }
+}
+
+function isProcessAlive(pid: number | null): boolean {
+  if (pid === null) return false;
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * In-process per-tool statistics
+ *
+ * Keeps call counts, error counts and latency histograms per tool in time
+ * buckets, so `getStats()` can answer for any recent sliding window without
+ * storing individual invocations. Separately accumulates totals between
+ * reports for the periodic aggregates sent with batches.
+ */
+
+import type { Clock, LatencySummary, StatsConfig, StatsSnapshot, TelemetryRecord, ToolAggregate } from './types.js';
+import { systemClock } from './context.js';
+
+/** Upper bucket bounds in milliseconds; durations above the last fall into an overflow bucket */
+export const LATENCY_BOUNDS = [1, 2, 5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000, 60000];
+
+const DEFAULT_MAX_WINDOW = 15 * 60 * 1000;
+const DEFAULT_BUCKET = 10 * 1000;
+export const DEFAULT_STATS_WINDOW = 60 * 1000;
+
+/**
+ * Fixed-bucket latency histogram. Percentiles are interpolated within the
+ * bucket they fall in, so they are estimates bounded by the bucket width.
+ */
+export class LatencyHistogram {
+  readonly counts = new Array<number>(LATENCY_BOUNDS.length + 1).fill(0);
+  count = 0;
+  sum = 0;
+  min = Infinity;
+  max = -Infinity;
+
+  record(duration: number): void {
+    const value = Math.max(0, duration);
+    let index = LATENCY_BOUNDS.findIndex(bound => value <= bound);
+    if (index === -1) index = LATENCY_BOUNDS.length;
+
+    this.counts[index]++;
+    this.count++;
+    this.sum += value;
+    this.min = Math.min(this.min, value);
+    this.max = Math.max(this.max, value);
+  }
+
+  merge(other: LatencyHistogram): void {
+    other.counts.forEach((count, index) => {
+      this.counts[index] += count;
+    });
+    this.count += other.count;
+    this.sum += other.sum;
+    this.min = Math.min(this.min, other.min);
+    this.max = Math.max(this.max, other.max);
+  }
+
+  /**
+   * Estimate the latency at quantile q (0..1)
+   */
+  percentile(q: number): number {
+    if (this.count === 0) return 0;
+
+    const rank = q * this.count;
+    let seen = 0;
+    for (let index = 0; index < this.counts.length; index++) {
+      const count = this.counts[index];
+      if (count === 0 || seen + count < rank) {
+        seen += count;
+        continue;
+      }
+
+      // Interpolate linearly, using the observed min and max for the outer edges
+      const lower = Math.max(index === 0 ? 0 : LATENCY_BOUNDS[index - 1], this.min);
+      const upper = Math.min(LATENCY_BOUNDS[index] ?? this.max, this.max);
+      const estimate = lower + (upper - lower) * ((rank - seen) / count);
+      return Math.round(Math.min(Math.max(estimate, this.min), this.max) * 100) / 100;
+    }
+    return this.max;
+  }
+
+  summary(): LatencySummary {
+    if (this.count === 0) {
+      return { min: 0, max: 0, mean: 0, p50: 0, p95: 0, p99: 0 };
+    }
+    return {
+      min: this.min,
+      max: this.max,
+      mean: Math.round((this.sum / this.count) * 100) / 100,
+      p50: this.percentile(0.5),
+      p95: this.percentile(0.95),
+      p99: this.percentile(0.99),
+    };
+  }
+}
+
+class ToolAccumulator {
+  count = 0;
+  errors = 0;
+  latency = new LatencyHistogram();
+
+  record(invocation: TelemetryRecord): void {
+    this.count++;
+    if (!invocation.success) this.errors++;
+    this.latency.record(invocation.duration);
+  }
+
+  merge(other: ToolAccumulator): void {
+    this.count += other.count;
+    this.errors += other.errors;
+    this.latency.merge(other.latency);
+  }
+}
+
+interface TimeBucket {
+  start: number;
+  tools: Map<string, ToolAccumulator>;
+}
+
+export class StatsCollector {
+  private maxWindowMs: number;
+  private bucketMs: number;
+  private buckets: TimeBucket[] = [];
+  /** Totals since the last drain; only kept when aggregates are reported */
+  private interval: Map<string, ToolAccumulator> | null;
+  private clock: Clock;
+  private intervalStart: number;
+
+  constructor(config: StatsConfig = {}, clock: Clock = systemClock) {
+    this.clock = clock;
+    this.intervalStart = clock.now();
+    this.bucketMs = config.bucketMs ?? DEFAULT_BUCKET;
+    this.maxWindowMs = Math.max(config.maxWindowMs ?? DEFAULT_MAX_WINDOW, this.bucketMs);
+    this.interval = config.reportInterval ? new Map() : null;
+  }
+
+  /**
+   * Count a tool invocation. Child spans are ignored.
+   */
+  record(invocation: TelemetryRecord): void {
+    if (invocation.parentInvocationId) return;
+
+    const now = this.clock.now();
+    const start = now - (now % this.bucketMs);
+    let bucket = this.buckets[this.buckets.length - 1];
+    if (!bucket || bucket.start !== start) {
+      bucket = { start, tools: new Map() };
+      this.buckets.push(bucket);
+      this.prune(now);
+    }
+
+    accumulatorFor(bucket.tools, invocation.toolName).record(invocation);
+    if (this.interval) {
+      accumulatorFor(this.interval, invocation.toolName).record(invocation);
+    }
+  }
+
+  /**
+   * Per-tool stats over the last windowMs, rounded up to whole buckets and
+   * capped at maxWindowMs
+   */
+  snapshot(windowMs = DEFAULT_STATS_WINDOW): StatsSnapshot {
+    const window = Math.min(Math.max(windowMs, this.bucketMs), this.maxWindowMs);
+    const since = this.clock.now() - window;
+
+    const totals = new Map<string, ToolAccumulator>();
+    for (const bucket of this.buckets) {
+      if (bucket.start + this.bucketMs <= since) continue;
+      for (const [toolName, accumulator] of bucket.tools) {
+        accumulatorFor(totals, toolName).merge(accumulator);
+      }
+    }
+
+    const tools: StatsSnapshot['tools'] = {};
+    for (const [toolName, { count, errors, latency }] of totals) {
+      tools[toolName] = { count, errors, errorRate: errors / count, latency: latency.summary() };
+    }
+    return { windowMs: window, tools };
+  }
+
+  /**
+   * Totals since the previous call, one record per tool. Always empty
+   * without `reportInterval`.
+   */
+  drainAggregates(): ToolAggregate[] {
+    if (!this.interval) return [];
+    const now = this.clock.now();
+    const start = new Date(this.intervalStart).toISOString();
+    const end = new Date(now).toISOString();
+    const interval = this.interval;
+    this.interval = new Map();
+    this.intervalStart = now;
+
+    return [...interval].map(([toolName, { count, errors, latency }]) => ({
+      toolName,
+      start,
+      end,
+      count,
+      errors,
+      latency: {
+        ...latency.summary(),
+        sum: latency.sum,
+        bounds: [...LATENCY_BOUNDS],
+        counts: [...latency.counts],
+      },
+    }));
+  }
+
+  private prune(now: number): void {
+    const oldest = now - this.maxWindowMs - this.bucketMs;
+    while (this.buckets.length > 0 && this.buckets[0].start < oldest) {
+      this.buckets.shift();
+    }
+  }
+}
+
+function accumulatorFor(tools: Map<string, ToolAccumulator>, toolName: string): ToolAccumulator {
+  let accumulator = tools.get(toolName);
+  if (!accumulator) {
+    accumulator = new ToolAccumulator();
+    tools.set(toolName, accumulator);
+  }
+  return accumulator;
+}
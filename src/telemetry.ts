@@ -2,21 +2,80 @@
  * Emcy Telemetry - Collects and batches tool invocation data
  */
 
-import type { EmcyConfig, ToolInvocation } from './types.js';
+import * as path from 'node:path';
+import type {
+  AttributeValue,
+  BaseRecord,
+  BeforeLogHook,
+  Clock,
+  CircuitState,
+  DropCounts,
+  EmcyConfig,
+  Exporter,
+  IdGenerator,
+  InvocationContext,
+  Logger,
+  PayloadLimits,
+  ResolveConfigOptions,
+  ResultClassification,
+  ResultClassifier,
+  Span,
+  SpanOptions,
+  StatsSnapshot,
+  SessionInfo,
+  SessionOptions,
+  TelemetryEvents,
+  TelemetryRecord,
+  TraceOptions,
+} from './types.js';
 import { TelemetryTransport } from './transport.js';
+import { OtlpExporter } from './otlp.js';
+import { Redactor } from './redaction.js';
+import { applyPayloadLimits, resolvePayloadLimits } from './truncation.js';
+import { DiskSpool } from './spool.js';
+import { ExportPipeline, emptyDropCounts, mergeDropCounts } from './pipeline.js';
+import { Sampler } from './sampling.js';
+import { StatsCollector } from './stats.js';
+import { lifecycle } from './lifecycle.js';
+import { consoleLogger } from './logger.js';
+import { TypedEmitter, toError } from './events.js';
+import { resolveConfig, validateConfig } from './config.js';
+import { ActiveSpan, ContextManager, TraceScope, randomIds, systemClock } from './context.js';
+import { parseTraceparent, type RemoteTraceContext } from './tracecontext.js';
+import { EmcyValidationError, SCHEMA_VERSION, validateInvocation } from './schema.js';
+import { DEFAULT_PREVIEW_LENGTH, isCallToolResult, summarizeCallToolResult } from './output.js';
 
 const DEFAULT_BATCH_SIZE = 10;
 const DEFAULT_FLUSH_INTERVAL = 5000; // 5 seconds
+const DEFAULT_MAX_QUEUE_SIZE = 1000;
+const DEFAULT_MAX_IN_FLIGHT_BATCHES = 2;
+const DEFAULT_SHUTDOWN_TIMEOUT = 5000;
 
 export class EmcyTelemetry {
-  private apiKey: string;
+  private apiKey?: string;
+  private enabled: boolean;
   private mcpServerId?: string;
-  private transport: TelemetryTransport;
-  private queue: ToolInvocation[] = [];
+  private pipelines: ExportPipeline[];
   private batchSize: number;
   private flushInterval: number;
   private flushTimer: NodeJS.Timeout | null = null;
   private debug: boolean;
+  private logger: Logger;
+  private events: TypedEmitter<TelemetryEvents>;
+  private beforeLog?: BeforeLogHook;
+  private classifier?: ResultClassifier;
+  private previewLength: number;
+  private redactor: Redactor | null;
+  private limits: Required<PayloadLimits>;
+  private sampler: Sampler | null;
+  private stats: StatsCollector | null;
+  private statsReportInterval?: number;
+  private statsTimer: NodeJS.Timeout | null = null;
+  private unregisterLifecycle: (() => void) | null = null;
+  private context = new ContextManager();
+  private sessionStarts = new Map<string, number>();
+  private ids: IdGenerator;
+  private clock: Clock;
   private metadata: {
     serverName?: string;
     serverVersion?: string;
@@ -24,23 +83,70 @@ export class EmcyTelemetry {
   } = {};
   
   constructor(config: EmcyConfig) {
+    validateConfig(config);
+    
     this.apiKey = config.apiKey;
     this.mcpServerId = config.mcpServerId;
     this.batchSize = config.batchSize || DEFAULT_BATCH_SIZE;
     this.flushInterval = config.flushInterval || DEFAULT_FLUSH_INTERVAL;
     this.debug = config.debug || false;
-    this.transport = new TelemetryTransport(config.endpoint, this.debug);
+    this.logger = config.logger ?? consoleLogger;
+    this.events = new TypedEmitter(this.logger);
+    this.beforeLog = config.beforeLog;
+    this.ids = config.ids ?? randomIds;
+    this.clock = config.clock ?? systemClock;
+    this.classifier = config.classifyResult;
+    this.previewLength = config.outputPreviewLength ?? DEFAULT_PREVIEW_LENGTH;
+    this.redactor = config.redaction === false ? null : new Redactor(config.redaction);
+    this.limits = resolvePayloadLimits(config.limits);
+    this.sampler = config.sampling ? new Sampler(config.sampling) : null;
+    this.stats = config.stats === false ? null : new StatsCollector(config.stats, this.clock);
+    this.statsReportInterval = config.stats ? config.stats.reportInterval : undefined;
+    
+    // Without anywhere to send to, run as a no-op instead of failing
+    this.enabled = config.enabled ?? !!(config.apiKey || config.otlp || config.exporters?.length);
+    this.pipelines = this.enabled ? this.createPipelines(config) : [];
     
     // Store mcpServerId in metadata for invocations
     if (config.mcpServerId) {
       this.metadata.mcpServerId = config.mcpServerId;
     }
     
+    if (!this.enabled) {
+      if (this.debug) {
+        this.logger.debug('[emcy] Telemetry disabled: no API key or exporters configured');
+      }
+      return;
+    }
+    
     // Start periodic flush
     this.startFlushTimer();
+    this.startStatsTimer();
     
     // Flush on process exit
-    this.setupShutdownHooks();
+    if (config.shutdownHooks !== false) {
+      this.unregisterLifecycle = lifecycle.register({
+        shutdown: () => this.shutdown(),
+        persistSync: () => this.pipelines.forEach(pipeline => pipeline.persistSync()),
+        timeout: config.shutdownTimeout ?? DEFAULT_SHUTDOWN_TIMEOUT,
+        logger: this.logger,
+      });
+    }
+  }
+  
+  /**
+   * Create a client from explicit options, `EMCY_*` environment variables
+   * and `emcy.config.json`, in that order of precedence
+   */
+  static fromEnv(options?: ResolveConfigOptions): EmcyTelemetry {
+    return new EmcyTelemetry(resolveConfig(options));
+  }
+  
+  /**
+   * Whether invocations are recorded and sent
+   */
+  get isEnabled(): boolean {
+    return this.enabled;
   }
   
   /**
@@ -51,116 +157,557 @@ export class EmcyTelemetry {
     this.metadata.serverVersion = version;
   }
   
+  /**
+   * Invocations dropped since this instance was created
+   */
+  get dropped(): DropCounts {
+    return this.pipelines.reduce(
+      (counts, pipeline) => mergeDropCounts(counts, pipeline.dropped),
+      emptyDropCounts()
+    );
+  }
+  
+  /**
+   * Circuit breaker state of each exporter that has one, by exporter name
+   */
+  get circuitStates(): Record<string, CircuitState> {
+    const states: Record<string, CircuitState> = {};
+    for (const pipeline of this.pipelines) {
+      const { circuitState } = pipeline.exporter as { circuitState?: CircuitState };
+      if (circuitState) {
+        states[pipeline.name] = circuitState;
+      }
+    }
+    return states;
+  }
+  
+  /**
+   * Listen for an event. Returns a function that removes the listener.
+   * Listeners run synchronously, and errors they throw are logged.
+   */
+  on<K extends keyof TelemetryEvents>(event: K, listener: (payload: TelemetryEvents[K]) => void): () => void {
+    return this.events.on(event, listener);
+  }
+  
+  off<K extends keyof TelemetryEvents>(event: K, listener: (payload: TelemetryEvents[K]) => void): void {
+    this.events.off(event, listener);
+  }
+  
+  /**
+   * Call counts, error rates and latency percentiles per tool over the last
+   * windowMs (default 60 seconds). Counts every invocation, including those
+   * removed by sampling, and works while telemetry is disabled.
+   */
+  getStats(windowMs?: number): StatsSnapshot {
+    return this.stats?.snapshot(windowMs) ?? { windowMs: windowMs ?? 0, tools: {} };
+  }
+  
   /**
    * Trace a tool invocation
    */
   async trace<T>(
     toolName: string,
-    fn: () => Promise<T>,
-    options?: { input?: Record<string, unknown>; sessionId?: string }
+    fn: (span: Span) => Promise<T>,
+    options?: TraceOptions
   ): Promise<T> {
-    const invocationId = crypto.randomUUID();
-    const startTime = Date.now();
+    return this.traceRecord(toolName, {}, fn, options);
+  }
+  
+  /**
+   * Trace a read of, or subscription to, a resource
+   */
+  async traceResource<T>(
+    uri: string,
+    fn: (span: Span) => Promise<T>,
+    options?: TraceOptions
+  ): Promise<T> {
+    return this.traceRecord(uri, { kind: 'resource', uri }, fn, options);
+  }
+  
+  /**
+   * Trace rendering a prompt
+   */
+  async tracePrompt<T>(
+    name: string,
+    fn: (span: Span) => Promise<T>,
+    options?: TraceOptions
+  ): Promise<T> {
+    return this.traceRecord(name, { kind: 'prompt', promptName: name }, fn, options);
+  }
+  
+  /**
+   * Trace any other MCP request, such as a list or a completion
+   */
+  async traceRequest<T>(
+    method: string,
+    fn: (span: Span) => Promise<T>,
+    options?: Omit<TraceOptions, 'method'>
+  ): Promise<T> {
+    return this.traceRecord(method, { kind: 'request', method }, fn, options);
+  }
+  
+  /**
+   * Record that a client session started. Pair with `endSession()` to
+   * record how long it lasted.
+   */
+  startSession(session: SessionInfo = {}, options?: SessionOptions): void {
+    const key = options?.sessionId ?? '';
+    this.sessionStarts.set(key, this.clock.now());
+    this.logSession('start', 0, session, options);
+  }
+  
+  /**
+   * Record that a client session ended. Does nothing without a matching
+   * `startSession()`.
+   */
+  endSession(options?: SessionOptions): void {
+    const key = options?.sessionId ?? '';
+    const start = this.sessionStarts.get(key);
+    if (start === undefined) return;
+    this.sessionStarts.delete(key);
+    this.logSession('end', this.clock.now() - start, {}, options);
+  }
+  
+  /**
+   * Time a step inside a traced tool, such as an upstream API call or a
+   * database query. Recorded as a child of the enclosing invocation or span.
+   */
+  async span<T>(
+    name: string,
+    fn: (span: Span) => Promise<T>,
+    options?: SpanOptions
+  ): Promise<T> {
+    const base = { metadata: this.contextMetadata() };
+    return this.run(name, fn, { attributes: options?.attributes }, () => ({ ...base, success: true }), base);
+  }
+  
+  /**
+   * Run fn with a session, agent, user and attributes that everything
+   * traced or logged inside it picks up, including nested async work
+   */
+  withContext<T>(context: InvocationContext, fn: () => T): T {
+    return this.context.withContext(context, fn);
+  }
+  
+  /**
+   * The invocation or span currently running, if any
+   */
+  currentSpan(): Span | undefined {
+    return this.context.currentSpan();
+  }
+  
+  /**
+   * W3C `traceparent` and `tracestate` headers for the invocation or span
+   * currently running, to propagate the trace to downstream services
+   */
+  traceHeaders(): Record<string, string> {
+    const span = this.context.currentSpan();
+    if (!span) return {};
     
-    try {
-      const result = await fn();
-      
-      this.log({
-        invocationId,
-        toolName,
-        timestamp: new Date().toISOString(),
-        duration: Date.now() - startTime,
-        success: true,
-        input: options?.input,
-        output: this.extractOutput(result),
-        metadata: {
-          sessionId: options?.sessionId,
-          ...this.metadata,
-        },
-      });
-      
-      return result;
-    } catch (error) {
-      this.log({
-        invocationId,
-        toolName,
-        timestamp: new Date().toISOString(),
-        duration: Date.now() - startTime,
-        success: false,
-        input: options?.input,
-        error: this.extractError(error),
-        metadata: {
-          sessionId: options?.sessionId,
-          ...this.metadata,
-        },
-      });
-      
-      throw error;
+    const headers: Record<string, string> = { traceparent: span.traceparent };
+    if (span.scope.traceState) {
+      headers.tracestate = span.scope.traceState;
     }
+    return headers;
   }
   
   /**
-   * Manually log an invocation
+   * Add an attribute to the invocation or span currently running.
+   * Does nothing outside `trace()` and `span()`.
    */
-  log(invocation: ToolInvocation): void {
-    this.queue.push(invocation);
-    
-    if (this.debug) {
-      console.error(`[emcy] Logged: ${invocation.toolName} (${invocation.duration}ms, ${invocation.success ? 'success' : 'error'})`);
+  setAttribute(key: string, value: AttributeValue): void {
+    this.context.currentSpan()?.setAttribute(key, value);
+  }
+  
+  /**
+   * Add attributes to the invocation or span currently running.
+   * Does nothing outside `trace()` and `span()`.
+   */
+  setAttributes(attributes: Record<string, AttributeValue>): void {
+    this.context.currentSpan()?.setAttributes(attributes);
+  }
+  
+  /**
+   * Manually log an invocation. Records that don't match the wire schema
+   * are reported as an `EmcyValidationError` and discarded.
+   */
+  log(invocation: TelemetryRecord): void {
+    const errors = validateInvocation(invocation);
+    if (errors.length > 0) {
+      this.reportError('[emcy] Discarding invalid invocation passed to log():', new EmcyValidationError('invocation', errors));
+      return;
     }
     
-    if (this.queue.length >= this.batchSize) {
-      this.flush();
+    const context = this.context.current();
+    
+    // Fields set on the invocation itself win over the context
+    if (context.sessionId || context.agentId || context.userId) {
+      invocation = {
+        ...invocation,
+        metadata: {
+          sessionId: context.sessionId,
+          agentId: context.agentId,
+          userId: context.userId,
+          ...definedValues(invocation.metadata),
+        },
+      };
+    }
+    if (context.attributes) {
+      invocation = { ...invocation, attributes: { ...context.attributes, ...invocation.attributes } };
     }
+    
+    this.logTrace(invocation, []);
   }
   
   /**
-   * Flush queued invocations to Emcy
+   * Flush queued invocations to every exporter
    */
   async flush(): Promise<void> {
-    if (this.queue.length === 0) return;
-    
-    const invocations = this.queue.splice(0, this.queue.length);
-    
-    await this.transport.send({
-      apiKey: this.apiKey,
-      mcpServerId: this.mcpServerId,
-      timestamp: new Date().toISOString(),
-      invocations,
-    });
+    await Promise.all(this.pipelines.map(pipeline => pipeline.flush()));
   }
   
   /**
    * Stop the telemetry collector
    */
   async shutdown(): Promise<void> {
+    this.unregisterLifecycle?.();
+    this.unregisterLifecycle = null;
     if (this.flushTimer) {
       clearInterval(this.flushTimer);
       this.flushTimer = null;
     }
-    await this.flush();
+    if (this.statsTimer) {
+      clearInterval(this.statsTimer);
+      this.statsTimer = null;
+      this.reportAggregates();
+    }
+    await Promise.all(this.pipelines.map(pipeline => pipeline.shutdown()));
+  }
+  
+  /**
+   * Trace fn as a root record of the given kind, or as a child of the
+   * current span. Only tool results are classified.
+   */
+  private traceRecord<T>(
+    name: string,
+    fields: Partial<TelemetryRecord>,
+    fn: (span: Span) => Promise<T>,
+    options?: TraceOptions
+  ): Promise<T> {
+    // A sessionId passed here also applies to spans and logs inside the call
+    return this.context.withContext({ sessionId: options?.sessionId }, () => {
+      const base = {
+        method: options?.method,
+        requestId: options?.requestId,
+        side: options?.side,
+        targetServer: options?.targetServer,
+        input: options?.input,
+        metadata: this.contextMetadata(),
+        ...fields,
+      };
+      
+      const remote = parseTraceparent(options?.traceparent, options?.tracestate);
+      return this.run(name, fn, { attributes: options?.attributes, remote }, result => {
+        const outcome = fields.kind ? { success: true } : this.classifyResult(result, name);
+        return {
+          ...base,
+          success: outcome.success,
+          output: this.extractOutput(result),
+          error: outcome.error,
+        };
+      }, base);
+    });
+  }
+  
+  private logSession(event: 'start' | 'end', duration: number, session: SessionInfo, options?: SessionOptions): void {
+    this.context.withContext({ sessionId: options?.sessionId }, () => {
+      const record: TelemetryRecord = {
+        kind: 'session',
+        event,
+        invocationId: this.ids.invocationId(),
+        toolName: `session/${event}`,
+        timestamp: new Date(this.clock.now()).toISOString(),
+        duration,
+        success: true,
+        metadata: this.contextMetadata(),
+      };
+      if (session.clientName) {
+        record.client = { name: session.clientName, version: session.clientVersion };
+      }
+      if (session.protocolVersion) record.protocolVersion = session.protocolVersion;
+      this.logTrace(record, []);
+    });
+  }
+  
+  /**
+   * Run fn as the current span and record it once it settles
+   */
+  private async run<T>(
+    name: string,
+    fn: (span: Span) => Promise<T>,
+    options: SpanOptions & { remote?: RemoteTraceContext | null },
+    onResult: (result: T) => Partial<TelemetryRecord>,
+    onError: Partial<TelemetryRecord>
+  ): Promise<T> {
+    const parent = this.context.currentSpan();
+    const span = new ActiveSpan(
+      parent?.scope ?? new TraceScope(options.remote, this.ids),
+      { ...this.context.current().attributes, ...options.attributes },
+      this.ids,
+      this.clock
+    );
+    const startTime = this.clock.now();
+    
+    const finish = (fields: Partial<TelemetryRecord>) => {
+      const endTime = this.clock.now();
+      const record = {
+        invocationId: span.invocationId,
+        toolName: name,
+        traceId: span.traceId,
+        spanId: span.spanId,
+        parentSpanId: parent ? parent.spanId : span.scope.remoteParentSpanId,
+        parentInvocationId: parent?.invocationId,
+        timestamp: new Date(endTime).toISOString(),
+        duration: endTime - startTime,
+        success: true,
+        ...fields,
+      } as TelemetryRecord;
+      if (span.firstResponseAt !== undefined) {
+        record.timeToFirstResponse = span.firstResponseAt - startTime;
+      }
+      if (Object.keys(span.attributes).length > 0) {
+        record.attributes = span.attributes;
+      }
+      this.finishSpan(record, span.scope, !parent);
+    };
+    
+    let result: T;
+    try {
+      result = await this.context.runSpan(span, () => fn(span));
+    } catch (error) {
+      this.recordSafely(name, () => finish({ ...onError, success: false, error: this.extractError(error) }));
+      throw error;
+    }
+    
+    this.recordSafely(name, () => {
+      const fields = onResult(result);
+      finish(span.error ? { ...fields, success: false, error: span.error } : fields);
+    });
+    return result;
+  }
+  
+  /**
+   * Telemetry must never change the outcome of the traced call
+   */
+  private recordSafely(name: string, record: () => void): void {
+    try {
+      record();
+    } catch (error) {
+      this.reportError(`[emcy] Failed to record ${name}:`, error);
+    }
+  }
+  
+  /**
+   * Invocation metadata from the current context and server info
+   */
+  private contextMetadata(): NonNullable<BaseRecord['metadata']> {
+    const context = this.context.current();
+    return {
+      sessionId: context.sessionId,
+      agentId: context.agentId,
+      userId: context.userId,
+      ...this.metadata,
+    };
+  }
+  
+  private finishSpan(record: TelemetryRecord, scope: TraceScope, isRoot: boolean): void {
+    if (isRoot) {
+      scope.finished = true;
+      this.logTrace(record, scope.children.splice(0), scope);
+    } else if (!scope.finished) {
+      scope.children.push(record);
+    } else if (this.enabled && scope.sampleWeight !== null) {
+      // Outlived its root, so follow the decision already made for it
+      this.enqueue(scope.sampleWeight ? { ...record, sampleWeight: scope.sampleWeight } : record);
+      this.flushFullPipelines();
+    }
+  }
+  
+  /**
+   * Sample on the root and apply the decision to all of its children
+   */
+  private logTrace(root: TelemetryRecord, children: TelemetryRecord[], scope?: TraceScope): void {
+    // Before sampling, so stats and aggregates stay accurate
+    if (root.kind !== 'session') this.stats?.record(root);
+    if (!this.enabled) return;
+    
+    // Session events are rare and mark boundaries, so they are never sampled out
+    let sampleWeight: number | undefined;
+    if (this.sampler && root.kind !== 'session') {
+      const weight = this.sampler.sample(root);
+      if (scope) scope.sampleWeight = weight;
+      if (weight === null) return;
+      sampleWeight = weight;
+    }
+    
+    for (const invocation of [root, ...children]) {
+      this.enqueue(sampleWeight !== undefined ? { ...invocation, sampleWeight } : invocation);
+    }
+    // Only once the whole trace is queued, so the batch size check can't split it
+    this.flushFullPipelines();
+  }
+  
+  private enqueue(invocation: TelemetryRecord): void {
+    if (this.beforeLog) {
+      try {
+        const result = this.beforeLog(invocation);
+        if (result === null) return;
+        if (result) invocation = result;
+      } catch (error) {
+        this.reportError(`[emcy] beforeLog threw, discarding ${invocation.toolName}:`, error);
+        return;
+      }
+    }
+    if (this.redactor) {
+      invocation = this.redactor.redact(invocation);
+    }
+    invocation = applyPayloadLimits(invocation, this.limits);
+    
+    if (this.debug) {
+      this.logger.debug(`[emcy] Logged: ${invocation.toolName} (${invocation.duration}ms, ${invocation.success ? 'success' : 'error'})`);
+    }
+    this.events.emit('invocation', invocation);
+    
+    for (const pipeline of this.pipelines) {
+      pipeline.enqueue(invocation);
+    }
+  }
+  
+  /**
+   * Start sending on every pipeline holding at least a full batch
+   */
+  private flushFullPipelines(): void {
+    for (const pipeline of this.pipelines) {
+      if (pipeline.length >= pipeline.batchSize) {
+        pipeline.flush();
+      }
+    }
+  }
+  
+  private createPipelines(config: EmcyConfig): ExportPipeline[] {
+    const transportOptions = {
+      retry: config.retry,
+      circuitBreaker: config.circuitBreaker,
+      requestTimeout: config.requestTimeout,
+      logger: this.logger,
+    };
+    const exporters: Exporter[] = config.exporters?.length
+      ? config.exporters
+      : [config.otlp
+        ? new OtlpExporter({ debug: this.debug, ...transportOptions, ...config.otlp })
+        : new TelemetryTransport(config.endpoint, this.debug, transportOptions)];
+    
+    return exporters.map((exporter, index) => {
+      // With several exporters, each spools into its own subdirectory
+      const spoolConfig = config.spool && exporters.length > 1
+        ? { ...config.spool, directory: path.join(config.spool.directory, exporter.name ?? String(index)) }
+        : config.spool;
+      
+      return new ExportPipeline(exporter, {
+        batchSize: this.batchSize,
+        maxBatchBytes: this.limits.maxBatchBytes,
+        maxQueueSize: Math.max(1, config.maxQueueSize ?? DEFAULT_MAX_QUEUE_SIZE),
+        maxInFlightBatches: config.maxInFlightBatches ?? DEFAULT_MAX_IN_FLIGHT_BATCHES,
+        overflowPolicy: config.overflowPolicy,
+        spool: spoolConfig ? new DiskSpool(spoolConfig, this.debug, this.logger) : null,
+        debug: this.debug,
+        logger: this.logger,
+        events: this.events,
+        beforeSend: config.beforeSend,
+        createBatch: (invocations, extras) => ({
+          schemaVersion: SCHEMA_VERSION,
+          apiKey: this.apiKey ?? '',
+          mcpServerId: this.mcpServerId,
+          timestamp: new Date(this.clock.now()).toISOString(),
+          invocations,
+          ...(extras?.dropped && { dropped: extras.dropped }),
+          ...(extras?.aggregates && { aggregates: extras.aggregates }),
+        }),
+      });
+    });
   }
   
   private startFlushTimer(): void {
     this.flushTimer = setInterval(() => {
-      this.flush().catch(console.error);
+      this.flush().catch(error => this.reportError('[emcy] Flush failed:', error));
     }, this.flushInterval);
     
     // Don't keep process alive just for telemetry
     this.flushTimer.unref();
   }
   
-  private setupShutdownHooks(): void {
-    const shutdown = () => {
-      this.shutdown().catch(console.error);
-    };
+  private startStatsTimer(): void {
+    if (!this.stats || !this.statsReportInterval) return;
     
-    process.on('beforeExit', shutdown);
-    process.on('SIGINT', shutdown);
-    process.on('SIGTERM', shutdown);
+    this.statsTimer = setInterval(() => this.reportAggregates(), this.statsReportInterval);
+    this.statsTimer.unref();
+  }
+  
+  /**
+   * Hand the totals since the last report to every pipeline. They go out
+   * with the next flush.
+   */
+  private reportAggregates(): void {
+    const aggregates = this.stats?.drainAggregates() ?? [];
+    if (aggregates.length === 0) return;
+    
+    for (const pipeline of this.pipelines) {
+      pipeline.addAggregates(aggregates);
+    }
+  }
+  
+  private reportError(message: string, error: unknown): void {
+    this.logger.error(message, error);
+    this.events.emit('error', toError(error));
   }
   
-  private extractOutput(result: unknown): ToolInvocation['output'] {
+  private classifyResult(result: unknown, toolName: string): ResultClassification {
+    if (this.classifier) {
+      try {
+        const custom = this.classifier(result, toolName);
+        if (custom) return custom;
+      } catch (error) {
+        if (this.debug) {
+          this.logger.debug(`[emcy] classifyResult threw for ${toolName}:`, error);
+        }
+      }
+    }
+    
+    if (this.isMcpErrorResult(result)) {
+      return { success: false, error: this.extractResultError(result) };
+    }
+    return { success: true };
+  }
+  
+  private isMcpErrorResult(result: unknown): result is { isError: true; content?: unknown } {
+    return !!result && typeof result === 'object' && (result as { isError?: unknown }).isError === true;
+  }
+  
+  private extractResultError(result: { content?: unknown }): BaseRecord['error'] {
+    const blocks = Array.isArray(result.content) ? result.content : [];
+    const text = blocks
+      .filter((block): block is { type: 'text'; text: string } =>
+        !!block && block.type === 'text' && typeof block.text === 'string')
+      .map(block => block.text)
+      .join('\n');
+    
+    return { message: text || 'Tool returned an error result', code: 'MCP_TOOL_ERROR' };
+  }
+  
+  private extractOutput(result: unknown): BaseRecord['output'] {
+    if (isCallToolResult(result)) {
+      return summarizeCallToolResult(result, this.previewLength);
+    }
     if (result && typeof result === 'object' && 'status' in result) {
       const r = result as { status?: number; data?: unknown };
       return { status: r.status, body: r.data };
@@ -168,7 +715,7 @@ export class EmcyTelemetry {
     return { body: result };
   }
   
-  private extractError(error: unknown): ToolInvocation['error'] {
+  private extractError(error: unknown): BaseRecord['error'] {
     if (error instanceof Error) {
       return {
         message: error.message,
@@ -180,3 +727,8 @@ export class EmcyTelemetry {
   }
 }
 
+function definedValues<T extends object>(value: T | undefined): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value ?? {}).filter(([, entry]) => entry !== undefined)
+  ) as Partial<T>;
+}
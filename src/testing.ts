@@ -0,0 +1,163 @@
+/**
+ * Test utilities, published as `@emcy/sdk/testing`
+ *
+ * An in-memory exporter that captures records as soon as they are logged,
+ * deterministic ids and a manual clock, and assertion helpers. Nothing here
+ * touches globals, and failures throw node's `AssertionError`, so it works
+ * the same under vitest, jest and node:test.
+ */
+
+import { AssertionError } from 'node:assert';
+import { isDeepStrictEqual } from 'node:util';
+import { EmcyTelemetry } from './telemetry.js';
+import type { Clock, EmcyConfig, Exporter, IdGenerator, TelemetryBatch, TelemetryRecord } from './types.js';
+
+type DeepPartial<T> = { [K in keyof T]?: T[K] extends object ? DeepPartial<T[K]> : T[K] };
+
+/** Any subset of a record's fields, checked recursively */
+export type InvocationMatch = DeepPartial<TelemetryRecord>;
+
+export class InMemoryExporter implements Exporter {
+  readonly name: string = 'memory';
+  /** Batches received through flushes */
+  readonly batches: TelemetryBatch[] = [];
+  /** Records captured as they were logged, once attached */
+  readonly invocations: TelemetryRecord[] = [];
+
+  /**
+   * Capture every record the client logs, without waiting for a flush.
+   * Returns a function that stops capturing.
+   */
+  attach(telemetry: EmcyTelemetry): () => void {
+    return telemetry.on('invocation', invocation => {
+      this.invocations.push(invocation);
+    });
+  }
+
+  async send(batch: TelemetryBatch): Promise<boolean> {
+    this.batches.push(batch);
+    return true;
+  }
+
+  /**
+   * Captured records for a tool or span name
+   */
+  calls(toolName: string): TelemetryRecord[] {
+    return this.invocations.filter(invocation => invocation.toolName === toolName);
+  }
+
+  /**
+   * Assert a record for toolName was captured, optionally matching some of
+   * its fields. Returns the first record that matches.
+   */
+  expectToolCalled(toolName: string, match: InvocationMatch = {}): TelemetryRecord {
+    const calls = this.calls(toolName);
+    const found = calls.find(invocation => matches(invocation, match));
+    if (found) return found;
+
+    const message = calls.length === 0
+      ? `Expected ${toolName} to be called, but it was not. Captured: ${this.describeCaptured()}`
+      : `Expected ${toolName} to be called with ${JSON.stringify(match)}, but none of its ${calls.length} calls matched`;
+    throw new AssertionError({ message, actual: calls, expected: match, operator: 'expectToolCalled' });
+  }
+
+  expectToolNotCalled(toolName: string): void {
+    const calls = this.calls(toolName);
+    if (calls.length > 0) {
+      throw new AssertionError({
+        message: `Expected ${toolName} not to be called, but it was called ${calls.length} times`,
+        actual: calls,
+        operator: 'expectToolNotCalled',
+      });
+    }
+  }
+
+  clear(): void {
+    this.batches.length = 0;
+    this.invocations.length = 0;
+  }
+
+  private describeCaptured(): string {
+    const names = [...new Set(this.invocations.map(invocation => invocation.toolName))];
+    return names.length > 0 ? names.join(', ') : 'nothing';
+  }
+}
+
+/**
+ * Ids that count up from 1: `inv-1`, trace `000…001`, span `000…001`
+ */
+export class SequentialIds implements IdGenerator {
+  private invocations = 0;
+  private traces = 0;
+  private spans = 0;
+
+  invocationId(): string {
+    return `inv-${++this.invocations}`;
+  }
+
+  traceId(): string {
+    return (++this.traces).toString(16).padStart(32, '0');
+  }
+
+  spanId(): string {
+    return (++this.spans).toString(16).padStart(16, '0');
+  }
+}
+
+/**
+ * A clock that only moves when told to
+ */
+export class ManualClock implements Clock {
+  private time: number;
+
+  constructor(start: number | Date = Date.UTC(2024, 0, 1)) {
+    this.time = typeof start === 'number' ? start : start.getTime();
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  advance(ms: number): void {
+    this.time += ms;
+  }
+
+  set(time: number | Date): void {
+    this.time = typeof time === 'number' ? time : time.getTime();
+  }
+}
+
+export interface TestTelemetry {
+  telemetry: EmcyTelemetry;
+  exporter: InMemoryExporter;
+  clock: ManualClock;
+  ids: SequentialIds;
+}
+
+/**
+ * A client wired to an attached `InMemoryExporter`, with sequential ids, a
+ * manual clock and no process hooks
+ */
+export function createTestTelemetry(config: Omit<EmcyConfig, 'exporters' | 'ids' | 'clock'> = {}): TestTelemetry {
+  const exporter = new InMemoryExporter();
+  const clock = new ManualClock();
+  const ids = new SequentialIds();
+  const telemetry = new EmcyTelemetry({
+    shutdownHooks: false,
+    ...config,
+    exporters: [exporter],
+    ids,
+    clock,
+  });
+  exporter.attach(telemetry);
+  return { telemetry, exporter, clock, ids };
+}
+
+function matches(actual: unknown, expected: unknown): boolean {
+  if (expected && typeof expected === 'object' && !Array.isArray(expected)) {
+    if (!actual || typeof actual !== 'object') return false;
+    return Object.entries(expected).every(([key, value]) =>
+      value === undefined || matches((actual as Record<string, unknown>)[key], value));
+  }
+  return isDeepStrictEqual(actual, expected);
+}
@@ -0,0 +1,44 @@
+/**
+ * W3C Trace Context (`traceparent` / `tracestate`) parsing and formatting
+ *
+ * https://www.w3.org/TR/trace-context/
+ */
+
+const TRACEPARENT = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+const INVALID_TRACE_ID = '0'.repeat(32);
+const INVALID_SPAN_ID = '0'.repeat(16);
+const MAX_TRACESTATE_LENGTH = 512;
+
+export interface RemoteTraceContext {
+  traceId: string;
+  /** Span id of the caller, which becomes the parent of the root invocation */
+  parentSpanId: string;
+  traceFlags: string;
+  traceState?: string;
+}
+
+/**
+ * Parse a `traceparent` header. Returns null when it is missing or invalid,
+ * in which case a new trace should be started.
+ */
+export function parseTraceparent(traceparent: unknown, tracestate?: unknown): RemoteTraceContext | null {
+  if (typeof traceparent !== 'string') return null;
+
+  const match = TRACEPARENT.exec(traceparent.trim().toLowerCase());
+  if (!match) return null;
+
+  const [, version, traceId, parentSpanId, traceFlags, rest] = match;
+  // Version 00 has no trailing fields, and ff is never valid
+  if (version === 'ff' || (version === '00' && rest !== undefined)) return null;
+  if (traceId === INVALID_TRACE_ID || parentSpanId === INVALID_SPAN_ID) return null;
+
+  const context: RemoteTraceContext = { traceId, parentSpanId, traceFlags };
+  if (typeof tracestate === 'string' && tracestate.trim() && tracestate.length <= MAX_TRACESTATE_LENGTH) {
+    context.traceState = tracestate.trim();
+  }
+  return context;
+}
+
+export function formatTraceparent(traceId: string, spanId: string, traceFlags = '01'): string {
+  return `00-${traceId}-${spanId}-${traceFlags}`;
+}
@@ -2,63 +2,138 @@
  * Transport layer for sending telemetry to Emcy
  */
 
-import type { TelemetryBatch } from './types.js';
+import type { CircuitState, Exporter, ExportResult, Logger, TelemetryBatch, TransportOptions } from './types.js';
+import { consoleLogger } from './logger.js';
+import {
+  CircuitBreaker,
+  backoffDelay,
+  isRetryableStatus,
+  parseRetryAfter,
+  resolveRetryPolicy,
+  type ResolvedRetryPolicy,
+} from './retry.js';
 
 const DEFAULT_ENDPOINT = 'https://api.emcy.ai/v1/telemetry';
-const MAX_RETRIES = 3;
-const RETRY_DELAY_MS = 1000;
+const DEFAULT_REQUEST_TIMEOUT = 10000;
 
-export class TelemetryTransport {
-  private endpoint: string;
-  private debug: boolean;
+export class TelemetryTransport implements Exporter {
+  readonly name: string = 'emcy';
+  protected endpoint: string;
+  protected debug: boolean;
+  protected logger: Logger;
+  private retry: ResolvedRetryPolicy;
+  private requestTimeout: number;
+  private circuit: CircuitBreaker | null;
+  /** Time before which the endpoint asked, through Retry-After, not to be called */
+  private notBefore = 0;
   
-  constructor(endpoint?: string, debug = false) {
+  constructor(endpoint?: string, debug = false, options: TransportOptions = {}) {
     this.endpoint = endpoint || DEFAULT_ENDPOINT;
     this.debug = debug;
+    this.logger = options.logger ?? consoleLogger;
+    this.retry = resolveRetryPolicy(options.retry);
+    this.requestTimeout = options.requestTimeout ?? DEFAULT_REQUEST_TIMEOUT;
+    this.circuit = options.circuitBreaker === false ? null : new CircuitBreaker(options.circuitBreaker, this.logger);
   }
   
-  async send(batch: TelemetryBatch): Promise<boolean> {
+  /**
+   * `open` while sending is paused after repeated failures
+   */
+  get circuitState(): CircuitState {
+    return this.circuit?.state ?? 'closed';
+  }
+  
+  async send(batch: TelemetryBatch): Promise<boolean | ExportResult> {
+    if (this.circuit && !this.circuit.allowRequest()) {
+      if (this.debug) {
+        this.logger.debug(`[emcy] Circuit open, not sending ${batch.invocations.length} invocations`);
+      }
+      return false;
+    }
+    
+    const waitMs = this.notBefore - Date.now();
+    if (waitMs > 0) {
+      if (this.debug) {
+        this.logger.debug(`[emcy] Endpoint asked to wait ${waitMs}ms more, not sending ${batch.invocations.length} invocations`);
+      }
+      return false;
+    }
+    
+    const { headers, body } = this.encode(batch);
+    const startTime = Date.now();
     let lastError: Error | null = null;
+    let retryAfter: number | undefined;
+    let attempt = 0;
     
-    for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
+    while (++attempt <= this.retry.maxAttempts) {
+      retryAfter = undefined;
+      const controller = new AbortController();
+      const timeout = setTimeout(
+        () => controller.abort(new Error(`Request timed out after ${this.requestTimeout}ms`)),
+        this.requestTimeout
+      );
       try {
         const response = await fetch(this.endpoint, {
           method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${batch.apiKey}`,
-          },
-          body: JSON.stringify(batch),
+          headers,
+          body,
+          signal: controller.signal,
         });
         
         if (response.ok) {
           if (this.debug) {
-            console.error(`[emcy] Sent ${batch.invocations.length} invocations`);
+            this.logger.debug(`[emcy] Sent ${batch.invocations.length} invocations`);
           }
+          this.circuit?.recordSuccess();
           return true;
         }
         
-        // Don't retry on 4xx errors (client errors)
-        if (response.status >= 400 && response.status < 500) {
-          console.error(`[emcy] Client error: ${response.status} ${response.statusText}`);
-          return false;
+        // Retrying won't help, e.g. a bad API key. The endpoint itself is up.
+        if (!isRetryableStatus(response.status, this.retry)) {
+          const kind = response.status < 500 ? 'Client error' : 'Server error';
+          this.logger.error(`[emcy] ${kind}: ${response.status} ${response.statusText}`);
+          this.circuit?.recordSuccess();
+          return { success: false, retryable: false };
         }
         
         lastError = new Error(`HTTP ${response.status}: ${response.statusText}`);
+        retryAfter = parseRetryAfter(response.headers?.get('retry-after'));
       } catch (error) {
         lastError = error instanceof Error ? error : new Error(String(error));
+      } finally {
+        clearTimeout(timeout);
       }
       
-      // Wait before retry (exponential backoff)
-      if (attempt < MAX_RETRIES - 1) {
-        await this.delay(RETRY_DELAY_MS * Math.pow(2, attempt));
-      }
+      if (attempt === this.retry.maxAttempts) break;
+      
+      // Honor Retry-After rather than retrying early, unless it's longer than we would wait anyway
+      const delay = retryAfter ?? backoffDelay(attempt, this.retry);
+      if (delay > this.retry.maxDelayMs || Date.now() - startTime + delay > this.retry.maxElapsedMs) break;
+      await this.delay(delay);
     }
     
-    console.error(`[emcy] Failed to send telemetry after ${MAX_RETRIES} attempts:`, lastError?.message);
+    // Gave up before the wait the endpoint asked for, so later sends honor it instead
+    if (retryAfter !== undefined) {
+      this.notBefore = Date.now() + retryAfter;
+    }
+    this.logger.error(`[emcy] Failed to send telemetry after ${attempt} attempts:`, lastError?.message);
+    this.circuit?.recordFailure();
     return false;
   }
   
+  /**
+   * Serialize a batch into the request headers and body
+   */
+  protected encode(batch: TelemetryBatch): { headers: Record<string, string>; body: string | Uint8Array } {
+    return {
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${batch.apiKey}`,
+      },
+      body: JSON.stringify(batch),
+    };
+  }
+  
   private delay(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
@@ -0,0 +1,262 @@
+/**
+ * Payload size budgets for invocations and batches
+ *
+ * Oversized fields are replaced with deterministic truncation markers so a
+ * single huge result can never make a batch too large for the backend.
+ */
+
+import type { BaseRecord, PayloadLimits, TelemetryRecord, TruncatedValue } from './types.js';
+
+export const DEFAULT_PAYLOAD_LIMITS: Required<PayloadLimits> = {
+  maxInputBytes: 16 * 1024,
+  maxOutputBytes: 32 * 1024,
+  maxErrorBytes: 8 * 1024,
+  maxInvocationBytes: 64 * 1024,
+  maxBatchBytes: 512 * 1024,
+};
+
+const MAX_PREVIEW_BYTES = 1024;
+
+/**
+ * Resolve user limits against the defaults. An invocation budget larger
+ * than the batch budget is clamped, so every invocation fits in a batch.
+ */
+export function resolvePayloadLimits(limits?: PayloadLimits): Required<PayloadLimits> {
+  const resolved = { ...DEFAULT_PAYLOAD_LIMITS, ...limits };
+  resolved.maxInvocationBytes = Math.min(resolved.maxInvocationBytes, resolved.maxBatchBytes);
+  return resolved;
+}
+
+/**
+ * Size of a value once serialized as JSON, in bytes.
+ */
+export function byteSize(value: unknown): number {
+  const json = safeStringify(value);
+  return json === undefined ? 0 : Buffer.byteLength(json, 'utf8');
+}
+
+/**
+ * `JSON.stringify` that never throws: circular references become
+ * `"[Circular]"`, BigInts become strings, and values whose `toJSON` or
+ * getters throw become `"[Unserializable]"`.
+ */
+export function safeStringify(value: unknown): string | undefined {
+  const ancestors: unknown[] = [];
+  try {
+    return JSON.stringify(value, function (this: unknown, _key, current: unknown) {
+      if (typeof current === 'bigint') return current.toString();
+      if (typeof current !== 'object' || current === null) return current;
+
+      // `this` is the object holding current, so anything above it on the stack is finished
+      while (ancestors.length > 0 && ancestors[ancestors.length - 1] !== this) {
+        ancestors.pop();
+      }
+      if (ancestors.includes(current)) return '[Circular]';
+      ancestors.push(current);
+      return current;
+    });
+  } catch {
+    return JSON.stringify('[Unserializable]');
+  }
+}
+
+/**
+ * Plain JSON copy of a value, as it will be sent
+ */
+function toJsonValue<T>(value: T): T {
+  const json = safeStringify(value);
+  return json === undefined ? value : JSON.parse(json);
+}
+
+/**
+ * Return a copy of the invocation that fits within the given limits.
+ * Truncated field paths are listed in `invocation.truncated`.
+ */
+export function applyPayloadLimits(
+  invocation: TelemetryRecord,
+  limits: Required<PayloadLimits>
+): TelemetryRecord {
+  const truncated: string[] = [];
+  const result: TelemetryRecord = { ...invocation };
+
+  // Tools can return anything, so later serialization must not meet a cycle or BigInt
+  if (result.input) result.input = toJsonValue(result.input);
+  if (result.output) result.output = toJsonValue(result.output);
+  if (result.error) result.error = toJsonValue(result.error);
+  if (result.attributes) result.attributes = toJsonValue(result.attributes);
+
+  if (result.input && byteSize(result.input) > limits.maxInputBytes) {
+    result.input = truncateValue(result.input, limits.maxInputBytes);
+    truncated.push('input');
+  }
+
+  if (result.output && byteSize(result.output) > limits.maxOutputBytes) {
+    result.output = truncateOutput(result.output, limits.maxOutputBytes, truncated);
+  }
+
+  if (result.error && byteSize(result.error) > limits.maxErrorBytes) {
+    result.error = truncateError(result.error, limits.maxErrorBytes, truncated);
+  }
+
+  // Still too large: shrink the biggest payloads to minimal markers
+  if (byteSize(result) > limits.maxInvocationBytes) {
+    const minimal = Math.min(MAX_PREVIEW_BYTES, Math.floor(limits.maxInvocationBytes / 8));
+
+    if (result.output) {
+      result.output = { status: result.output.status, body: truncateValue(result.output, minimal) };
+      truncated.push('output');
+    }
+    if (byteSize(result) > limits.maxInvocationBytes && result.input) {
+      result.input = truncateValue(result.input, minimal);
+      truncated.push('input');
+    }
+    if (byteSize(result) > limits.maxInvocationBytes && result.error) {
+      result.error = truncateError(result.error, minimal, truncated);
+    }
+  }
+
+  if (truncated.length > 0) {
+    result.truncated = [...new Set([...(invocation.truncated ?? []), ...truncated])];
+  }
+  return result;
+}
+
+/**
+ * Split invocations into batches of at most `maxCount` items whose
+ * serialized size stays within `maxBytes`. Consecutive records of one trace
+ * stay in the same batch, even past `maxCount`, unless together they
+ * exceed `maxBytes`.
+ */
+export function splitIntoBatches(
+  invocations: TelemetryRecord[],
+  maxCount: number,
+  maxBytes: number
+): TelemetryRecord[][] {
+  const batches: TelemetryRecord[][] = [];
+  let current: TelemetryRecord[] = [];
+  let currentBytes = 0;
+
+  const add = (records: TelemetryRecord[], size: number, countLimit: number) => {
+    if (current.length > 0 && (current.length + records.length > countLimit || currentBytes + size > maxBytes)) {
+      batches.push(current);
+      current = [];
+      currentBytes = 0;
+    }
+    current.push(...records);
+    currentBytes += size;
+  };
+
+  for (const trace of groupByTrace(invocations)) {
+    // +1 for the comma separating array elements
+    const sizes = trace.map(invocation => byteSize(invocation) + 1);
+    const traceBytes = sizes.reduce((sum, size) => sum + size, 0);
+
+    if (trace.length === 1 || traceBytes > maxBytes) {
+      // No batch can hold the whole trace, so it is split like unrelated records
+      trace.forEach((invocation, index) => add([invocation], sizes[index], maxCount));
+    } else {
+      add(trace, traceBytes, Math.max(maxCount, trace.length));
+    }
+  }
+
+  if (current.length > 0) {
+    batches.push(current);
+  }
+  return batches;
+}
+
+/**
+ * Runs of consecutive records that share a trace id. Records of one trace
+ * are queued together, so they are adjacent.
+ */
+function groupByTrace(invocations: TelemetryRecord[]): TelemetryRecord[][] {
+  const groups: TelemetryRecord[][] = [];
+  for (const invocation of invocations) {
+    const last = groups[groups.length - 1];
+    if (last && invocation.traceId !== undefined && last[0].traceId === invocation.traceId) {
+      last.push(invocation);
+    } else {
+      groups.push([invocation]);
+    }
+  }
+  return groups;
+}
+
+function truncateValue(value: unknown, budget: number): TruncatedValue {
+  const json = safeStringify(value) ?? '';
+  return {
+    _truncated: true,
+    originalBytes: Buffer.byteLength(json, 'utf8'),
+    preview: truncateUtf8(json, Math.min(MAX_PREVIEW_BYTES, Math.floor(budget / 2))),
+  };
+}
+
+function truncateOutput(
+  output: NonNullable<BaseRecord['output']>,
+  budget: number,
+  truncated: string[]
+): NonNullable<BaseRecord['output']> {
+  const result = { ...output };
+  const share = Math.floor(budget / 2);
+
+  for (const field of ['body', 'structuredContent'] as const) {
+    if (result[field] !== undefined && byteSize(result[field]) > share) {
+      result[field] = truncateValue(result[field], share);
+      truncated.push(`output.${field}`);
+    }
+  }
+
+  // Block summaries are small, but a result can have thousands of them
+  if (result.content && byteSize(result) > budget) {
+    delete result.content;
+    truncated.push('output.content');
+  }
+  return result;
+}
+
+function truncateError(
+  error: NonNullable<BaseRecord['error']>,
+  budget: number,
+  truncated: string[]
+): NonNullable<BaseRecord['error']> {
+  const result = { ...error };
+  const messageBudget = Math.floor(budget / 4);
+
+  if (Buffer.byteLength(result.message, 'utf8') > messageBudget) {
+    result.message = truncateString(result.message, messageBudget);
+    truncated.push('error.message');
+  }
+  if (result.stack && byteSize(result) > budget) {
+    result.stack = truncateString(result.stack, Math.max(0, budget - byteSize({ ...result, stack: '' })));
+    truncated.push('error.stack');
+  }
+  return result;
+}
+
+/**
+ * Truncate a string to `budget` bytes, including a marker that records
+ * the original size.
+ */
+function truncateString(value: string, budget: number): string {
+  const totalBytes = Buffer.byteLength(value, 'utf8');
+  if (totalBytes <= budget) return value;
+
+  const marker = `…[truncated, ${totalBytes} bytes total]`;
+  const kept = truncateUtf8(value, Math.max(0, budget - Buffer.byteLength(marker, 'utf8')));
+  return kept + marker;
+}
+
+/**
+ * Cut a string to at most `maxBytes` UTF-8 bytes without splitting a character.
+ */
+function truncateUtf8(value: string, maxBytes: number): string {
+  const buffer = Buffer.from(value, 'utf8');
+  if (buffer.length <= maxBytes) return value;
+
+  let end = maxBytes;
+  // Back up over continuation bytes (10xxxxxx) to a character boundary
+  while (end > 0 && (buffer[end] & 0xc0) === 0x80) {
+    end--;
+  }
+  return buffer.subarray(0, end).toString('utf8');
+}
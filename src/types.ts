@@ -8,10 +8,18 @@
 
 export interface EmcyConfig {
   /**
-   * API key for authentication. Required.
+   * API key for authentication. Required to send to Emcy.
    * Get this from the Emcy dashboard or your self-hosted telemetry server.
+   * Without it, and without `otlp` or `exporters`, telemetry is disabled.
    */
-  apiKey: string;
+  apiKey?: string;
+
+  /**
+   * Record and send invocations. Set to `false` to turn telemetry into a
+   * no-op, e.g. in tests or local development.
+   * Default: true when an API key, `otlp` or `exporters` is configured
+   */
+  enabled?: boolean;
   
   /**
    * Telemetry endpoint URL. 
@@ -43,18 +51,696 @@ export interface EmcyConfig {
    * Default: false
    */
   debug?: boolean;
+
+  /**
+   * Decide whether a tool result that returned normally was a success.
+   * Return `undefined` to fall back to the built-in detection, which marks
+   * MCP results with `isError: true` as failures.
+   */
+  classifyResult?: ResultClassifier;
+
+  /**
+   * Called for every record about to be queued, after sampling and before
+   * redaction. Return a new record to replace it, `null` to discard it, or
+   * nothing to keep it (including changes made in place).
+   */
+  beforeLog?: BeforeLogHook;
+
+  /**
+   * Called for every batch about to be sent, once per exporter. Return a
+   * new batch to replace it, `null` to skip sending it, or nothing to send
+   * it as is.
+   */
+  beforeSend?: BeforeSendHook;
+
+  /**
+   * Source of invocation, trace and span ids. For deterministic tests; see
+   * `@emcy/sdk/testing`.
+   * Default: random ids
+   */
+  ids?: IdGenerator;
+
+  /**
+   * Source of timestamps and durations. For deterministic tests; see
+   * `@emcy/sdk/testing`.
+   * Default: the system clock
+   */
+  clock?: Clock;
+
+  /**
+   * Destination for the SDK's own diagnostics, e.g. a pino or winston
+   * logger. Debug messages are only written when `debug` is true.
+   * Default: stderr
+   */
+  logger?: Logger;
+
+  /**
+   * Maximum number of characters kept from each text block of an MCP tool
+   * result in `output.content[].preview`.
+   * Default: 200
+   */
+  outputPreviewLength?: number;
+
+  /**
+   * Redaction applied to input, output and error details before an
+   * invocation is queued. Common secret key names, emails, credit card
+   * numbers and bearer tokens are redacted by default.
+   * Set to `false` to disable redaction entirely.
+   */
+  redaction?: RedactionConfig | false;
+
+  /**
+   * Byte budgets for captured payloads and outgoing batches.
+   * Oversized fields are replaced with truncation markers.
+   */
+  limits?: PayloadLimits;
+
+  /**
+   * Persist batches that could not be delivered to disk and replay them on
+   * the next start or once sending succeeds again.
+   * Disabled by default.
+   */
+  spool?: SpoolConfig;
+
+  /**
+   * Maximum number of invocations held in memory while waiting to be sent.
+   * Default: 1000
+   */
+  maxQueueSize?: number;
+
+  /**
+   * Batches each exporter sends concurrently when a flush splits the queue.
+   * Default: 2
+   */
+  maxInFlightBatches?: number;
+
+  /**
+   * Flush on `SIGINT`, `SIGTERM` and `beforeExit`, then let the process exit
+   * as it normally would. Set to `false` to call `shutdown()` yourself.
+   * Default: true
+   */
+  shutdownHooks?: boolean;
+
+  /**
+   * How long to wait for the flush on a signal before exiting anyway, in
+   * milliseconds.
+   * Default: 5000
+   */
+  shutdownTimeout?: number;
+
+  /**
+   * Abort a request to the default exporter after this many milliseconds.
+   * Default: 10000
+   */
+  requestTimeout?: number;
+
+  /**
+   * Which invocation to drop when the queue is full.
+   * Default: 'dropOldest'
+   */
+  overflowPolicy?: OverflowPolicy;
+
+  /**
+   * Keep only a fraction of invocations. Disabled by default (all kept).
+   */
+  sampling?: SamplingConfig;
+
+  /**
+   * When and how often the default exporter retries a failed batch.
+   */
+  retry?: RetryPolicy;
+
+  /**
+   * Pause sending to the default exporter after repeated failures.
+   * Enabled by default. Set to `false` to disable.
+   */
+  circuitBreaker?: CircuitBreakerConfig | false;
+
+  /**
+   * Send invocations to an OpenTelemetry Collector as OTLP spans instead
+   * of to the Emcy endpoint.
+   */
+  otlp?: OtlpExporterOptions;
+
+  /**
+   * In-process per-tool statistics, read with `getStats()`.
+   * Enabled by default. Set to `false` to disable.
+   */
+  stats?: StatsConfig | false;
+
+  /**
+   * Destinations for invocations. Each exporter gets its own queue,
+   * batching, retries and spool, so one failing destination does not
+   * affect the others.
+   * Default: a single `TelemetryTransport` for `endpoint` (or an
+   * `OtlpExporter` when `otlp` is set)
+   */
+  exporters?: Exporter[];
+}
+
+/**
+ * A destination for telemetry batches.
+ */
+export interface Exporter {
+  /**
+   * Name used in log messages and as the spool subdirectory.
+   */
+  readonly name?: string;
+
+  /**
+   * Invocations per batch for this exporter. Defaults to `EmcyConfig.batchSize`.
+   */
+  readonly batchSize?: number;
+
+  /**
+   * Deliver a batch. Resolve to false (or throw) when delivery failed and
+   * may succeed later, or to `{ success: false, retryable: false }` when
+   * the destination rejected the batch for good.
+   */
+  send(batch: TelemetryBatch): Promise<boolean | ExportResult>;
+
+  /**
+   * Release resources. Called once from `EmcyTelemetry.shutdown()`.
+   */
+  shutdown?(): Promise<void>;
+}
+
+/**
+ * Outcome of `Exporter.send()`, for exporters that can tell a temporary
+ * failure from a permanent rejection
+ */
+export interface ExportResult {
+  success: boolean;
+  /**
+   * Whether sending the same batch again could succeed. Rejected batches
+   * are counted as dropped instead of being spooled.
+   * Default: true
+   */
+  retryable?: boolean;
+}
+
+export interface ConsoleExporterOptions {
+  /**
+   * `pretty` prints a readable summary line, `json` the full invocation.
+   * Default: 'pretty'
+   */
+  format?: 'pretty' | 'json';
+
+  /**
+   * Line sink. Default: writes to stderr.
+   */
+  write?: (line: string) => void;
+}
+
+export interface JsonlFileExporterOptions {
+  /**
+   * File to append invocations to. Parent directories are created.
+   */
+  path: string;
+}
+
+export interface RetryPolicy {
+  /**
+   * Attempts per batch, including the first.
+   * Default: 3
+   */
+  maxAttempts?: number;
+
+  /**
+   * Backoff before the first retry, doubled for each one after it. The
+   * actual delay is a random value up to this (full jitter).
+   * Default: 1000
+   */
+  initialDelayMs?: number;
+
+  /**
+   * Longest backoff between attempts, including delays from `Retry-After`.
+   * Default: 30000
+   */
+  maxDelayMs?: number;
+
+  /**
+   * Give up on a batch once this much time has passed since its first attempt.
+   * Default: 60000
+   */
+  maxElapsedMs?: number;
+
+  /**
+   * HTTP statuses worth retrying. Network errors are always retried.
+   * Default: 408, 429 and all 5xx
+   */
+  retryableStatuses?: number[];
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerConfig {
+  /**
+   * Consecutive failed batches that open the circuit.
+   * Default: 5
+   */
+  failureThreshold?: number;
+
+  /**
+   * How long the circuit stays open before one trial batch is let through.
+   * Default: 30000
+   */
+  resetTimeoutMs?: number;
+
+  /**
+   * Called whenever the circuit changes state.
+   */
+  onStateChange?: (state: CircuitState, previous: CircuitState) => void;
+}
+
+export interface TransportOptions {
+  retry?: RetryPolicy;
+
+  /**
+   * Default: stderr
+   */
+  logger?: Logger;
+
+  /**
+   * Abort each request after this many milliseconds. A timed-out request is
+   * retried like a network error.
+   * Default: 10000
+   */
+  requestTimeout?: number;
+
+  /**
+   * Enabled by default. Set to `false` to disable.
+   */
+  circuitBreaker?: CircuitBreakerConfig | false;
+}
+
+export interface OtlpExporterOptions extends TransportOptions {
+  /**
+   * OTLP/HTTP traces endpoint.
+   * Default: http://localhost:4318/v1/traces
+   */
+  endpoint?: string;
+
+  /**
+   * Wire encoding.
+   * Default: 'http/json'
+   */
+  protocol?: 'http/json' | 'http/protobuf';
+
+  /**
+   * Extra request headers, e.g. for collector authentication.
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Enable debug logging to stderr.
+   * Default: false
+   */
+  debug?: boolean;
+}
+
+export interface SamplingConfig {
+  /**
+   * Fraction of invocations to keep, from 0 to 1.
+   * Default: 1
+   */
+  rate?: number;
+
+  /**
+   * Per-tool rates keyed by tool name or glob (`search_*`, `get_?`).
+   * The first matching entry wins over `rate`.
+   */
+  tools?: Record<string, number>;
+
+  /**
+   * Keep every failed invocation regardless of rate.
+   * Default: true
+   */
+  alwaysKeepErrors?: boolean;
+
+  /**
+   * Keep every invocation that took at least this many milliseconds.
+   */
+  slowThresholdMs?: number;
+
+  /**
+   * Return a rate for the invocation, or `undefined` to use `tools`/`rate`.
+   * Runs after the error and latency rules.
+   */
+  sampler?: (invocation: TelemetryRecord) => number | undefined;
 }
 
-export interface ToolInvocation {
+/**
+ * - `dropOldest`: discard the oldest queued invocation
+ * - `dropNewest`: discard the invocation being logged
+ * - `dropSuccessesFirst`: discard the oldest successful invocation, keeping
+ *   errors as long as possible
+ */
+export type OverflowPolicy = 'dropOldest' | 'dropNewest' | 'dropSuccessesFirst';
+
+/**
+ * - `queue_overflow`: the in-memory queue was full
+ * - `send_failed`: delivery failed and no spool was configured
+ * - `rejected`: the destination refused the batch, and retrying would not help
+ * - `spool_expired`: spooled for longer than the spool's `maxAgeMs`
+ * - `spool_full`: discarded to keep the spool within its `maxBytes`
+ */
+export type DropReason = 'queue_overflow' | 'send_failed' | 'rejected' | 'spool_expired' | 'spool_full';
+
+export interface IdGenerator {
+  invocationId(): string;
+  /** 32 lowercase hex characters, not all zero */
+  traceId(): string;
+  /** 16 lowercase hex characters, not all zero */
+  spanId(): string;
+}
+
+export interface Clock {
+  /** Milliseconds since the epoch, like `Date.now()` */
+  now(): number;
+}
+
+export interface Logger {
+  debug(message: string, ...args: unknown[]): void;
+  warn(message: string, ...args: unknown[]): void;
+  error(message: string, ...args: unknown[]): void;
+}
+
+/**
+ * A hook that throws discards the record, so a failing scrubber never
+ * lets data through.
+ */
+export type BeforeLogHook = (invocation: TelemetryRecord) => TelemetryRecord | null | undefined | void;
+
+/**
+ * A hook that throws skips the batch.
+ */
+export type BeforeSendHook = (batch: TelemetryBatch, exporter: string) => TelemetryBatch | null | undefined | void;
+
+export interface BatchEvent {
+  /** Name of the exporter the batch was for */
+  exporter: string;
+  batch: TelemetryBatch;
+}
+
+export interface BatchFailedEvent extends BatchEvent {
+  /** What the exporter threw, if it threw instead of returning false */
+  error?: Error;
+}
+
+export interface DroppedEvent {
+  exporter: string;
+  reason: DropReason;
+  invocations: TelemetryRecord[];
+}
+
+/**
+ * Events emitted by `EmcyTelemetry`, by name and payload
+ */
+export interface TelemetryEvents {
+  /** A record was queued for sending, after hooks, redaction and limits */
+  invocation: TelemetryRecord;
+  batchSent: BatchEvent;
+  batchFailed: BatchFailedEvent;
+  dropped: DroppedEvent;
+  /** An exporter, the spool or a hook failed */
+  error: Error;
+}
+
+export interface DropCounts {
+  total: number;
+  byReason: Partial<Record<DropReason, number>>;
+  byTool: Record<string, number>;
+}
+
+export interface StatsConfig {
+  /**
+   * Longest window `getStats()` can report on, in milliseconds.
+   * Default: 900000 (15 minutes)
+   */
+  maxWindowMs?: number;
+
+  /**
+   * Resolution of the sliding window, in milliseconds.
+   * Default: 10000 (10 seconds)
+   */
+  bucketMs?: number;
+
+  /**
+   * Add per-tool aggregates to a batch at this interval, in milliseconds.
+   * Disabled by default.
+   */
+  reportInterval?: number;
+}
+
+export interface LatencySummary {
+  min: number;
+  max: number;
+  mean: number;
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+export interface ToolStats {
+  count: number;
+  errors: number;
+  errorRate: number;
+  latency: LatencySummary;
+}
+
+export interface StatsSnapshot {
+  /** Length of the window the stats cover, in milliseconds */
+  windowMs: number;
+  tools: Record<string, ToolStats>;
+}
+
+export interface ToolAggregate {
+  toolName: string;
+  /** Start and end of the reporting interval (ISO 8601) */
+  start: string;
+  end: string;
+  count: number;
+  errors: number;
+  latency: LatencySummary & {
+    sum: number;
+    /** Upper bounds of the histogram buckets in milliseconds; the last bucket is unbounded */
+    bounds: number[];
+    counts: number[];
+  };
+}
+
+export interface SpoolConfig {
+  /**
+   * Directory for spool segments. Only one process can use it at a time.
+   */
+  directory: string;
+
+  /**
+   * Maximum total size of the spool. The oldest segments are discarded first.
+   * Default: 52428800 (50 MB)
+   */
+  maxBytes?: number;
+
+  /**
+   * Segments older than this are discarded instead of replayed.
+   * Default: 604800000 (7 days)
+   */
+  maxAgeMs?: number;
+}
+
+export interface PayloadLimits {
+  /**
+   * Maximum serialized size of `input`.
+   * Default: 16384 (16 KB)
+   */
+  maxInputBytes?: number;
+
+  /**
+   * Maximum serialized size of `output`.
+   * Default: 32768 (32 KB)
+   */
+  maxOutputBytes?: number;
+
+  /**
+   * Maximum serialized size of `error`, including the stack.
+   * Default: 8192 (8 KB)
+   */
+  maxErrorBytes?: number;
+
+  /**
+   * Maximum serialized size of a whole invocation.
+   * Default: 65536 (64 KB)
+   */
+  maxInvocationBytes?: number;
+
+  /**
+   * Maximum serialized size of the invocations in one batch request.
+   * Default: 524288 (512 KB)
+   */
+  maxBatchBytes?: number;
+}
+
+/**
+ * Replaces a value that exceeded its byte budget.
+ */
+export type TruncatedValue = {
+  _truncated: true;
+  /** Serialized size of the original value in bytes */
+  originalBytes: number;
+  /** Leading part of the original value's JSON serialization */
+  preview: string;
+};
+
+/**
+ * Built-in value scrubber name, or a custom pattern to scrub.
+ */
+export type RedactionPattern = 'email' | 'creditCard' | 'bearerToken' | RegExp;
+
+export interface RedactionRules {
+  /**
+   * Key names whose values are redacted wherever they appear.
+   * Strings match case-insensitively, ignoring `-` and `_`.
+   */
+  keys?: (string | RegExp)[];
+
+  /**
+   * Paths to redact, rooted at the invocation, e.g. `input.user.email` or
+   * `output.structuredContent.items[*].ssn`. `*` matches any single segment.
+   */
+  paths?: string[];
+
+  /**
+   * Patterns scrubbed from every string value.
+   * Default: ['email', 'creditCard', 'bearerToken']
+   */
+  patterns?: RedactionPattern[];
+}
+
+export interface RedactionConfig extends RedactionRules {
+  /**
+   * `drop` replaces redacted values with `[REDACTED]`. `hash` replaces them
+   * with a truncated SHA-256 digest, so equal values stay correlatable.
+   * Default: 'drop'
+   */
+  strategy?: 'drop' | 'hash';
+
+  /**
+   * Salt prepended to values before hashing.
+   */
+  hashSalt?: string;
+
+  /**
+   * Include the default key deny-list and patterns.
+   * Default: true
+   */
+  useDefaults?: boolean;
+
+  /**
+   * Extra rules applied only to the named tools, on top of the global rules.
+   */
+  tools?: Record<string, RedactionRules>;
+}
+
+export interface ResultClassification {
+  success: boolean;
+  error?: {
+    message: string;
+    code?: string;
+  };
+}
+
+export type ResultClassifier = (
+  result: unknown,
+  toolName: string
+) => ResultClassification | undefined;
+
+/**
+ * Fields every record has, whatever its `kind`
+ */
+export interface BaseRecord {
   invocationId: string;
+  /**
+   * Name of the record: the tool or span name, resource URI, prompt name,
+   * MCP method, or `session/start` and `session/end`. Kept on every kind so
+   * readers of schema 1.0 can still group records by name.
+   */
   toolName: string;
+  /**
+   * Id shared by a traced tool call and every span inside it
+   * (32 lowercase hex characters).
+   * @pattern ^[0-9a-f]{32}$
+   */
+  traceId?: string;
+  /**
+   * `invocationId` of the enclosing invocation or span. Set on child records.
+   */
+  parentInvocationId?: string;
+  /**
+   * W3C span id of this record (16 lowercase hex characters).
+   * @pattern ^[0-9a-f]{16}$
+   */
+  spanId?: string;
+  /**
+   * W3C span id of the parent: the enclosing span for child records, or the
+   * remote caller from an incoming `traceparent` for the root.
+   * @pattern ^[0-9a-f]{16}$
+   */
+  parentSpanId?: string;
+  /**
+   * MCP method that produced this invocation (e.g. `tools/call`, `resources/read`).
+   * Set by `instrumentServer()`; omitted for manually traced calls.
+   */
+  method?: string;
+  /**
+   * JSON-RPC id of the MCP request that produced this invocation.
+   */
+  requestId?: string | number;
+  /**
+   * Which end of the MCP connection recorded this. Absent for the server
+   * side; `client` for calls recorded by `instrumentClient()`.
+   */
+  side?: 'server' | 'client';
+  /**
+   * The server a client-side record called, as it advertised itself when
+   * the connection was initialized.
+   */
+  targetServer?: {
+    name: string;
+    version?: string;
+  };
+  /**
+   * When the invocation finished (ISO 8601)
+   * @format date-time
+   */
   timestamp: string;
+  /**
+   * Milliseconds from start to finish
+   * @minimum 0
+   */
   duration: number;
+  /**
+   * Milliseconds from start until the first message of the response, such
+   * as a progress notification or the result itself. Set by
+   * `Span.markFirstResponse()`.
+   * @minimum 0
+   */
+  timeToFirstResponse?: number;
   success: boolean;
   input?: Record<string, unknown>;
   output?: {
     status?: number;
     body?: unknown;
+    /**
+     * Summary of each content block of an MCP `CallToolResult`.
+     * When present, the raw result is not sent as `body`.
+     */
+    content?: ContentBlockSummary[];
+    /** Number of content blocks per block type */
+    contentCounts?: Record<string, number>;
+    /** Total size of all content blocks in bytes */
+    contentBytes?: number;
+    structuredContent?: unknown;
   };
   error?: {
     message: string;
@@ -69,12 +755,256 @@ export interface ToolInvocation {
     serverVersion?: string;
     mcpServerId?: string;
   };
+  /**
+   * Paths of fields that were truncated to fit the payload limits,
+   * e.g. `input`, `output.body`, `error.stack`.
+   */
+  truncated?: string[];
+  /**
+   * Number of invocations this one represents (1 / sample rate).
+   * Set when sampling is configured.
+   */
+  sampleWeight?: number;
+  /**
+   * Custom attributes set through `SpanOptions.attributes` or `Span.setAttribute()`.
+   */
+  attributes?: Record<string, AttributeValue>;
+}
+
+/**
+ * A tool call, or a span created with `span()`
+ */
+export interface ToolInvocation extends BaseRecord {
+  /** Absent on records written before schema 1.1 */
+  kind?: 'tool';
+}
+
+/**
+ * A read of, or subscription to, one resource
+ */
+export interface ResourceInvocation extends BaseRecord {
+  kind: 'resource';
+  uri: string;
+}
+
+/**
+ * A `prompts/get` request
+ */
+export interface PromptInvocation extends BaseRecord {
+  kind: 'prompt';
+  promptName: string;
+}
+
+/**
+ * Any other MCP request, such as a list, a completion, or a sampling
+ * request sent to the client
+ */
+export interface RequestInvocation extends BaseRecord {
+  kind: 'request';
+  method: string;
+}
+
+/**
+ * Start or end of a client session. `start` is recorded once `initialize`
+ * was answered; `end` when the connection closes, with the session's
+ * length as `duration`.
+ */
+export interface SessionEvent extends BaseRecord {
+  kind: 'session';
+  event: 'start' | 'end';
+  client?: {
+    name: string;
+    version?: string;
+  };
+  /** Protocol version agreed in `initialize` */
+  protocolVersion?: string;
+}
+
+/**
+ * One record, as sent in `TelemetryBatch.invocations` and passed to `log()`.
+ * Records without a `kind` are tool calls.
+ */
+export type TelemetryRecord =
+  | ToolInvocation
+  | ResourceInvocation
+  | PromptInvocation
+  | RequestInvocation
+  | SessionEvent;
+
+export type RecordKind = NonNullable<TelemetryRecord['kind']>;
+
+/**
+ * What `startSession()` records about the client
+ */
+export interface SessionInfo {
+  clientName?: string;
+  clientVersion?: string;
+  protocolVersion?: string;
+}
+
+export interface SessionOptions {
+  sessionId?: string;
+}
+
+export type AttributeValue = string | number | boolean;
+
+/**
+ * Handle for the invocation or span currently running, passed to the
+ * function given to `trace()` and `span()`.
+ */
+export interface Span {
+  readonly traceId: string;
+  readonly spanId: string;
+  readonly invocationId: string;
+  /**
+   * W3C `traceparent` value identifying this span, for propagating the
+   * trace to downstream services.
+   */
+  readonly traceparent: string;
+  setAttribute(key: string, value: AttributeValue): void;
+  setAttributes(attributes: Record<string, AttributeValue>): void;
+  /**
+   * Record the span as failed without throwing, e.g. for an HTTP error status.
+   */
+  setError(error: { message: string; code?: string }): void;
+  /**
+   * Record that the first part of the response arrived, e.g. a progress
+   * notification or a streamed chunk. Later calls are ignored.
+   */
+  markFirstResponse(): void;
+}
+
+/**
+ * Identity and attributes applied to everything traced or logged inside
+ * `withContext()`.
+ */
+export interface InvocationContext {
+  sessionId?: string;
+  agentId?: string;
+  userId?: string;
+  attributes?: Record<string, AttributeValue>;
+}
+
+export interface SpanOptions {
+  attributes?: Record<string, AttributeValue>;
+}
+
+export interface ContentBlockSummary {
+  /** Block type: text, image, audio, resource or resource_link */
+  type: string;
+  /** Decoded size of the block's payload in bytes */
+  bytes: number;
+  mimeType?: string;
+  uri?: string;
+  /** Leading characters of text content */
+  preview?: string;
+  /** True when `preview` is shorter than the original text */
+  truncated?: boolean;
+}
+
+export interface TraceOptions extends SpanOptions {
+  input?: Record<string, unknown>;
+  sessionId?: string;
+  method?: string;
+  requestId?: string | number;
+  /**
+   * Incoming W3C `traceparent`. When valid, the invocation joins that trace
+   * instead of starting a new one. Ignored for nested calls.
+   */
+  traceparent?: string;
+  /**
+   * Incoming W3C `tracestate`, propagated with `traceparent`.
+   */
+  tracestate?: string;
+  /** Recorded as `side`. Default: the server side */
+  side?: 'server' | 'client';
+  /** Recorded as `targetServer`, for calls made by a client */
+  targetServer?: { name: string; version?: string };
 }
 
+export interface ResolveConfigOptions extends EmcyConfig {
+  /**
+   * Path to a JSON config file, or `false` to skip file loading.
+   * Default: `EMCY_CONFIG_FILE`, then `emcy.config.json` in the working
+   * directory if it exists
+   */
+  configFile?: string | false;
+
+  /**
+   * Environment to read `EMCY_*` variables from.
+   * Default: process.env
+   */
+  env?: Record<string, string | undefined>;
+}
+
+export interface OutboundInstrumentationOptions {
+  /**
+   * Request header names to record as `http.request.header.<name>`.
+   * Values of secret headers (authorization, cookie, ...) are redacted.
+   * Default: none
+   */
+  captureHeaders?: string[];
+
+  /**
+   * Extra query parameter and header names to redact, on top of the
+   * default secret key names.
+   */
+  redactKeys?: string[];
+
+  /**
+   * Turn a URL into a low-cardinality path template. Return `undefined` to
+   * use the default, which replaces numeric, UUID and long hex segments
+   * with `{id}`.
+   */
+  pathTemplate?: (url: URL) => string | undefined;
+
+  /**
+   * Skip recording requests to matching URLs.
+   */
+  ignore?: (url: URL) => boolean;
+}
+
+export interface InstrumentServerOptions {
+  /**
+   * MCP request methods to record, handled or sent by the server.
+   * `initialize` turns on session tracking.
+   * Default: initialize, tools/call, tools/list, resources/read,
+   * resources/subscribe, resources/unsubscribe, resources/list,
+   * resources/templates/list, prompts/get, prompts/list,
+   * completion/complete, sampling/createMessage, elicitation/create,
+   * roots/list
+   */
+  methods?: string[];
+}
+
+/**
+ * Request body sent to the telemetry endpoint. Published as JSON Schema in
+ * `schema/telemetry-batch.schema.json`.
+ */
 export interface TelemetryBatch {
+  /**
+   * Wire schema version, `major.minor`. Minor versions only add optional
+   * fields; a new major version may change or remove them.
+   * @pattern ^\d+\.\d+$
+   */
+  schemaVersion: string;
   apiKey: string;
   mcpServerId?: string;
+  /**
+   * When the batch was created (ISO 8601)
+   * @format date-time
+   */
   timestamp: string;
-  invocations: ToolInvocation[];
+  invocations: TelemetryRecord[];
+  /**
+   * Invocations dropped since the last batch that was delivered,
+   * so the backend can account for gaps in the data.
+   */
+  dropped?: DropCounts;
+  /**
+   * Per-tool totals reported every `stats.reportInterval`. They count every
+   * invocation, including those removed by sampling.
+   */
+  aggregates?: ToolAggregate[];
 }
 